@@ -0,0 +1,221 @@
+/**
+ * A1 引用解析与格式化
+ * 纯函数，无副作用
+ *
+ * 导入和应用各环节共用的 A1 引用处理：
+ * - 单元格和区域：A1、$B$2:$B$500（$ 绝对引用标记解析时忽略）
+ * - 整列、整行：A:A、$C:$E、3:3，按 Excel 工作表的最大行列数展开
+ * - 工作表前缀：Sheet1!A1、'My Sheet'!A1（名称中的 ' 写作 ''）
+ * - 区域列表：sqref 以空格分隔（A1:B2 D5），公式和定义名称中以逗号分隔
+ *
+ * 行列均为 0-based。
+ */
+
+/** Excel 工作表最大行数 */
+export const EXCEL_MAX_ROWS = 1048576;
+
+/** Excel 工作表最大列数 */
+export const EXCEL_MAX_COLUMNS = 16384;
+
+/**
+ * 区域（0-based，含起止行列）
+ */
+export interface A1Range {
+  startRow: number;
+  endRow: number;
+  startColumn: number;
+  endColumn: number;
+}
+
+/**
+ * 解析后的 A1 引用
+ */
+export interface A1Reference extends A1Range {
+  /** 工作表名称（已去掉引号）；引用不带工作表前缀时为 undefined */
+  sheetName?: string;
+}
+
+/**
+ * 格式化选项
+ */
+export interface A1FormatOptions {
+  /** 行列前加 $（默认 false） */
+  absolute?: boolean;
+  /** 工作表名称，需要时自动加引号 */
+  sheetName?: string;
+}
+
+/** 区域的一端：列字母和/或行号 */
+const AREA_PART = /^\$?([A-Za-z]{1,3})?\$?(\d+)?$/;
+
+/**
+ * 列号（0-based）转列字母
+ * 0 -> A, 25 -> Z, 26 -> AA
+ */
+export function columnToLetters(column: number): string {
+  let letters = '';
+  let n = column + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * 列字母转列号（0-based，不区分大小写）
+ * A -> 0, Z -> 25, AA -> 26
+ */
+export function lettersToColumn(letters: string): number {
+  let num = 0;
+  for (const ch of letters.toUpperCase()) {
+    num = num * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return num - 1;
+}
+
+/**
+ * 需要时为工作表名称加引号
+ */
+export function quoteSheetName(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !/^[A-Za-z]{1,3}\d+$/.test(name)) {
+    return name;
+  }
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+/**
+ * 拆分工作表前缀
+ * @returns 工作表名称（已去掉引号）和区域部分；引号未闭合时返回 null
+ */
+function splitSheetPrefix(text: string): { sheetName?: string; area: string } | null {
+  if (text.startsWith("'")) {
+    let i = 1;
+    while (i < text.length) {
+      if (text[i] === "'") {
+        if (text[i + 1] !== "'") break;
+        i++;
+      }
+      i++;
+    }
+    if (text[i + 1] !== '!') return null;
+    return { sheetName: text.slice(1, i).replace(/''/g, "'"), area: text.slice(i + 2) };
+  }
+  const bang = text.lastIndexOf('!');
+  if (bang < 0) return { area: text };
+  return { sheetName: text.slice(0, bang), area: text.slice(bang + 1) };
+}
+
+/**
+ * 解析单个 A1 引用
+ * 支持 A1、$A$1:$B$5、A:B、1:3，可带工作表前缀
+ * @param text 引用文本
+ * @returns 解析结果（起止行列已按从小到大排列）；无效引用返回 null
+ */
+export function parseA1Reference(text: string): A1Reference | null {
+  const split = splitSheetPrefix(text.trim());
+  if (!split || !split.area) return null;
+
+  const parts = split.area.split(':');
+  if (parts.length > 2) return null;
+  const matches = parts.map((part) => part.match(AREA_PART));
+  if (matches.some((match) => !match || (!match[1] && !match[2]))) return null;
+  const [start, end = start] = matches as RegExpMatchArray[];
+
+  // 两端需同为单元格、同为列或同为行；整列、整行必须写成区域（A:A、3:3）
+  const kind = (match: RegExpMatchArray) => (match[1] ? (match[2] ? 'cell' : 'column') : 'row');
+  if (kind(start) !== kind(end) || (parts.length === 1 && kind(start) !== 'cell')) return null;
+
+  const rows = [start[2], end[2]].map((row) => (row ? parseInt(row, 10) - 1 : -1));
+  const columns = [start[1], end[1]].map((column) => (column ? lettersToColumn(column) : -1));
+  if (
+    rows.some((row) => row >= EXCEL_MAX_ROWS || (kind(start) !== 'column' && row < 0)) ||
+    columns.some((column) => column >= EXCEL_MAX_COLUMNS)
+  ) {
+    return null;
+  }
+
+  const reference: A1Reference = {
+    startRow: kind(start) === 'column' ? 0 : Math.min(rows[0], rows[1]),
+    endRow: kind(start) === 'column' ? EXCEL_MAX_ROWS - 1 : Math.max(rows[0], rows[1]),
+    startColumn: kind(start) === 'row' ? 0 : Math.min(columns[0], columns[1]),
+    endColumn: kind(start) === 'row' ? EXCEL_MAX_COLUMNS - 1 : Math.max(columns[0], columns[1]),
+  };
+  if (split.sheetName !== undefined) reference.sheetName = split.sheetName;
+  return reference;
+}
+
+/**
+ * 解析区域列表（空格或逗号分隔，引号内的分隔符不拆分）
+ * @param text 区域列表，如 sqref "A1:B2 D5" 或 "Sheet1!$A:$A,Sheet1!$1:$1"
+ * @returns 各区域；为空或任一区域无效时返回空数组
+ */
+export function parseA1References(text: string): A1Reference[] {
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === "'") quoted = !quoted;
+    if (!quoted && (ch === ',' || /\s/.test(ch))) {
+      if (current) items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) items.push(current);
+
+  const references: A1Reference[] = [];
+  for (const item of items) {
+    const reference = parseA1Reference(item);
+    if (!reference) return [];
+    references.push(reference);
+  }
+  return references;
+}
+
+/**
+ * 格式化区域为 A1 引用
+ * 覆盖所有行时写成整列（A:B），覆盖所有列时写成整行（1:3），单个单元格不带冒号
+ * @param range 区域
+ * @param options 绝对引用、工作表名称
+ */
+export function formatA1Range(range: A1Range, options: A1FormatOptions = {}): string {
+  const abs = options.absolute ? '$' : '';
+  const prefix = options.sheetName !== undefined ? `${quoteSheetName(options.sheetName)}!` : '';
+  const startColumn = `${abs}${columnToLetters(range.startColumn)}`;
+  const endColumn = `${abs}${columnToLetters(range.endColumn)}`;
+
+  let area: string;
+  if (range.startRow === 0 && range.endRow >= EXCEL_MAX_ROWS - 1) {
+    area = `${startColumn}:${endColumn}`;
+  } else if (range.startColumn === 0 && range.endColumn >= EXCEL_MAX_COLUMNS - 1) {
+    area = `${abs}${range.startRow + 1}:${abs}${range.endRow + 1}`;
+  } else {
+    const start = `${startColumn}${abs}${range.startRow + 1}`;
+    const end = `${endColumn}${abs}${range.endRow + 1}`;
+    area = start === end ? start : `${start}:${end}`;
+  }
+  return `${prefix}${area}`;
+}
+
+/**
+ * 裁剪区域到工作表边界内
+ * @param range 区域
+ * @param maxRows 工作表行数
+ * @param maxColumns 工作表列数
+ * @returns 裁剪后的区域（保留其他属性）；区域完全在边界外时返回 null
+ */
+export function clipA1Range<T extends A1Range>(
+  range: T,
+  maxRows: number,
+  maxColumns: number,
+): T | null {
+  if (range.startRow >= maxRows || range.startColumn >= maxColumns) return null;
+  return {
+    ...range,
+    endRow: Math.min(range.endRow, maxRows - 1),
+    endColumn: Math.min(range.endColumn, maxColumns - 1),
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * CFB（Compound File Binary / OLE2）容器读取
+ * 纯函数，无副作用
+ *
+ * Excel 97-2003 (.xls) 文件本质上是一个 CFB 容器，工作簿数据存放在名为
+ * "Workbook"（BIFF8）或 "Book"（BIFF5）的流中。加密的 .xlsx 文件同样使用
+ * CFB 容器（EncryptionInfo / EncryptedPackage 流）。
+ */
+
+import { CorruptFileError } from './errors';
+
+/** CFB 文件头签名 */
+export const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// 特殊扇区编号
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+// 目录项类型
+const ENTRY_STORAGE = 1;
+const ENTRY_STREAM = 2;
+const ENTRY_ROOT = 5;
+
+/**
+ * CFB 目录项
+ */
+export interface CfbEntry {
+  /** 流或存储名称 */
+  name: string;
+  /** 类型：1 存储，2 流，5 根 */
+  type: number;
+  /** 起始扇区 */
+  startSector: number;
+  /** 流大小（字节） */
+  size: number;
+  /** 左兄弟节点 ID */
+  left: number;
+  /** 右兄弟节点 ID */
+  right: number;
+  /** 子节点 ID */
+  child: number;
+}
+
+/**
+ * 解析后的 CFB 容器
+ */
+export interface CfbContainer {
+  /** 全部目录项（索引即目录 ID） */
+  entries: CfbEntry[];
+  /** 根存储下的直接子项 */
+  rootEntries: CfbEntry[];
+  /** 读取流内容 */
+  readStream: (entry: CfbEntry) => Uint8Array;
+}
+
+/**
+ * 检查数据是否以 CFB 签名开头
+ */
+export function isCfb(data: Uint8Array): boolean {
+  if (data.length < CFB_SIGNATURE.length) return false;
+  return CFB_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * 解析 CFB 容器
+ * @param buffer 文件内容
+ * @returns 解析后的容器，可按名称查找并读取流
+ */
+export function readCfb(buffer: ArrayBuffer | Uint8Array): CfbContainer {
+  const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (!isCfb(data)) {
+    throw new CorruptFileError('不是有效的 CFB 复合文档');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const sectorShift = view.getUint16(0x1e, true);
+  const miniSectorShift = view.getUint16(0x20, true);
+  const sectorSize = 1 << sectorShift;
+  const miniSectorSize = 1 << miniSectorShift;
+  const numFatSectors = view.getUint32(0x2c, true);
+  const firstDirSector = view.getUint32(0x30, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  const firstDifatSector = view.getUint32(0x44, true);
+  const numDifatSectors = view.getUint32(0x48, true);
+
+  const sectorOffset = (sector: number): number => (sector + 1) * sectorSize;
+
+  // 1. 读取 DIFAT，得到所有 FAT 扇区编号
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109 && fatSectors.length < numFatSectors; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector === FREE_SECT || sector === END_OF_CHAIN) break;
+    fatSectors.push(sector);
+  }
+  let difatSector = firstDifatSector;
+  const entriesPerSector = sectorSize / 4;
+  for (
+    let n = 0;
+    n < numDifatSectors && difatSector !== END_OF_CHAIN && difatSector !== FREE_SECT;
+    n++
+  ) {
+    const base = sectorOffset(difatSector);
+    for (let i = 0; i < entriesPerSector - 1 && fatSectors.length < numFatSectors; i++) {
+      fatSectors.push(view.getUint32(base + i * 4, true));
+    }
+    difatSector = view.getUint32(base + (entriesPerSector - 1) * 4, true);
+  }
+
+  // 2. 读取 FAT
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    if (base + sectorSize > data.length) break;
+    for (let i = 0; i < entriesPerSector; i++) {
+      fat.push(view.getUint32(base + i * 4, true));
+    }
+  }
+
+  // 沿扇区链读取数据
+  const readChain = (startSector: number, size: number | null): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    let sector = startSector;
+    const visited = new Set<number>();
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT && sector < fat.length) {
+      if (visited.has(sector)) {
+        throw new CorruptFileError('CFB 扇区链存在循环');
+      }
+      visited.add(sector);
+      const start = sectorOffset(sector);
+      chunks.push(data.subarray(start, Math.min(start + sectorSize, data.length)));
+      total += sectorSize;
+      if (size !== null && total >= size) break;
+      sector = fat[sector];
+    }
+    return concatChunks(chunks, size ?? total);
+  };
+
+  // 3. 读取目录
+  const dirData = readChain(firstDirSector, null);
+  const dirView = new DataView(dirData.buffer, dirData.byteOffset, dirData.byteLength);
+  const entries: CfbEntry[] = [];
+  for (let offset = 0; offset + 128 <= dirData.length; offset += 128) {
+    const nameLength = dirView.getUint16(offset + 0x40, true);
+    let name = '';
+    for (let i = 0; i + 2 < nameLength && i < 64; i += 2) {
+      name += String.fromCharCode(dirView.getUint16(offset + i, true));
+    }
+    entries.push({
+      name,
+      type: dirView.getUint8(offset + 0x42),
+      left: dirView.getUint32(offset + 0x44, true),
+      right: dirView.getUint32(offset + 0x48, true),
+      child: dirView.getUint32(offset + 0x4c, true),
+      startSector: dirView.getUint32(offset + 0x74, true),
+      // 版本 3 的文件只使用低 32 位
+      size: dirView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  const root = entries[0];
+  if (!root || root.type !== ENTRY_ROOT) {
+    throw new CorruptFileError('CFB 根目录项无效');
+  }
+
+  // 4. 读取 Mini FAT 和 Mini Stream（小于 cutoff 的流存放在这里）
+  const miniFat: number[] = [];
+  if (firstMiniFatSector !== END_OF_CHAIN && firstMiniFatSector !== FREE_SECT) {
+    const miniFatData = readChain(firstMiniFatSector, null);
+    const miniFatView = new DataView(
+      miniFatData.buffer,
+      miniFatData.byteOffset,
+      miniFatData.byteLength,
+    );
+    for (let i = 0; i + 4 <= miniFatData.length; i += 4) {
+      miniFat.push(miniFatView.getUint32(i, true));
+    }
+  }
+  let miniStream: Uint8Array | null = null;
+
+  const readMiniChain = (startSector: number, size: number): Uint8Array => {
+    if (!miniStream) {
+      miniStream = readChain(root.startSector, root.size);
+    }
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    let sector = startSector;
+    const visited = new Set<number>();
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT && sector < miniFat.length) {
+      if (visited.has(sector)) {
+        throw new CorruptFileError('CFB Mini 扇区链存在循环');
+      }
+      visited.add(sector);
+      const start = sector * miniSectorSize;
+      chunks.push(miniStream.subarray(start, start + miniSectorSize));
+      total += miniSectorSize;
+      if (total >= size) break;
+      sector = miniFat[sector];
+    }
+    return concatChunks(chunks, size);
+  };
+
+  const readStream = (entry: CfbEntry): Uint8Array => {
+    if (entry.type !== ENTRY_STREAM) {
+      throw new CorruptFileError(`CFB 目录项 "${entry.name}" 不是流`);
+    }
+    if (entry.size < miniStreamCutoff) {
+      return readMiniChain(entry.startSector, entry.size);
+    }
+    return readChain(entry.startSector, entry.size);
+  };
+
+  // 5. 遍历根存储的子节点（红黑树，按 left/right 展开）
+  const rootEntries: CfbEntry[] = [];
+  const stack: number[] = root.child !== NO_STREAM ? [root.child] : [];
+  const seen = new Set<number>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id) || !entries[id]) continue;
+    seen.add(id);
+    const entry = entries[id];
+    if (entry.type === ENTRY_STREAM || entry.type === ENTRY_STORAGE) {
+      rootEntries.push(entry);
+    }
+    if (entry.left !== NO_STREAM) stack.push(entry.left);
+    if (entry.right !== NO_STREAM) stack.push(entry.right);
+  }
+
+  return { entries, rootEntries, readStream };
+}
+
+/**
+ * 在根存储下按名称查找流（不区分大小写）
+ */
+export function findCfbStream(container: CfbContainer, name: string): CfbEntry | null {
+  const lowerName = name.toLowerCase();
+  return (
+    container.rootEntries.find(
+      (entry) => entry.type === ENTRY_STREAM && entry.name.toLowerCase() === lowerName,
+    ) || null
+  );
+}
+
+/**
+ * 拼接数据块并截断到指定长度
+ */
+function concatChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= size) break;
+    const length = Math.min(chunk.length, size - offset);
+    result.set(chunk.subarray(0, length), offset);
+    offset += length;
+  }
+  return result;
+}
@@ -0,0 +1,244 @@
+/**
+ * 导入错误类型
+ *
+ * importFile 抛出的错误均为 ImportError 的子类，可通过 instanceof 或 code 区分，
+ * 无需匹配错误信息文本。原始错误保存在 cause 中。
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await importFile(file);
+ * } catch (error) {
+ *   if (error instanceof EncryptedFileError) {
+ *     showMessage('文件已加密，请先取消密码保护');
+ *   } else if (error instanceof ImportError) {
+ *     showMessage(`导入失败（${error.code}）`);
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * 导入错误代码
+ */
+export type ImportErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'CORRUPT_FILE'
+  | 'ENCRYPTED_FILE'
+  | 'ENCODING_ERROR'
+  | 'IMPORT_ABORTED'
+  | 'WORKER_UNAVAILABLE';
+
+/**
+ * 导入错误构造选项
+ */
+export interface ImportErrorOptions {
+  /** 原始错误 */
+  cause?: unknown;
+}
+
+/**
+ * 导入错误基类
+ */
+export class ImportError extends Error {
+  /** 错误代码 */
+  readonly code: ImportErrorCode;
+  /** 原始错误 */
+  readonly cause?: unknown;
+
+  constructor(code: ImportErrorCode, message: string, options: ImportErrorOptions = {}) {
+    super(message);
+    this.name = 'ImportError';
+    this.code = code;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 不支持的文件格式（扩展名不支持，或为 BIFF5 等暂不支持的旧格式）
+ */
+export class UnsupportedFormatError extends ImportError {
+  /** 文件格式（扩展名或格式名称） */
+  readonly format?: string;
+
+  constructor(message: string, options: ImportErrorOptions & { format?: string } = {}) {
+    super('UNSUPPORTED_FORMAT', message, options);
+    this.name = 'UnsupportedFormatError';
+    this.format = options.format;
+  }
+}
+
+/**
+ * 文件已损坏或结构无效，无法解析
+ */
+export class CorruptFileError extends ImportError {
+  constructor(message: string, options: ImportErrorOptions = {}) {
+    super('CORRUPT_FILE', message, options);
+    this.name = 'CorruptFileError';
+  }
+}
+
+/**
+ * 文件已加密（设置了打开密码）
+ */
+export class EncryptedFileError extends ImportError {
+  constructor(message = '文件已加密，无法导入', options: ImportErrorOptions = {}) {
+    super('ENCRYPTED_FILE', message, options);
+    this.name = 'EncryptedFileError';
+  }
+}
+
+/**
+ * 文本文件（CSV）无法按指定或常见编码解码
+ */
+export class EncodingError extends ImportError {
+  /** 指定的编码 */
+  readonly encoding?: string;
+
+  constructor(message: string, options: ImportErrorOptions & { encoding?: string } = {}) {
+    super('ENCODING_ERROR', message, options);
+    this.name = 'EncodingError';
+    this.encoding = options.encoding;
+  }
+}
+
+/**
+ * 导入被取消（AbortSignal 触发）
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await importFile(file, { signal: controller.signal });
+ * } catch (error) {
+ *   if (error instanceof ImportAbortedError) return;
+ *   throw error;
+ * }
+ * ```
+ */
+export class ImportAbortedError extends ImportError {
+  /** AbortSignal.reason */
+  readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super('IMPORT_ABORTED', '导入已取消');
+    this.name = 'ImportAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 无法创建内置导入 Worker（CommonJS 构建中没有 import.meta.url，无法定位 Worker 脚本）
+ * 此时需通过 worker 选项传入 Worker 实例或创建函数
+ */
+export class WorkerUnavailableError extends ImportError {
+  constructor(message: string, options: ImportErrorOptions = {}) {
+    super('WORKER_UNAVAILABLE', message, options);
+    this.name = 'WorkerUnavailableError';
+  }
+}
+
+/**
+ * 导出错误代码
+ */
+export type ExportErrorCode = 'SHEET_NOT_FOUND';
+
+/**
+ * 导出错误基类（exportSheetToCsv 等导出函数抛出）
+ */
+export class ExportError extends Error {
+  /** 错误代码 */
+  readonly code: ExportErrorCode;
+  /** 原始错误 */
+  readonly cause?: unknown;
+
+  constructor(code: ExportErrorCode, message: string, options: ImportErrorOptions = {}) {
+    super(message);
+    this.name = 'ExportError';
+    this.code = code;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 工作簿中不存在指定的工作表
+ */
+export class SheetNotFoundError extends ExportError {
+  /** 工作表 ID */
+  readonly sheetId: string;
+
+  constructor(sheetId: string, options: ImportErrorOptions = {}) {
+    super('SHEET_NOT_FOUND', `未找到工作表: ${sheetId}`, options);
+    this.name = 'SheetNotFoundError';
+    this.sheetId = sheetId;
+  }
+}
+
+/**
+ * 可跨线程传递的错误（结构化克隆不保留 Error 子类和自定义字段）
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  /** 原始错误（Error 递归序列化，其他值按原样或转为字符串） */
+  cause?: SerializedError | string | number | boolean;
+  /** UnsupportedFormatError.format */
+  format?: string;
+  /** EncodingError.encoding */
+  encoding?: string;
+}
+
+/**
+ * 序列化错误（用于 Worker 跨线程传递）
+ * 保留名称、信息、cause 及导入错误子类的附加字段
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause instanceof Error) {
+    serialized.cause = serializeError(cause);
+  } else if (cause !== undefined && cause !== null) {
+    serialized.cause =
+      typeof cause === 'string' || typeof cause === 'number' || typeof cause === 'boolean'
+        ? cause
+        : String(cause);
+  }
+  if (error instanceof UnsupportedFormatError && error.format !== undefined) {
+    serialized.format = error.format;
+  }
+  if (error instanceof EncodingError && error.encoding !== undefined) {
+    serialized.encoding = error.encoding;
+  }
+  return serialized;
+}
+
+/**
+ * 还原序列化的错误（用于 Worker 跨线程传递的错误）
+ * @param serialized serializeError 的结果
+ * @returns 对应的 ImportError 子类实例；未知名称返回普通 Error
+ */
+export function restoreImportError(serialized: SerializedError): Error {
+  const { name, message } = serialized;
+  const cause =
+    typeof serialized.cause === 'object' ? restoreImportError(serialized.cause) : serialized.cause;
+  switch (name) {
+    case 'UnsupportedFormatError':
+      return new UnsupportedFormatError(message, { cause, format: serialized.format });
+    case 'CorruptFileError':
+      return new CorruptFileError(message, { cause });
+    case 'EncryptedFileError':
+      return new EncryptedFileError(message, { cause });
+    case 'EncodingError':
+      return new EncodingError(message, { cause, encoding: serialized.encoding });
+    case 'WorkerUnavailableError':
+      return new WorkerUnavailableError(message, { cause });
+    default: {
+      const error = new Error(message);
+      error.name = name;
+      if (cause !== undefined) (error as { cause?: unknown }).cause = cause;
+      return error;
+    }
+  }
+}
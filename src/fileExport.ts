@@ -0,0 +1,1357 @@
+/**
+ * Univer 工作簿导出为 Excel (.xlsx) / CSV
+ *
+ * 与导入流程（importFile）相反：把 IWorkbookData 以及 importFile 单独返回的
+ * 条件格式、筛选器、排序、图片、图表写回 .xlsx，样式映射复用导入时的映射表。
+ *
+ * ExcelJS 不支持写入排序状态和图表，这两部分在 ExcelJS 生成文件后直接修改 xlsx 包。
+ */
+
+import type { IWorkbookData, IWorksheetData, ICellData } from '@univerjs/presets';
+import ExcelJS from 'exceljs';
+import { columnToLetters, formatA1Range, parseA1Reference } from './a1Reference';
+import { SheetNotFoundError } from './errors';
+import {
+  ImageType,
+  HORIZONTAL_ALIGNMENT_MAP,
+  VERTICAL_ALIGNMENT_MAP,
+  BORDER_STYLE_MAP,
+  isDateFormat,
+  parseDateString,
+  dateToExcelSerial,
+  type FileImportResult,
+  type ImportDiagnosticSeverity,
+  type ImportedChart,
+  type ImportedConditionalFormat,
+  type ImportedImage,
+  type ImportedSort,
+} from './fileImport';
+import { formatNumberWithPattern } from './numberFormat';
+import { DEFAULT_COLUMN_WIDTH, DEFAULT_ROW_HEIGHT } from './workbookHelpers';
+
+/**
+ * 导出时附带的额外数据（即 importFile 单独返回的部分）
+ */
+export type WorkbookExportExtras = Partial<
+  Pick<FileImportResult, 'conditionalFormats' | 'filters' | 'sorts' | 'images' | 'charts'>
+>;
+
+/**
+ * 导出诊断代码
+ * - MERGE_FAILED：合并单元格写入失败
+ * - CONDITIONAL_FORMAT_SKIPPED：条件格式无法转换为 Excel 规则，已跳过
+ * - CONDITIONAL_FORMAT_FAILED：条件格式写入失败
+ * - IMAGE_SKIPPED：图片不是 base64 或格式不支持（仅支持 png、jpeg、gif），已跳过
+ * - IMAGE_FAILED：图片写入失败
+ * - CHART_SKIPPED：图表缺少数据范围，已跳过
+ * - CHART_TYPE_FALLBACK：图表类型 Excel 无对应的基础类型，按柱状图导出
+ * - PACKAGE_FAILED：xlsx 包后处理失败，排序状态和图表未写入
+ */
+export type ExportDiagnosticCode =
+  | 'MERGE_FAILED'
+  | 'CONDITIONAL_FORMAT_SKIPPED'
+  | 'CONDITIONAL_FORMAT_FAILED'
+  | 'IMAGE_SKIPPED'
+  | 'IMAGE_FAILED'
+  | 'CHART_SKIPPED'
+  | 'CHART_TYPE_FALLBACK'
+  | 'PACKAGE_FAILED';
+
+/**
+ * 导出诊断信息（导出过程中跳过或降级的内容），结构与 ImportDiagnostic 相同
+ */
+export interface ExportDiagnostic {
+  /** 级别 */
+  severity: ImportDiagnosticSeverity;
+  /** 诊断代码 */
+  code: ExportDiagnosticCode;
+  /** 说明 */
+  message: string;
+  /** 所属工作表名称 */
+  sheetName?: string;
+  /** 所属工作表 ID（对应 IWorkbookData.sheets 的 key） */
+  sheetId?: string;
+  /** 单元格地址（A1 格式） */
+  cell?: string;
+  /** 范围（A1 格式） */
+  range?: string;
+}
+
+/**
+ * xlsx 导出结果
+ */
+export interface XlsxExportResult {
+  /** xlsx 文件内容 */
+  buffer: ArrayBuffer;
+  /** 导出诊断（跳过或降级的内容） */
+  diagnostics: ExportDiagnostic[];
+}
+
+/**
+ * 诊断信息所属的工作表
+ */
+interface ExportSheetLocation {
+  sheetName: string;
+  sheetId: string;
+}
+
+// 1 像素 = 9525 EMU
+const EMU_PER_PIXEL = 9525;
+// 导入时列宽换算系数（ExcelJS 列宽 * 7.5 = 像素）
+const COLUMN_WIDTH_RATIO = 7.5;
+
+const NS_RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_CHART = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const REL_TYPE_DRAWING = `${NS_RELATIONSHIPS}/drawing`;
+const REL_TYPE_CHART = `${NS_RELATIONSHIPS}/chart`;
+const CONTENT_TYPE_DRAWING = 'application/vnd.openxmlformats-officedocument.drawing+xml';
+const CONTENT_TYPE_CHART = 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml';
+
+/**
+ * 提取错误信息
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ========== 映射表反转 ==========
+
+function invertMap(map: Record<string, number>): Record<number, string> {
+  const result: Record<number, string> = {};
+  for (const [key, value] of Object.entries(map)) {
+    if (result[value] === undefined) {
+      result[value] = key;
+    }
+  }
+  return result;
+}
+
+const HORIZONTAL_ALIGNMENT_REVERSE = invertMap(HORIZONTAL_ALIGNMENT_MAP);
+const VERTICAL_ALIGNMENT_REVERSE = invertMap(VERTICAL_ALIGNMENT_MAP);
+const BORDER_STYLE_REVERSE = invertMap(BORDER_STYLE_MAP);
+
+// ========== 样式转换（convertCellStyle 的逆过程） ==========
+
+/**
+ * Univer 颜色（#RRGGBB）转 ExcelJS 颜色
+ */
+function toExcelColor(color: any): Partial<ExcelJS.Color> | undefined {
+  const rgb = typeof color === 'string' ? color : color?.rgb;
+  if (typeof rgb !== 'string') return undefined;
+  const hex = rgb.replace('#', '').trim();
+  if (/^[0-9a-f]{6}$/i.test(hex)) {
+    return { argb: `FF${hex.toUpperCase()}` };
+  }
+  if (/^[0-9a-f]{8}$/i.test(hex)) {
+    return { argb: hex.toUpperCase() };
+  }
+  return undefined;
+}
+
+function toExcelBorder(border: any): Partial<ExcelJS.Border> | undefined {
+  if (!border) return undefined;
+  const style = BORDER_STYLE_REVERSE[border.s] as ExcelJS.BorderStyle | undefined;
+  if (!style) return undefined;
+  const result: Partial<ExcelJS.Border> = { style };
+  const color = toExcelColor(border.cl);
+  if (color) result.color = color;
+  return result;
+}
+
+/**
+ * 将 Univer 样式对象转换为 ExcelJS 样式
+ */
+function toExcelStyle(style: any): Partial<ExcelJS.Style> | undefined {
+  if (!style || typeof style !== 'object') return undefined;
+
+  const result: Partial<ExcelJS.Style> = {};
+
+  // 字体样式
+  const font: Partial<ExcelJS.Font> = {};
+  if (style.bl) font.bold = true;
+  if (style.it) font.italic = true;
+  if (style.ul?.s) font.underline = true;
+  if (style.st?.s) font.strike = true;
+  if (style.fs) font.size = style.fs;
+  if (style.ff) font.name = style.ff;
+  const fontColor = toExcelColor(style.cl);
+  if (fontColor) font.color = fontColor;
+  if (Object.keys(font).length > 0) result.font = font;
+
+  // 背景颜色
+  const bgColor = toExcelColor(style.bg);
+  if (bgColor) {
+    result.fill = { type: 'pattern', pattern: 'solid', fgColor: bgColor };
+  }
+
+  // 对齐方式
+  const alignment: Partial<ExcelJS.Alignment> = {};
+  const horizontal = HORIZONTAL_ALIGNMENT_REVERSE[style.ht];
+  const vertical = VERTICAL_ALIGNMENT_REVERSE[style.vt];
+  if (horizontal) alignment.horizontal = horizontal as ExcelJS.Alignment['horizontal'];
+  if (vertical) alignment.vertical = vertical as ExcelJS.Alignment['vertical'];
+  if (style.tb === 3) alignment.wrapText = true;
+  if (Object.keys(alignment).length > 0) result.alignment = alignment;
+
+  // 边框
+  if (style.bd) {
+    const border: Partial<ExcelJS.Borders> = {};
+    const top = toExcelBorder(style.bd.t);
+    const bottom = toExcelBorder(style.bd.b);
+    const left = toExcelBorder(style.bd.l);
+    const right = toExcelBorder(style.bd.r);
+    if (top) border.top = top;
+    if (bottom) border.bottom = bottom;
+    if (left) border.left = left;
+    if (right) border.right = right;
+    if (Object.keys(border).length > 0) result.border = border;
+  }
+
+  // 数字格式
+  if (style.n?.pattern) {
+    result.numFmt = style.n.pattern;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * 获取单元格样式（支持样式 ID 和内联样式对象）
+ */
+function resolveStyle(workbookData: IWorkbookData, style: unknown): any {
+  if (!style) return undefined;
+  if (typeof style === 'string') {
+    return workbookData.styles?.[style] ?? undefined;
+  }
+  return style;
+}
+
+// ========== 单元格值转换 ==========
+
+/**
+ * 富文本（convertRichText 的逆过程）
+ */
+function toExcelRichText(p: any): ExcelJS.RichText[] | undefined {
+  const body = p?.body ?? p;
+  if (!body || typeof body.dataStream !== 'string') return undefined;
+
+  const text = body.dataStream.replace(/\r?\n$/, '').replace(/\r$/, '');
+  if (!text) return undefined;
+
+  const runs: any[] = Array.isArray(body.textRuns) ? body.textRuns : [];
+  const richText: ExcelJS.RichText[] = [];
+  let cursor = 0;
+  for (const run of [...runs].sort((a, b) => a.st - b.st)) {
+    const start = Math.max(run.st ?? 0, cursor);
+    const end = Math.min(run.ed ?? text.length, text.length);
+    if (start > cursor) {
+      richText.push({ text: text.slice(cursor, start) });
+    }
+    if (end > start) {
+      const font = toExcelStyle(run.ts)?.font;
+      richText.push(
+        font ? { text: text.slice(start, end), font } : { text: text.slice(start, end) },
+      );
+      cursor = end;
+    }
+  }
+  if (cursor < text.length) {
+    richText.push({ text: text.slice(cursor) });
+  }
+  return richText;
+}
+
+/**
+ * 计算单元格的普通值
+ * 导入时日期被格式化为字符串显示，如果样式是日期格式则尽量还原为日期序列号
+ */
+function toExcelPlainValue(cell: ICellData, numFmt: string | undefined): ExcelJS.CellValue {
+  const { v, t } = cell;
+  if (v === null || v === undefined) return null;
+
+  // 布尔
+  if (t === 3) {
+    return v === true || v === 1 || String(v).toUpperCase() === 'TRUE' || v === '1';
+  }
+  // 数字
+  if (t === 2 || typeof v === 'number') {
+    const num = typeof v === 'number' ? v : Number(v);
+    return Number.isFinite(num) ? num : String(v);
+  }
+  if (typeof v === 'boolean') return v;
+
+  const text = String(v);
+  // 错误值
+  if (/^#(NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A)$/.test(text)) {
+    return { error: text as ExcelJS.CellErrorValue['error'] };
+  }
+  if (numFmt && isDateFormat(numFmt)) {
+    const date = parseDateString(text);
+    if (date) return dateToExcelSerial(date);
+  }
+  return text;
+}
+
+/**
+ * 公式结果只能是数字、字符串、布尔或错误值
+ */
+function toFormulaResult(value: ExcelJS.CellValue): ExcelJS.CellFormulaValue['result'] {
+  if (
+    typeof value === 'number' ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  if (value && typeof value === 'object' && 'error' in value) {
+    return value as ExcelJS.CellErrorValue;
+  }
+  return undefined;
+}
+
+// ========== 工作表写入 ==========
+
+/**
+ * 写入单元格、行列、合并、冻结等工作表数据
+ */
+function writeWorksheet(
+  workbookData: IWorkbookData,
+  sheet: IWorksheetData,
+  worksheet: ExcelJS.Worksheet,
+  diagnostics: ExportDiagnostic[],
+  location: ExportSheetLocation,
+): void {
+  const cellData = (sheet.cellData || {}) as Record<string, Record<string, ICellData>>;
+
+  // 共享公式：si -> 主单元格（含公式文本的单元格）
+  const sharedMasters = new Map<string, { row: number; col: number; address: string }>();
+  for (const [rowKey, row] of Object.entries(cellData)) {
+    for (const [colKey, cell] of Object.entries(row || {})) {
+      if (cell?.si && cell.f && !sharedMasters.has(cell.si)) {
+        const rowIndex = Number(rowKey);
+        const colIndex = Number(colKey);
+        sharedMasters.set(cell.si, {
+          row: rowIndex,
+          col: colIndex,
+          address: `${columnToLetters(colIndex)}${rowIndex + 1}`,
+        });
+      }
+    }
+  }
+
+  const rowIndexes = Object.keys(cellData)
+    .map(Number)
+    .sort((a, b) => a - b);
+  for (const rowIndex of rowIndexes) {
+    const row = cellData[rowIndex] || {};
+    const colIndexes = Object.keys(row)
+      .map(Number)
+      .sort((a, b) => a - b);
+    for (const colIndex of colIndexes) {
+      const cell = row[colIndex];
+      if (!cell) continue;
+
+      const excelCell = worksheet.getCell(rowIndex + 1, colIndex + 1);
+      const style = toExcelStyle(resolveStyle(workbookData, cell.s));
+      const plainValue = toExcelPlainValue(cell, style?.numFmt);
+
+      if (cell.f) {
+        excelCell.value = {
+          formula: cell.f.replace(/^=/, ''),
+          result: toFormulaResult(plainValue),
+        };
+      } else if (cell.si && sharedMasters.has(cell.si)) {
+        const master = sharedMasters.get(cell.si)!;
+        // ExcelJS 要求主单元格位于副本单元格之前（上方或左侧）
+        if (master.row < rowIndex || (master.row === rowIndex && master.col < colIndex)) {
+          excelCell.value = {
+            sharedFormula: master.address,
+            result: toFormulaResult(plainValue),
+          };
+        } else {
+          excelCell.value = plainValue;
+        }
+      } else if (cell.p) {
+        const richText = toExcelRichText(cell.p);
+        excelCell.value = richText ? { richText } : plainValue;
+      } else if ((cell as any).link?.url) {
+        const link = (cell as any).link;
+        excelCell.value = {
+          text: String(link.text ?? cell.v ?? link.url),
+          hyperlink: link.url,
+        };
+      } else {
+        excelCell.value = plainValue;
+      }
+
+      if (style) {
+        excelCell.style = style;
+      }
+    }
+  }
+
+  // 行高和隐藏行
+  for (const [rowKey, info] of Object.entries((sheet.rowData || {}) as Record<string, any>)) {
+    if (!info) continue;
+    const row = worksheet.getRow(Number(rowKey) + 1);
+    if (typeof info.h === 'number' && info.h > 0 && info.h !== DEFAULT_ROW_HEIGHT) {
+      row.height = info.h;
+    }
+    if (info.hd === 1) {
+      row.hidden = true;
+    }
+  }
+
+  // 列宽和隐藏列
+  for (const [colKey, info] of Object.entries((sheet.columnData || {}) as Record<string, any>)) {
+    if (!info) continue;
+    const column = worksheet.getColumn(Number(colKey) + 1);
+    if (typeof info.w === 'number' && info.w > 0) {
+      column.width = info.w / COLUMN_WIDTH_RATIO;
+    }
+    if (info.hd === 1) {
+      column.hidden = true;
+    }
+  }
+
+  // 合并单元格
+  for (const merge of sheet.mergeData || []) {
+    try {
+      worksheet.mergeCellsWithoutStyle(
+        merge.startRow + 1,
+        merge.startColumn + 1,
+        merge.endRow + 1,
+        merge.endColumn + 1,
+      );
+    } catch (error) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'MERGE_FAILED',
+        ...location,
+        range: formatA1Range(merge),
+        message: `合并单元格失败: ${getErrorMessage(error)}`,
+      });
+    }
+  }
+
+  // 冻结窗格
+  const freeze = sheet.freeze as any;
+  if (freeze && (freeze.startRow > 0 || freeze.startColumn > 0)) {
+    worksheet.views = [
+      {
+        state: 'frozen',
+        xSplit: Math.max(freeze.startColumn, 0),
+        ySplit: Math.max(freeze.startRow, 0),
+      },
+    ];
+  }
+
+  // 标签颜色
+  const tabColor = toExcelColor(sheet.tabColor);
+  if (tabColor) {
+    worksheet.properties.tabColor = tabColor;
+  }
+}
+
+// ========== 条件格式（convertConditionalFormatRuleForFacade 的逆过程） ==========
+
+function toExcelCfvo(value: any, fallback: ExcelJS.CfvoTypes): ExcelJS.Cvfo {
+  const type = (value?.type || fallback) as ExcelJS.CfvoTypes;
+  const cfvo: ExcelJS.Cvfo = { type };
+  if (value?.value !== undefined && value?.value !== null && value.value !== '') {
+    cfvo.value = value.value;
+  }
+  return cfvo;
+}
+
+function toExcelConditionalRule(
+  cf: ImportedConditionalFormat,
+  index: number,
+): ExcelJS.ConditionalFormattingRule | null {
+  const config = cf.config || {};
+  const priority = cf.priority ?? config.priority ?? index + 1;
+
+  switch (cf.type) {
+    case 'dataBar':
+      return {
+        type: 'dataBar',
+        priority,
+        gradient: config.gradient !== false,
+        showValue: config.showValue !== false,
+        cfvo: [toExcelCfvo(config.minValue, 'min'), toExcelCfvo(config.maxValue, 'max')],
+        color: toExcelColor(config.positiveColor),
+      } as ExcelJS.DataBarRuleType;
+
+    case 'colorScale': {
+      const scale: any[] = Array.isArray(config.colorScale) ? config.colorScale : [];
+      if (scale.length < 2) return null;
+      return {
+        type: 'colorScale',
+        priority,
+        cfvo: scale.map((item, i) =>
+          toExcelCfvo(item.value, i === 0 ? 'min' : i === scale.length - 1 ? 'max' : 'percentile'),
+        ),
+        color: scale.map((item) => toExcelColor(item.color) || { argb: 'FFFFFFFF' }),
+      };
+    }
+
+    case 'iconSet': {
+      const icons: any[] = Array.isArray(config.icons) ? config.icons : [];
+      return {
+        type: 'iconSet',
+        priority,
+        iconSet: config.iconSet,
+        showValue: config.showValue !== false,
+        reverse: !!config.reverse,
+        cfvo: icons.map((icon) => ({
+          ...toExcelCfvo(icon, 'percent'),
+          ...(icon.operator === 'greaterThan' ? { gte: false } : {}),
+        })),
+      };
+    }
+
+    default:
+      // 其他规则在导入时保留了 ExcelJS 原始规则，直接写回
+      if (config.originalRule?.type) {
+        return { ...config.originalRule, priority };
+      }
+      return null;
+  }
+}
+
+function writeConditionalFormats(
+  worksheet: ExcelJS.Worksheet,
+  conditionalFormats: ImportedConditionalFormat[],
+  diagnostics: ExportDiagnostic[],
+  location: ExportSheetLocation,
+): void {
+  conditionalFormats.forEach((cf, index) => {
+    const range = cf.ranges?.join(' ');
+    try {
+      const rule = toExcelConditionalRule(cf, index);
+      if (!rule || !range) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CONDITIONAL_FORMAT_SKIPPED',
+          ...location,
+          range,
+          message: range
+            ? `条件格式（${cf.type}）无法转换为 Excel 规则，已跳过`
+            : '条件格式缺少范围，已跳过',
+        });
+        return;
+      }
+      worksheet.addConditionalFormatting({ ref: range, rules: [rule] });
+    } catch (error) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'CONDITIONAL_FORMAT_FAILED',
+        ...location,
+        range,
+        message: `写入条件格式失败: ${getErrorMessage(error)}`,
+      });
+    }
+  });
+}
+
+// ========== 图片 ==========
+
+function writeImages(
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  images: ImportedImage[],
+  diagnostics: ExportDiagnostic[],
+  location: ExportSheetLocation,
+): void {
+  for (const image of images) {
+    const cell = `${columnToLetters(image.position.column)}${image.position.row + 1}`;
+    try {
+      const match = image.source.match(/^data:image\/([a-z+]+);base64,/i);
+      if (!match) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'IMAGE_SKIPPED',
+          ...location,
+          cell,
+          message: `仅支持 base64 图片，已跳过: ${image.id}`,
+        });
+        continue;
+      }
+      const format = match[1].toLowerCase();
+      const extension = format === 'jpg' ? 'jpeg' : format;
+      if (extension !== 'png' && extension !== 'jpeg' && extension !== 'gif') {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'IMAGE_SKIPPED',
+          ...location,
+          cell,
+          message: `不支持的图片格式 ${format}，已跳过: ${image.id}`,
+        });
+        continue;
+      }
+
+      const imageId = workbook.addImage({ base64: image.source, extension });
+      const { position, size } = image;
+      worksheet.addImage(imageId, {
+        // 与导入时的换算一致：偏移量按默认行高列宽折算为小数行列
+        tl: {
+          col: position.column + position.columnOffset / DEFAULT_COLUMN_WIDTH,
+          row: position.row + position.rowOffset / DEFAULT_ROW_HEIGHT,
+        } as ExcelJS.Anchor,
+        ext: { width: size.width, height: size.height },
+        editAs: image.type === ImageType.CELL ? 'oneCell' : undefined,
+      });
+    } catch (error) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'IMAGE_FAILED',
+        ...location,
+        cell,
+        message: `写入图片失败: ${image.id}: ${getErrorMessage(error)}`,
+      });
+    }
+  }
+}
+
+// ========== xlsx 包后处理（排序、图表） ==========
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 带工作表名称的绝对引用，如 'Sheet1'!$A$1:$A$5
+ */
+function absoluteRef(
+  sheetName: string,
+  startRow: number,
+  startCol: number,
+  endRow: number,
+  endCol: number,
+): string {
+  const range = { startRow, endRow, startColumn: startCol, endColumn: endCol };
+  return formatA1Range(range, { absolute: true, sheetName });
+}
+
+/**
+ * 在 worksheet XML 中按 schema 顺序插入元素（插入到第一个后续元素之前）
+ * 只匹配 worksheet 的直接子元素（条件格式等内部也可能含有 extLst）
+ */
+function insertSheetElement(sheetXml: string, element: string, followingTags: string[]): string {
+  let insertAt = -1;
+  let depth = 0;
+  const tagRegex = /<(\/?)([A-Za-z_][\w:.-]*)[^>]*?(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(sheetXml)) !== null) {
+    const [, closing, name, selfClosing] = match;
+    if (closing) {
+      depth--;
+      continue;
+    }
+    if (depth === 1 && followingTags.includes(name)) {
+      insertAt = match.index;
+      break;
+    }
+    if (!selfClosing) depth++;
+  }
+  if (insertAt === -1) {
+    insertAt = sheetXml.lastIndexOf('</worksheet>');
+  }
+  return sheetXml.slice(0, insertAt) + element + sheetXml.slice(insertAt);
+}
+
+// worksheet 中 sortState 之后的元素
+const ELEMENTS_AFTER_SORT_STATE = [
+  'dataConsolidate',
+  'customSheetViews',
+  'mergeCells',
+  'phoneticPr',
+  'conditionalFormatting',
+  'dataValidations',
+  'hyperlinks',
+  'printOptions',
+  'pageMargins',
+  'pageSetup',
+  'headerFooter',
+  'rowBreaks',
+  'colBreaks',
+  'drawing',
+  'legacyDrawing',
+  'tableParts',
+  'extLst',
+];
+
+// worksheet 中 drawing 之后的元素
+const ELEMENTS_AFTER_DRAWING = [
+  'legacyDrawing',
+  'legacyDrawingHF',
+  'drawingHF',
+  'picture',
+  'oleObjects',
+  'controls',
+  'webPublishItems',
+  'tableParts',
+  'extLst',
+];
+
+function buildSortState(sort: ImportedSort): string | null {
+  const range = parseA1Reference(sort.range);
+  if (!range || sort.conditions.length === 0) return null;
+
+  // 按颜色、图标排序需要差异格式（dxf），导出为按值排序
+  const conditions = sort.conditions
+    .map((condition) => {
+      const row = range.startRow + condition.column;
+      const column = range.startColumn + condition.column;
+      const ref = formatA1Range(
+        sort.columnSort
+          ? { ...range, startRow: row, endRow: row }
+          : { ...range, startColumn: column, endColumn: column },
+      );
+      const descending = condition.ascending ? '' : ' descending="1"';
+      const customList = condition.customList?.length
+        ? ` customList="${escapeXml(condition.customList.join(','))}"`
+        : '';
+      return `<sortCondition${descending} ref="${ref}"${customList}/>`;
+    })
+    .join('');
+  const attrs =
+    (sort.columnSort ? ' columnSort="1"' : '') +
+    (sort.caseSensitive ? ' caseSensitive="1"' : '') +
+    (sort.sortMethod ? ` sortMethod="${escapeXml(sort.sortMethod)}"` : '');
+  return `<sortState${attrs} ref="${escapeXml(sort.range)}">${conditions}</sortState>`;
+}
+
+/**
+ * 根据单元格数据判断数据区域第一列是否为分类列
+ */
+function hasCategoryColumn(
+  sheet: Partial<IWorksheetData> | undefined,
+  range: { startRow: number; endRow: number; startColumn: number; endColumn: number },
+): boolean {
+  if (range.endColumn <= range.startColumn) return false;
+  const cellData = (sheet?.cellData || {}) as Record<string, Record<string, ICellData>>;
+  for (let row = range.startRow + 1; row <= range.endRow; row++) {
+    const cell = cellData[row]?.[range.startColumn];
+    if (cell && cell.v !== undefined && cell.v !== null && cell.v !== '') {
+      return cell.t !== 2 && typeof cell.v !== 'number';
+    }
+  }
+  return true;
+}
+
+/**
+ * 生成图表 XML（chartSpace）
+ * 数据区域按 Univer 默认方式解读：首行为系列名，首列（非数字时）为分类
+ */
+function buildChartXml(
+  chart: ImportedChart,
+  dataSheetName: string,
+  dataSheet: Partial<IWorksheetData> | undefined,
+  diagnostics: ExportDiagnostic[],
+  location: ExportSheetLocation,
+): string | null {
+  const range = chart.dataRange ? parseA1Reference(chart.dataRange) : null;
+  if (!range) return null;
+
+  const withCategory = hasCategoryColumn(dataSheet, range);
+  const withHeader = range.endRow > range.startRow;
+  const firstDataRow = withHeader ? range.startRow + 1 : range.startRow;
+  const firstSeriesCol = withCategory ? range.startColumn + 1 : range.startColumn;
+  const chartType = chart.chartType;
+  const isScatter = chartType === 'scatter' || chartType === 'bubble';
+
+  const series: string[] = [];
+  for (let col = firstSeriesCol; col <= range.endColumn; col++) {
+    const index = col - firstSeriesCol;
+    const tx = withHeader
+      ? `<c:tx><c:strRef><c:f>${escapeXml(absoluteRef(dataSheetName, range.startRow, col, range.startRow, col))}</c:f></c:strRef></c:tx>`
+      : '';
+    const categoryRef = withCategory
+      ? escapeXml(
+          absoluteRef(
+            dataSheetName,
+            firstDataRow,
+            range.startColumn,
+            range.endRow,
+            range.startColumn,
+          ),
+        )
+      : '';
+    const valueRef = escapeXml(absoluteRef(dataSheetName, firstDataRow, col, range.endRow, col));
+    if (isScatter) {
+      series.push(
+        `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${tx}` +
+          (categoryRef ? `<c:xVal><c:numRef><c:f>${categoryRef}</c:f></c:numRef></c:xVal>` : '') +
+          `<c:yVal><c:numRef><c:f>${valueRef}</c:f></c:numRef></c:yVal><c:smooth val="0"/></c:ser>`,
+      );
+    } else {
+      series.push(
+        `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${tx}` +
+          (categoryRef ? `<c:cat><c:strRef><c:f>${categoryRef}</c:f></c:strRef></c:cat>` : '') +
+          `<c:val><c:numRef><c:f>${valueRef}</c:f></c:numRef></c:val></c:ser>`,
+      );
+    }
+  }
+  if (series.length === 0) return null;
+
+  const axisIds = '<c:axId val="500000001"/><c:axId val="500000002"/>';
+  const axis = (tag: string, id: number, crossId: number, position: string, gridlines = false) =>
+    `<c:${tag}><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling>` +
+    `<c:delete val="0"/><c:axPos val="${position}"/>${gridlines ? '<c:majorGridlines/>' : ''}` +
+    `<c:crossAx val="${crossId}"/></c:${tag}>`;
+  const categoryAxes = (horizontal: boolean) =>
+    axis('catAx', 500000001, 500000002, horizontal ? 'l' : 'b') +
+    axis('valAx', 500000002, 500000001, horizontal ? 'b' : 'l', true);
+
+  let plot: string;
+  switch (chartType) {
+    case 'bar':
+    case 'stackedBar':
+    case 'percentStackedBar':
+    case 'column': {
+      const horizontal = chartType !== 'column';
+      const grouping =
+        chartType === 'stackedBar'
+          ? 'stacked'
+          : chartType === 'percentStackedBar'
+            ? 'percentStacked'
+            : 'clustered';
+      plot =
+        `<c:barChart><c:barDir val="${horizontal ? 'bar' : 'col'}"/><c:grouping val="${grouping}"/>` +
+        `<c:varyColors val="0"/>${series.join('')}` +
+        `${grouping === 'clustered' ? '' : '<c:overlap val="100"/>'}${axisIds}</c:barChart>` +
+        categoryAxes(horizontal);
+      break;
+    }
+    case 'line':
+      plot =
+        `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series.join('')}` +
+        `<c:marker val="1"/>${axisIds}</c:lineChart>` +
+        categoryAxes(false);
+      break;
+    case 'area':
+    case 'stackedArea':
+    case 'percentStackedArea': {
+      const grouping =
+        chartType === 'stackedArea'
+          ? 'stacked'
+          : chartType === 'percentStackedArea'
+            ? 'percentStacked'
+            : 'standard';
+      plot =
+        `<c:areaChart><c:grouping val="${grouping}"/><c:varyColors val="0"/>${series.join('')}` +
+        `${axisIds}</c:areaChart>` +
+        categoryAxes(false);
+      break;
+    }
+    case 'pie':
+      plot = `<c:pieChart><c:varyColors val="1"/>${series.join('')}<c:firstSliceAng val="0"/></c:pieChart>`;
+      break;
+    case 'doughnut':
+      plot =
+        `<c:doughnutChart><c:varyColors val="1"/>${series.join('')}` +
+        `<c:firstSliceAng val="0"/><c:holeSize val="50"/></c:doughnutChart>`;
+      break;
+    case 'scatter':
+    case 'bubble':
+      plot =
+        `<c:scatterChart><c:scatterStyle val="lineMarker"/><c:varyColors val="0"/>${series.join('')}` +
+        `${axisIds}</c:scatterChart>` +
+        axis('valAx', 500000001, 500000002, 'b') +
+        axis('valAx', 500000002, 500000001, 'l', true);
+      break;
+    case 'radar':
+      plot =
+        `<c:radarChart><c:radarStyle val="marker"/><c:varyColors val="0"/>${series.join('')}` +
+        `${axisIds}</c:radarChart>` +
+        categoryAxes(false);
+      break;
+    default:
+      // 其他图表类型 Excel 无对应的基础类型，按柱状图写出
+      diagnostics.push({
+        severity: 'warning',
+        code: 'CHART_TYPE_FALLBACK',
+        ...location,
+        message: `图表类型 ${chartType} 按柱状图导出: ${chart.chartId}`,
+      });
+      plot =
+        `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>` +
+        `${series.join('')}${axisIds}</c:barChart>` +
+        categoryAxes(false);
+      break;
+  }
+
+  const title = chart.title
+    ? `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${escapeXml(chart.title)}</a:t></a:r></a:p></c:rich></c:tx>` +
+      `<c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>`
+    : '<c:autoTitleDeleted val="1"/>';
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<c:chartSpace xmlns:c="${NS_CHART}" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="${NS_RELATIONSHIPS}">` +
+    `<c:roundedCorners val="0"/><c:chart>${title}<c:plotArea><c:layout/>${plot}</c:plotArea>` +
+    '<c:legend><c:legendPos val="r"/><c:overlay val="0"/></c:legend><c:plotVisOnly val="1"/>' +
+    '</c:chart></c:chartSpace>'
+  );
+}
+
+function buildChartAnchor(chart: ImportedChart, relId: string, shapeId: number): string {
+  const { position, size } = chart;
+  return (
+    '<xdr:oneCellAnchor>' +
+    `<xdr:from><xdr:col>${position.column}</xdr:col><xdr:colOff>${Math.round(position.columnOffset * EMU_PER_PIXEL)}</xdr:colOff>` +
+    `<xdr:row>${position.row}</xdr:row><xdr:rowOff>${Math.round(position.rowOffset * EMU_PER_PIXEL)}</xdr:rowOff></xdr:from>` +
+    `<xdr:ext cx="${Math.round(size.width * EMU_PER_PIXEL)}" cy="${Math.round(size.height * EMU_PER_PIXEL)}"/>` +
+    '<xdr:graphicFrame macro="">' +
+    `<xdr:nvGraphicFramePr><xdr:cNvPr id="${shapeId}" name="${escapeXml(chart.title || `Chart ${shapeId}`)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+    '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>' +
+    `<a:graphic><a:graphicData uri="${NS_CHART}">` +
+    `<c:chart xmlns:c="${NS_CHART}" xmlns:r="${NS_RELATIONSHIPS}" r:id="${relId}"/>` +
+    '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:oneCellAnchor>'
+  );
+}
+
+/**
+ * 向关系文件追加一条关系，返回新关系 ID
+ */
+function appendRelationship(
+  relsXml: string,
+  type: string,
+  target: string,
+): { xml: string; id: string } {
+  const ids = Array.from(relsXml.matchAll(/Id="rId(\d+)"/g)).map((m) => parseInt(m[1], 10));
+  const id = `rId${(ids.length > 0 ? Math.max(...ids) : 0) + 1}`;
+  const relationship = `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`;
+  return { xml: relsXml.replace('</Relationships>', `${relationship}</Relationships>`), id };
+}
+
+function emptyRelationships(): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>'
+  );
+}
+
+function nextPartIndex(fileNames: string[], pattern: RegExp): number {
+  let max = 0;
+  for (const name of fileNames) {
+    const match = name.match(pattern);
+    if (match) max = Math.max(max, parseInt(match[1], 10));
+  }
+  return max + 1;
+}
+
+interface ExportedSheetPart {
+  sheetKey: string;
+  /** ExcelJS 工作表 ID（对应 xl/worksheets/sheet{id}.xml） */
+  worksheetId: number;
+}
+
+/**
+ * 在 ExcelJS 生成的 xlsx 包中补充排序状态和图表
+ */
+async function writePackageExtras(
+  buffer: ArrayBuffer,
+  workbookData: IWorkbookData,
+  sheetParts: ExportedSheetPart[],
+  sorts: Record<string, ImportedSort>,
+  charts: Record<string, ImportedChart[]>,
+  diagnostics: ExportDiagnostic[],
+): Promise<ArrayBuffer> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(buffer);
+
+  const contentTypesFile = zip.file('[Content_Types].xml');
+  let contentTypes = contentTypesFile ? await contentTypesFile.async('string') : '';
+  const addOverride = (partName: string, contentType: string) => {
+    if (contentTypes.includes(`PartName="${partName}"`)) return;
+    contentTypes = contentTypes.replace(
+      '</Types>',
+      `<Override PartName="${partName}" ContentType="${contentType}"/></Types>`,
+    );
+  };
+
+  for (const { sheetKey, worksheetId } of sheetParts) {
+    const sheetPath = `xl/worksheets/sheet${worksheetId}.xml`;
+    const sheetFile = zip.file(sheetPath);
+    if (!sheetFile) continue;
+    let sheetXml = await sheetFile.async('string');
+    const sheetName = workbookData.sheets[sheetKey]?.name || '';
+    const location = { sheetName, sheetId: sheetKey };
+
+    // 排序状态
+    const sort = sorts[sheetKey];
+    if (sort) {
+      const sortState = buildSortState(sort);
+      if (sortState) {
+        sheetXml = insertSheetElement(sheetXml, sortState, ELEMENTS_AFTER_SORT_STATE);
+      }
+    }
+
+    // 图表
+    const sheetCharts = charts[sheetKey] || [];
+    const anchors: Array<{ chart: ImportedChart; chartPath: string }> = [];
+    for (const chart of sheetCharts) {
+      const dataSheetName = chart.dataSheetName || sheetName;
+      const dataSheet = Object.values(workbookData.sheets).find((s) => s?.name === dataSheetName);
+      const chartXml = buildChartXml(chart, dataSheetName, dataSheet, diagnostics, location);
+      if (!chartXml) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_SKIPPED',
+          ...location,
+          message: `图表缺少数据范围，已跳过: ${chart.chartId}`,
+        });
+        continue;
+      }
+      const chartIndex = nextPartIndex(Object.keys(zip.files), /^xl\/charts\/chart(\d+)\.xml$/);
+      const chartPath = `xl/charts/chart${chartIndex}.xml`;
+      zip.file(chartPath, chartXml);
+      addOverride(`/${chartPath}`, CONTENT_TYPE_CHART);
+      anchors.push({ chart, chartPath });
+    }
+
+    if (anchors.length > 0) {
+      const sheetRelsPath = `xl/worksheets/_rels/sheet${worksheetId}.xml.rels`;
+      const sheetRelsFile = zip.file(sheetRelsPath);
+      let sheetRels = sheetRelsFile ? await sheetRelsFile.async('string') : emptyRelationships();
+
+      // 复用已有的 drawing（工作表中有图片时 ExcelJS 已生成），否则新建
+      const drawingRelMatch = sheetRels.match(
+        new RegExp(`<Relationship[^>]*Type="${REL_TYPE_DRAWING}"[^>]*Target="([^"]+)"`),
+      );
+      let drawingPath: string;
+      let drawingXml: string;
+      if (drawingRelMatch) {
+        drawingPath = `xl/${drawingRelMatch[1].replace(/^\.\.\//, '')}`;
+        drawingXml = (await zip.file(drawingPath)?.async('string')) || '';
+      } else {
+        const drawingIndex = nextPartIndex(
+          Object.keys(zip.files),
+          /^xl\/drawings\/drawing(\d+)\.xml$/,
+        );
+        drawingPath = `xl/drawings/drawing${drawingIndex}.xml`;
+        drawingXml =
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+          '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ' +
+          'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"></xdr:wsDr>';
+        addOverride(`/${drawingPath}`, CONTENT_TYPE_DRAWING);
+        const rel = appendRelationship(sheetRels, REL_TYPE_DRAWING, `../${drawingPath.slice(3)}`);
+        sheetRels = rel.xml;
+        sheetXml = insertSheetElement(
+          sheetXml,
+          `<drawing xmlns:r="${NS_RELATIONSHIPS}" r:id="${rel.id}"/>`,
+          ELEMENTS_AFTER_DRAWING,
+        );
+        zip.file(sheetRelsPath, sheetRels);
+      }
+
+      const drawingFileName = drawingPath.split('/').pop();
+      const drawingRelsPath = `xl/drawings/_rels/${drawingFileName}.rels`;
+      let drawingRels = (await zip.file(drawingRelsPath)?.async('string')) || emptyRelationships();
+      let shapeId = Array.from(drawingXml.matchAll(/<xdr:cNvPr[^>]*id="(\d+)"/g)).reduce(
+        (max, m) => Math.max(max, parseInt(m[1], 10)),
+        0,
+      );
+      const anchorXml: string[] = [];
+      for (const { chart, chartPath } of anchors) {
+        const rel = appendRelationship(drawingRels, REL_TYPE_CHART, `../${chartPath.slice(3)}`);
+        drawingRels = rel.xml;
+        anchorXml.push(buildChartAnchor(chart, rel.id, ++shapeId));
+      }
+      drawingXml = drawingXml.replace('</xdr:wsDr>', `${anchorXml.join('')}</xdr:wsDr>`);
+      zip.file(drawingPath, drawingXml);
+      zip.file(drawingRelsPath, drawingRels);
+    }
+
+    zip.file(sheetPath, sheetXml);
+  }
+
+  zip.file('[Content_Types].xml', contentTypes);
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
+
+// ========== CSV 导出 ==========
+
+/**
+ * CSV 导出选项
+ */
+export interface CsvExportOptions {
+  /** 分隔符，默认 ","（TSV 使用 "\t"） */
+  delimiter?: string;
+  /**
+   * 引号策略，默认 'minimal'
+   * - minimal：仅在包含分隔符、引号、换行或首尾空白时加引号
+   * - all：所有字段都加引号
+   * - nonNumeric：非数字字段加引号
+   * - none：不加引号（字段中的引号原样输出）
+   */
+  quote?: 'minimal' | 'all' | 'nonNumeric' | 'none';
+  /** 引号字符，默认 '"'，字段中的引号字符会被双写转义 */
+  quoteChar?: string;
+  /** 是否写入 BOM，默认 true（Excel 依赖 BOM 识别 UTF-8 中文） */
+  bom?: boolean;
+  /** 编码，默认 'utf-8' */
+  encoding?: 'utf-8' | 'utf-16le';
+  /** 换行符，默认 'crlf'（RFC 4180） */
+  lineEnding?: 'crlf' | 'lf';
+  /**
+   * 值模式，默认 'display'
+   * - display：按数字格式渲染后的显示文本（日期、百分比、千分位等）
+   * - raw：单元格原始值 v
+   */
+  valueMode?: 'display' | 'raw';
+}
+
+/**
+ * 计算单元格显示文本
+ */
+function getCellDisplayText(workbookData: IWorkbookData, cell: ICellData): string {
+  const { v } = cell;
+  if (v === null || v === undefined || v === '') {
+    return getRichTextPlain(cell);
+  }
+  if (typeof v === 'boolean' || cell.t === 3) {
+    return v === true || v === 1 || String(v).toUpperCase() === 'TRUE' ? 'TRUE' : 'FALSE';
+  }
+
+  const pattern: string | undefined = resolveStyle(workbookData, cell.s)?.n?.pattern;
+  const num = typeof v === 'number' ? v : cell.t === 2 ? Number(v) : NaN;
+  if (!pattern || pattern === 'General' || !Number.isFinite(num)) {
+    return String(v);
+  }
+
+  return formatNumberWithPattern(num, pattern);
+}
+
+/**
+ * 富文本单元格（只有 p 没有 v）的纯文本
+ */
+function getRichTextPlain(cell: ICellData): string {
+  const body = (cell.p as any)?.body ?? cell.p;
+  return typeof body?.dataStream === 'string' ? body.dataStream.replace(/\r?\n$/, '') : '';
+}
+
+function getCellRawText(cell: ICellData): string {
+  const { v } = cell;
+  if (v === null || v === undefined || v === '') return getRichTextPlain(cell);
+  if (typeof v === 'boolean') return v ? 'TRUE' : 'FALSE';
+  return String(v);
+}
+
+function quoteCsvField(
+  text: string,
+  isNumeric: boolean,
+  delimiter: string,
+  quote: NonNullable<CsvExportOptions['quote']>,
+  quoteChar: string,
+): string {
+  if (quote === 'none') return text;
+  const needsQuote =
+    quote === 'all' ||
+    (quote === 'nonNumeric' && !isNumeric) ||
+    text.includes(delimiter) ||
+    text.includes(quoteChar) ||
+    /[\r\n]/.test(text) ||
+    /^\s|\s$/.test(text);
+  if (!needsQuote) return text;
+  return `${quoteChar}${text.split(quoteChar).join(quoteChar + quoteChar)}${quoteChar}`;
+}
+
+function encodeText(text: string, encoding: 'utf-8' | 'utf-16le', bom: boolean): ArrayBuffer {
+  if (encoding === 'utf-16le') {
+    const offset = bom ? 2 : 0;
+    const bytes = new Uint8Array(offset + text.length * 2);
+    if (bom) {
+      bytes[0] = 0xff;
+      bytes[1] = 0xfe;
+    }
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      bytes[offset + i * 2] = code & 0xff;
+      bytes[offset + i * 2 + 1] = code >> 8;
+    }
+    return bytes.buffer;
+  }
+
+  const encoded = new TextEncoder().encode(text);
+  if (!bom) return encoded.slice().buffer;
+  const bytes = new Uint8Array(encoded.length + 3);
+  bytes.set([0xef, 0xbb, 0xbf]);
+  bytes.set(encoded, 3);
+  return bytes.buffer;
+}
+
+// ========== 对外接口 ==========
+
+/**
+ * 将 Univer 工作簿数据导出为 .xlsx
+ *
+ * @example
+ * ```ts
+ * const result = await importFile(file);
+ * const { buffer, diagnostics } = await exportWorkbookToXlsx(result.workbookData, result);
+ * const blob = new Blob([buffer], {
+ *   type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+ * });
+ * ```
+ *
+ * @param workbookData Univer 工作簿数据
+ * @param extras importFile 单独返回的条件格式、筛选器、排序、图片、图表（按 sheetId 分组）
+ * @returns xlsx 文件内容及导出诊断
+ */
+export async function exportWorkbookToXlsx(
+  workbookData: IWorkbookData,
+  extras: WorkbookExportExtras = {},
+): Promise<XlsxExportResult> {
+  const { conditionalFormats = {}, filters = {}, sorts = {}, images = [], charts = {} } = extras;
+
+  const diagnostics: ExportDiagnostic[] = [];
+  const workbook = new ExcelJS.Workbook();
+  const sheetParts: ExportedSheetPart[] = [];
+  const sheetOrder =
+    workbookData.sheetOrder && workbookData.sheetOrder.length > 0
+      ? workbookData.sheetOrder
+      : Object.keys(workbookData.sheets || {});
+
+  for (const sheetKey of sheetOrder) {
+    const sheet = workbookData.sheets?.[sheetKey];
+    if (!sheet) continue;
+
+    const worksheet = workbook.addWorksheet(sheet.name || `Sheet${sheetParts.length + 1}`, {
+      state: sheet.hidden === 1 ? 'hidden' : 'visible',
+    });
+    sheetParts.push({ sheetKey, worksheetId: worksheet.id });
+    const location = { sheetName: worksheet.name, sheetId: sheetKey };
+
+    writeWorksheet(workbookData, sheet as IWorksheetData, worksheet, diagnostics, location);
+
+    if (conditionalFormats[sheetKey]?.length) {
+      writeConditionalFormats(worksheet, conditionalFormats[sheetKey], diagnostics, location);
+    }
+
+    if (filters[sheetKey]?.range) {
+      worksheet.autoFilter = filters[sheetKey].range;
+    }
+
+    const sheetImages = images.filter((image) => image.sheetId === sheetKey);
+    if (sheetImages.length > 0) {
+      writeImages(workbook, worksheet, sheetImages, diagnostics, location);
+    }
+  }
+
+  if (sheetParts.length === 0) {
+    workbook.addWorksheet('Sheet1');
+  }
+
+  // writeBuffer 在 Node 中返回 Buffer，统一复制为独立的 ArrayBuffer
+  const output = await workbook.xlsx.writeBuffer();
+  const buffer = new Uint8Array(output as unknown as ArrayLike<number>).slice().buffer;
+
+  const hasPackageExtras =
+    sheetParts.some(({ sheetKey }) => sorts[sheetKey]) ||
+    sheetParts.some(({ sheetKey }) => charts[sheetKey]?.length);
+  if (!hasPackageExtras) {
+    return { buffer, diagnostics };
+  }
+
+  // 后处理失败时丢弃其中记录的诊断，只保留失败原因
+  const packageDiagnostics: ExportDiagnostic[] = [];
+  try {
+    const output = await writePackageExtras(
+      buffer,
+      workbookData,
+      sheetParts,
+      sorts,
+      charts,
+      packageDiagnostics,
+    );
+    diagnostics.push(...packageDiagnostics);
+    return { buffer: output, diagnostics };
+  } catch (error) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'PACKAGE_FAILED',
+      message: `写入排序状态和图表失败，已忽略: ${getErrorMessage(error)}`,
+    });
+    return { buffer, diagnostics };
+  }
+}
+
+/**
+ * 将指定工作表导出为 CSV/TSV
+ *
+ * @example
+ * ```ts
+ * const buffer = exportSheetToCsv(workbookData, sheetId, { delimiter: '\t' });
+ * const blob = new Blob([buffer], { type: 'text/tab-separated-values' });
+ * ```
+ *
+ * @param workbookData Univer 工作簿数据
+ * @param sheetId 工作表 ID（IWorkbookData.sheets 的 key）
+ * @param options 导出选项
+ * @returns 编码后的文件内容
+ */
+export function exportSheetToCsv(
+  workbookData: IWorkbookData,
+  sheetId: string,
+  options: CsvExportOptions = {},
+): ArrayBuffer {
+  const {
+    delimiter = ',',
+    quote = 'minimal',
+    quoteChar = '"',
+    bom = true,
+    encoding = 'utf-8',
+    lineEnding = 'crlf',
+    valueMode = 'display',
+  } = options;
+
+  const sheet = workbookData.sheets?.[sheetId];
+  if (!sheet) {
+    throw new SheetNotFoundError(sheetId);
+  }
+
+  const cellData = (sheet.cellData || {}) as Record<string, Record<string, ICellData>>;
+
+  // 计算实际使用的区域（从 A1 开始，保持与 importCsv 的行列对应）
+  let maxRow = -1;
+  let maxCol = -1;
+  for (const [rowKey, row] of Object.entries(cellData)) {
+    for (const [colKey, cell] of Object.entries(row || {})) {
+      if (!cell) continue;
+      const text =
+        valueMode === 'raw' ? getCellRawText(cell) : getCellDisplayText(workbookData, cell);
+      if (text === '') continue;
+      maxRow = Math.max(maxRow, Number(rowKey));
+      maxCol = Math.max(maxCol, Number(colKey));
+    }
+  }
+
+  const lines: string[] = [];
+  for (let row = 0; row <= maxRow; row++) {
+    const fields: string[] = [];
+    for (let col = 0; col <= maxCol; col++) {
+      const cell = cellData[row]?.[col];
+      if (!cell) {
+        fields.push(quote === 'all' ? `${quoteChar}${quoteChar}` : '');
+        continue;
+      }
+      const text =
+        valueMode === 'raw' ? getCellRawText(cell) : getCellDisplayText(workbookData, cell);
+      const isNumeric = typeof cell.v === 'number' || cell.t === 2;
+      fields.push(quoteCsvField(text, isNumeric, delimiter, quote, quoteChar));
+    }
+    lines.push(fields.join(delimiter));
+  }
+
+  const newline = lineEnding === 'lf' ? '\n' : '\r\n';
+  const content = lines.length > 0 ? lines.join(newline) + newline : '';
+  return encodeText(content, encoding, bom);
+}
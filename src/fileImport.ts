@@ -5,7 +5,7 @@
  * Excel/CSV 文件导入工具 oumingliang 20226.1.30
  *
  * 功能特性：
- * ✅ Excel 文件 (.xlsx, .xls)
+ * ✅ Excel 文件 (.xlsx, .xls)，.xls (Excel 97-2003) 使用内置 BIFF8 解析器读取
  * ✅ CSV 文件 (.csv)
  * ✅ 保留所有工作表（包括空表）
  * ✅ 处理工作表名称中的特殊字符（>>>等）
@@ -22,10 +22,17 @@
  * ✅ 排序支持
  * ✅ 图表导入支持（柱状图、折线图、饼图等常见图表类型）
  * ✅ 透视表导入支持
+ * ✅ 表格（样式、筛选按钮、结构化引用）
  *
  */
 
-import { LocaleType } from '@univerjs/core';
+import {
+  DataValidationErrorStyle,
+  DataValidationOperator,
+  DataValidationType,
+  LocaleType,
+  type IDataValidationRule,
+} from '@univerjs/core';
 import type { IWorkbookData, IWorksheetData, ICellData } from '@univerjs/presets';
 import ExcelJS from 'exceljs';
 import { nanoid } from 'nanoid';
@@ -38,6 +45,43 @@ import {
   DEFAULT_COLUMN_WIDTH,
   DEFAULT_ROW_HEIGHT,
 } from './workbookHelpers';
+import { isCfb } from './cfbReader';
+import {
+  getFormatFromFileName,
+  sniffFileFormat,
+  sniffMarkupFormat,
+  type ImportFileFormat,
+} from './formatSniffer';
+import { BUILTIN_NUM_FORMATS, loadXlsWorkbook, XLS_DEFAULT_PALETTE } from './xlsReader';
+import {
+  decodeXmlEntities,
+  getRelIdAttrName,
+  getXmlAttr,
+  isRelType,
+  isXmlTrue,
+  loadXlsxPackage,
+  type XlsxDefinedName,
+  type XlsxPackage,
+} from './xlsxPackage';
+import { rewriteStructuredReferences, type StructuredReferenceTable } from './structuredReference';
+import { DEFAULT_THEME, parseThemeXml, resolveThemeFont, type WorkbookTheme } from './officeTheme';
+import {
+  clipA1Range,
+  columnToLetters,
+  formatA1Range,
+  parseA1Reference,
+  parseA1References,
+  quoteSheetName,
+  type A1Range,
+} from './a1Reference';
+import { isWorkerSupported, runImportInWorker, type ImportWorkerOption } from './importInWorker';
+import {
+  CorruptFileError,
+  EncodingError,
+  ImportAbortedError,
+  ImportError,
+  UnsupportedFormatError,
+} from './errors';
 
 // 版本号（构建时注入）
 declare const UNIVER_VERSION: string;
@@ -53,6 +97,41 @@ function getUniverVersion(): string {
   }
 }
 
+// 每处理多少行报告一次进度并检查取消
+const PROGRESS_ROW_CHUNK = 1000;
+
+/**
+ * 导入过程中的进度回调、取消信号和输出选项
+ */
+interface ImportContext {
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
+  /** 条件格式写入 workbookData.resources */
+  conditionalFormatsAsResource?: boolean;
+}
+
+/**
+ * 取消信号已触发时抛出 ImportAbortedError
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ImportAbortedError(signal.reason);
+  }
+}
+
+/**
+ * 提取错误信息
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 让出线程（宏任务），使 abort() 等事件有机会执行
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
 
 /**
  * 图片类型枚举
@@ -109,6 +188,103 @@ export interface ImportedImage {
   description?: string;
 }
 
+/**
+ * 诊断级别
+ */
+export type ImportDiagnosticSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * 诊断代码
+ * - LARGE_FILE：文件较大，导入可能较慢
+ * - INVALID_NUMBER：单元格数值无效（NaN/Infinity），已回退为原始值
+ * - CELL_IMAGE_SKIPPED：无法提取单元格内嵌图片（DISPIMG），单元格已跳过
+ * - IMAGE_FAILED：浮动图片解析失败
+ * - CONDITIONAL_FORMAT_FAILED：条件格式解析失败
+ * - FILTER_FAILED：筛选器解析失败
+ * - FILTER_CRITERIA_UNSUPPORTED：筛选条件 Univer 不支持（前 10 项、动态筛选、按颜色等），仅保留隐藏行
+ * - CHART_SKIPPED / CHART_FAILED：图表被跳过 / 解析失败
+ * - PIVOT_SKIPPED / PIVOT_FAILED：透视表被跳过 / 解析失败
+ * - PIVOT_SETTING_UNSUPPORTED：透视表设置 Univer 不支持（值显示方式、布局、总计等），添加时忽略
+ * - SORT_FAILED：排序解析失败
+ * - DATA_VALIDATION_SKIPPED / DATA_VALIDATION_FAILED：数据验证被跳过 / 解析失败
+ * - DEFINED_NAME_SKIPPED：定义名称无法在 Univer 中使用，已跳过
+ * - TABLE_FAILED：表格解析失败
+ * - TABLE_STYLE_SKIPPED：自定义表格样式暂不支持，未写入单元格样式
+ * - TABLE_FILTER_SKIPPED：工作表已有筛选器，表格的筛选按钮未导入
+ * - STRUCTURED_REFERENCE_UNRESOLVED：结构化引用无法解析，公式保留原文
+ * - DATE_CONVERSION_FAILED：日期单元格无法转换，保留原始值
+ * - ENCODING_FALLBACK：CSV 指定的编码无法使用，已改用其他编码解码
+ * - PACKAGE_FAILED：xlsx 包解析失败，图表、透视表、排序均未导入，主题按默认 Office 主题处理
+ * - WORKER_FALLBACK：环境不支持 Web Worker，已回退到主线程
+ * - EXTENSION_MISMATCH：扩展名为 .xls / .xlsx 但内容为文本，已按 CSV 导入
+ */
+export type ImportDiagnosticCode =
+  | 'LARGE_FILE'
+  | 'INVALID_NUMBER'
+  | 'CELL_IMAGE_SKIPPED'
+  | 'IMAGE_FAILED'
+  | 'CONDITIONAL_FORMAT_FAILED'
+  | 'FILTER_FAILED'
+  | 'FILTER_CRITERIA_UNSUPPORTED'
+  | 'CHART_SKIPPED'
+  | 'CHART_FAILED'
+  | 'PIVOT_SKIPPED'
+  | 'PIVOT_FAILED'
+  | 'PIVOT_SETTING_UNSUPPORTED'
+  | 'SORT_FAILED'
+  | 'DATA_VALIDATION_SKIPPED'
+  | 'DATA_VALIDATION_FAILED'
+  | 'DEFINED_NAME_SKIPPED'
+  | 'TABLE_FAILED'
+  | 'TABLE_STYLE_SKIPPED'
+  | 'TABLE_FILTER_SKIPPED'
+  | 'STRUCTURED_REFERENCE_UNRESOLVED'
+  | 'DATE_CONVERSION_FAILED'
+  | 'ENCODING_FALLBACK'
+  | 'PACKAGE_FAILED'
+  | 'WORKER_FALLBACK'
+  | 'EXTENSION_MISMATCH';
+
+/**
+ * 导入诊断信息（导入过程中丢失或降级的内容）
+ */
+export interface ImportDiagnostic {
+  /** 级别 */
+  severity: ImportDiagnosticSeverity;
+  /** 诊断代码 */
+  code: ImportDiagnosticCode;
+  /** 说明 */
+  message: string;
+  /** 所属工作表名称 */
+  sheetName?: string;
+  /** 所属工作表 ID（对应 IWorkbookData.sheets 的 key） */
+  sheetId?: string;
+  /** 单元格地址（A1 格式） */
+  cell?: string;
+  /** 范围（A1 格式） */
+  range?: string;
+}
+
+/**
+ * add*ToWorkbook 的单项结果
+ */
+export interface WorkbookItemResult {
+  /**
+   * 条目标识
+   * 图表为 chartId，透视表为 pivotTableId，筛选器和排序为 sheetId，条件格式为 `${sheetId}#${序号}`，
+   * 定义名称为名称
+   */
+  id: string;
+  /** 所属工作表 ID（工作簿级定义名称为空字符串） */
+  sheetId: string;
+  /** 范围（A1 格式） */
+  range?: string;
+  /** 是否添加成功 */
+  success: boolean;
+  /** 失败原因；成功时为未完全应用的内容（如透视表的个别字段设置、清空目标区域失败） */
+  message?: string;
+}
+
 /**
  * 导入结果（包含工作簿数据和图片信息）
  */
@@ -127,6 +303,12 @@ export interface ImportResult {
   charts: Record<string, ImportedChart[]>;
   /** 透视表列表 */
   pivotTables: ImportedPivotTable[];
+  /** 定义名称列表 */
+  definedNames: ImportedDefinedName[];
+  /** 表格列表 */
+  tables: ImportedTable[];
+  /** 诊断信息 */
+  diagnostics: ImportDiagnostic[];
 }
 
 /**
@@ -145,27 +327,325 @@ export interface ImportedConditionalFormat {
   stopIfTrue?: boolean;
 }
 
+/**
+ * 自定义筛选运算符（与 OOXML customFilter 的 operator 一致）
+ */
+export type ImportedFilterOperator =
+  'equal' | 'notEqual' | 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual';
+
+/**
+ * 日期分组级别（与 OOXML dateGroupItem 的 dateTimeGrouping 一致）
+ */
+export type ImportedFilterDateGrouping = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+/**
+ * 导入的筛选列条件
+ *
+ * 按值筛选和自定义筛选通过 Univer 筛选器应用；前 10 项、动态筛选、日期分组、按颜色和图标筛选
+ * Univer 暂不支持，仅保留条件，Excel 中被隐藏的行保持隐藏。
+ */
+export interface ImportedFilterColumn {
+  /** 列索引（0-based，相对于筛选范围起始列） */
+  column: number;
+  /** 按值筛选：显示的值（单元格显示文本） */
+  values?: string[];
+  /** 按值筛选：是否显示空白单元格 */
+  blank?: boolean;
+  /** 按值筛选：日期分组（如 2024 年 3 月） */
+  dateGroups?: Array<{
+    /** 分组级别 */
+    grouping: ImportedFilterDateGrouping;
+    year: number;
+    month?: number;
+    day?: number;
+    hour?: number;
+    minute?: number;
+    second?: number;
+  }>;
+  /** 自定义筛选（最多两个条件，值中可使用 * 和 ? 通配符） */
+  custom?: {
+    /** 条件之间为“与”关系，否则为“或” */
+    and: boolean;
+    conditions: Array<{ operator: ImportedFilterOperator; value: string }>;
+  };
+  /** 前 10 项筛选 */
+  top10?: {
+    /** 最大项（false 为最小项） */
+    top: boolean;
+    /** 按百分比 */
+    percent: boolean;
+    /** 项数或百分比 */
+    value: number;
+    /** Excel 计算出的临界值 */
+    filterValue?: number;
+  };
+  /** 动态筛选（如 aboveAverage、today、thisMonth、Q1） */
+  dynamic?: {
+    type: string;
+    /** Excel 计算出的临界值（如平均值、日期序列号） */
+    value?: number;
+    maxValue?: number;
+  };
+  /** 按颜色筛选 */
+  color?: {
+    /** 按单元格填充色筛选（false 为按字体颜色） */
+    cellColor: boolean;
+    /** 颜色（#RRGGBB），无法解析时为空 */
+    color?: string;
+  };
+  /** 按图标筛选（条件格式图标集） */
+  icon?: {
+    iconSet?: string;
+    iconId?: number;
+  };
+}
+
 /**
  * 导入的筛选器信息
  */
 export interface ImportedFilter {
   /** 筛选范围（A1 格式，如 "A1:D14"） */
   range: string;
+  /** 列筛选条件（仅包含设置了条件的列） */
+  columns?: ImportedFilterColumn[];
+  /** Excel 中被筛选隐藏的行（0-based 行号） */
+  hiddenRows?: number[];
+}
+
+/**
+ * 排序依据（与 OOXML sortCondition 的 sortBy 一致）
+ */
+export type ImportedSortBy = 'value' | 'cellColor' | 'fontColor' | 'icon';
+
+/**
+ * 导入的排序条件
+ */
+export interface ImportedSortCondition {
+  /** 排序列索引（0-based，相对于范围起始列）；按行排序（columnSort）时为相对于范围起始行的行索引 */
+  column: number;
+  /** 是否升序，默认 true */
+  ascending: boolean;
+  /** 排序依据，默认按值 */
+  sortBy?: ImportedSortBy;
+  /** 按单元格颜色 / 字体颜色排序时排在最前（升序）或最后（降序）的颜色 */
+  color?: string;
+  /** 自定义序列（如 ['一月', '二月', '三月']） */
+  customList?: string[];
+  /** 按图标排序时的图标集和图标索引 */
+  iconSet?: string;
+  iconId?: number;
 }
 
 /**
  * 导入的排序信息
  */
 export interface ImportedSort {
-  /** 排序范围（A1 格式，如 "A1:D14"） */
+  /** 排序范围（A1 格式，如 "A2:D14"，不含筛选标题行） */
   range: string;
   /** 排序条件列表 */
-  conditions: Array<{
-    /** 排序列索引（0-based，相对于范围起始列） */
-    column: number;
-    /** 是否升序，默认 true */
-    ascending: boolean;
-  }>;
+  conditions: ImportedSortCondition[];
+  /** 区分大小写 */
+  caseSensitive?: boolean;
+  /** 按行排序（从左到右），默认按列排序（从上到下） */
+  columnSort?: boolean;
+  /** 中文排序方式（pinYin 拼音、stroke 笔画） */
+  sortMethod?: string;
+}
+
+/**
+ * 导入的定义名称（命名区域）
+ */
+export interface ImportedDefinedName {
+  /** 名称（内置名称保留 Excel 原名，如 _xlnm.Print_Area） */
+  name: string;
+  /**
+   * 引用或公式（Univer formulaOrRefString 格式）
+   * 区域引用不带 =（如 Sheet1!$A$1:$B$5），公式和常量带 =（如 =OFFSET(Sheet1!$A$1,0,0,10,1)）
+   */
+  formulaOrRefString: string;
+  /** 作用域工作表 ID，工作簿级名称为空 */
+  sheetId?: string;
+  /** 作用域工作表名称，工作簿级名称为空 */
+  sheetName?: string;
+  /** 是否隐藏 */
+  hidden: boolean;
+  /** 是否为 Excel 内置名称（打印区域、打印标题、筛选区域等，名称以 _xlnm. 开头） */
+  builtIn: boolean;
+  /** 备注 */
+  comment?: string;
+}
+
+/**
+ * 导入的表格列
+ */
+export interface ImportedTableColumn {
+  /** 列名（标题行文本） */
+  name: string;
+  /** 汇总行函数（sum、average、count、countNums、max、min、stdDev、var、custom），无汇总时为空 */
+  totalsRowFunction?: string;
+  /** 汇总行标签（如 "汇总"） */
+  totalsRowLabel?: string;
+  /** 计算列公式（以 = 开头，保留原始的结构化引用） */
+  calculatedColumnFormula?: string;
+}
+
+/**
+ * 导入的表格（Excel 表格 / ListObject）
+ *
+ * Univer 没有表格对象，导入时表格样式已写入单元格样式，筛选按钮转为工作表筛选器，
+ * 公式中的结构化引用已改写为 A1 引用。这里保留表格的原始结构，供调用方使用。
+ */
+export interface ImportedTable {
+  /** 表格名称（公式中引用的名称，如 Table1） */
+  name: string;
+  /** 所属工作表 ID */
+  sheetId: string;
+  /** 所属工作表名称 */
+  sheetName: string;
+  /** 表格范围（A1 格式，含标题行和汇总行，如 "A1:D10"） */
+  range: string;
+  /** 列定义 */
+  columns: ImportedTableColumn[];
+  /** 表格样式名称（如 TableStyleMedium2），无样式时为空 */
+  styleName?: string;
+  /** 是否显示标题行 */
+  showHeaderRow: boolean;
+  /** 是否显示汇总行 */
+  showTotalsRow: boolean;
+  /** 镶边行 */
+  showRowStripes: boolean;
+  /** 镶边列 */
+  showColumnStripes: boolean;
+  /** 第一列突出显示 */
+  showFirstColumn: boolean;
+  /** 最后一列突出显示 */
+  showLastColumn: boolean;
+  /** 筛选范围（显示筛选按钮时，A1 格式） */
+  filterRange?: string;
+  /** 筛选条件 */
+  filterColumns?: ImportedFilterColumn[];
+}
+
+/**
+ * 图表类型
+ */
+export type ImportedChartType =
+  | 'column'
+  | 'bar'
+  | 'line'
+  | 'area'
+  | 'pie'
+  | 'doughnut'
+  | 'scatter'
+  | 'radar'
+  | 'bubble'
+  | 'combo'
+  | 'stackedBar'
+  | 'percentStackedBar'
+  | 'stackedArea'
+  | 'percentStackedArea'
+  | 'wordCloud'
+  | 'funnel'
+  | 'relationship'
+  | 'waterfall'
+  | 'treemap'
+  | 'sankey'
+  | 'heatmap'
+  | 'boxPlot'
+  | 'unknown';
+
+/**
+ * 图表数据标签
+ */
+export interface ImportedChartDataLabels {
+  /** 显示值 */
+  showValue: boolean;
+  /** 显示分类名称 */
+  showCategoryName: boolean;
+  /** 显示系列名称 */
+  showSeriesName: boolean;
+  /** 显示百分比（饼图、圆环图） */
+  showPercent: boolean;
+  /** 标签位置（Excel dLblPos，如 outEnd、inEnd、ctr、t、b、l、r、bestFit） */
+  position?: string;
+  /** 数字格式 */
+  numberFormat?: string;
+}
+
+/**
+ * 图表系列
+ */
+export interface ImportedChartSeries {
+  /** 绘制顺序（c:order） */
+  order: number;
+  /** 系列名称 */
+  name?: string;
+  /** 系列名称引用（如 Sheet1!$B$1） */
+  nameRef?: string;
+  /** 分类数据引用（散点图、气泡图为 X 值） */
+  categoriesRef?: string;
+  /** 值数据引用（散点图、气泡图为 Y 值） */
+  valuesRef?: string;
+  /** 气泡大小引用（气泡图） */
+  bubbleSizeRef?: string;
+  /** 分类缓存值（c:strCache / c:numCache；没有引用时为 c:strLit / c:numLit 中的常量） */
+  categories?: Array<string | number | null>;
+  /** 值缓存（同上） */
+  values?: Array<number | null>;
+  /** 系列所在图表组的类型（组合图中各系列不同） */
+  chartType: ImportedChartType;
+  /** 颜色：柱形、面积为填充色，折线、散点为线条颜色；未显式设置时为 Excel 按序号分配的主题色 */
+  color?: string;
+  /** 线条宽度（像素，折线、散点、雷达图） */
+  lineWidth?: number;
+  /** 线型（折线、散点、雷达图） */
+  dashType?: 'solid' | 'dashed' | 'dotted';
+  /** 平滑线（折线图、散点图） */
+  smooth?: boolean;
+  /** 数据点标记形状（Excel symbol，如 circle、square；none 表示不显示标记） */
+  marker?: string;
+  /** 数据点标记大小 */
+  markerSize?: number;
+  /** 绘制在次坐标轴上 */
+  secondaryAxis: boolean;
+  /** 数据标签（系列未设置时继承图表组的设置） */
+  dataLabels?: ImportedChartDataLabels;
+}
+
+/**
+ * 图表坐标轴
+ */
+export interface ImportedChartAxis {
+  /** 坐标轴标题 */
+  title?: string;
+  /** 是否显示 */
+  visible: boolean;
+  /** 位置 */
+  position?: 'left' | 'right' | 'top' | 'bottom';
+  /** 最小值（未设置时自动） */
+  min?: number;
+  /** 最大值（未设置时自动） */
+  max?: number;
+  /** 主要刻度单位 */
+  majorUnit?: number;
+  /** 数字格式（链接到数据源时不记录） */
+  numberFormat?: string;
+  /** 逆序刻度 */
+  reverse: boolean;
+  /** 显示主要网格线 */
+  majorGridlines: boolean;
+}
+
+/**
+ * 图表坐标轴（饼图等无坐标轴的图表为空对象）
+ */
+export interface ImportedChartAxes {
+  /** 分类轴（散点图为 X 值轴） */
+  category?: ImportedChartAxis;
+  /** 主值轴 */
+  value?: ImportedChartAxis;
+  /** 次值轴 */
+  secondaryValue?: ImportedChartAxis;
 }
 
 /**
@@ -178,32 +658,9 @@ export interface ImportedChart {
   sheetId: string;
   /** 所属工作表名称 */
   sheetName: string;
-  /** 图表类型 */
-  chartType:
-    | 'column'
-    | 'bar'
-    | 'line'
-    | 'area'
-    | 'pie'
-    | 'doughnut'
-    | 'scatter'
-    | 'radar'
-    | 'bubble'
-    | 'combo'
-    | 'stackedBar'
-    | 'percentStackedBar'
-    | 'stackedArea'
-    | 'percentStackedArea'
-    | 'wordCloud'
-    | 'funnel'
-    | 'relationship'
-    | 'waterfall'
-    | 'treemap'
-    | 'sankey'
-    | 'heatmap'
-    | 'boxPlot'
-    | 'unknown';
-  /** 数据源范围（A1 格式，如 "A1:D6"） */
+  /** 图表类型（包含多个图表组时为 combo） */
+  chartType: ImportedChartType;
+  /** 数据源范围（A1 格式，如 "A1:D6"）；系列引用无法合并为单个区域时为空，按 series 导入 */
   dataRange?: string;
   /** 数据源所在工作表名称（如果与图表所在工作表不同） */
   dataSheetName?: string;
@@ -227,6 +684,12 @@ export interface ImportedChart {
   };
   /** 图表标题 */
   title?: string;
+  /** 系列（按绘制顺序） */
+  series?: ImportedChartSeries[];
+  /** 坐标轴 */
+  axes?: ImportedChartAxes;
+  /** 图例位置（不显示图例时为 none） */
+  legendPosition?: 'top' | 'bottom' | 'left' | 'right' | 'none';
   /** 原始图表数据（用于高级配置） */
   rawData?: any;
 }
@@ -287,212 +750,713 @@ export interface ImportedPivotTable {
   };
   /** 透视表名称 */
   name?: string;
+  /** 缓存字段（按数据源列顺序，fields 中的索引即此处的位置） */
+  cacheFields?: ImportedPivotCacheField[];
+  /** 字段设置（与 cacheFields 一一对应） */
+  pivotFields?: ImportedPivotField[];
+  /** 值字段设置（与 fields.valueFields 一一对应） */
+  dataFields?: ImportedPivotDataField[];
+  /** 布局 */
+  layout?: ImportedPivotLayout;
+  /** Univer 不支持的设置（见 PIVOT_SETTING_UNSUPPORTED 诊断） */
+  unsupportedSettings?: string[];
 }
 
 /**
- * 解析 Excel 范围引用（如 "Sheet1!$A$1:$D$6"）
- * 返回 { sheetName, startCol, startRow, endCol, endRow }
+ * 透视表值汇总方式（count 为非空计数，countNums 为数值计数）
  */
-function parseExcelRange(range: string): {
-  sheetName: string;
-  startCol: number;
-  startRow: number;
-  endCol: number;
-  endRow: number;
-} | null {
-  // 匹配格式: Sheet1!$A$1:$D$6 或 Sheet1!$A$1
-  const match = range.match(/^(.+?)!\$?([A-Z]+)\$?(\d+)(?::\$?([A-Z]+)\$?(\d+))?$/);
-  if (!match) return null;
+export type ImportedPivotSubtotal =
+  | 'sum'
+  | 'count'
+  | 'average'
+  | 'max'
+  | 'min'
+  | 'product'
+  | 'countNums'
+  | 'stdDev'
+  | 'stdDevp'
+  | 'var'
+  | 'varp';
+
+/**
+ * 透视表值显示方式（Excel ST_ShowDataAs 及 x14 扩展）
+ */
+export type ImportedPivotShowDataAs =
+  | 'normal'
+  | 'difference'
+  | 'percent'
+  | 'percentDiff'
+  | 'runTotal'
+  | 'percentOfRow'
+  | 'percentOfCol'
+  | 'percentOfTotal'
+  | 'index'
+  | 'percentOfParentRow'
+  | 'percentOfParentCol'
+  | 'percentOfParent'
+  | 'percentOfRunningTotal'
+  | 'rankAscending'
+  | 'rankDescending';
 
-  const sheetName = match[1].replace(/^'|'$/g, ''); // 移除引号
-  const startColStr = match[2];
-  const startRow = parseInt(match[3], 10);
-  const endColStr = match[4] || startColStr;
-  const endRow = match[5] ? parseInt(match[5], 10) : startRow;
+/**
+ * 透视表缓存项的值（缺失值为 null，日期为 ISO 格式字符串）
+ */
+export type ImportedPivotItemValue = string | number | boolean | null;
 
-  // 将列字母转换为数字（A=1, B=2, ...）
-  const colToNum = (col: string): number => {
-    let num = 0;
-    for (let i = 0; i < col.length; i++) {
-      num = num * 26 + (col.charCodeAt(i) - 64);
-    }
-    return num;
-  };
+/**
+ * 透视表缓存字段（pivotCacheDefinition 中的 cacheField）
+ */
+export interface ImportedPivotCacheField {
+  /** 字段名称（数据源标题） */
+  name: string;
+  /** 字段项（分组字段为分组项） */
+  items: ImportedPivotItemValue[];
+  /** 数字格式 */
+  numberFormat?: string;
+  /** 计算字段公式 */
+  formula?: string;
+  /** 是否为分组字段（按日期、数值区间或手动分组） */
+  grouped?: boolean;
+}
 
-  return {
-    sheetName,
-    startCol: colToNum(startColStr),
-    startRow,
-    endCol: colToNum(endColStr),
-    endRow,
-  };
+/**
+ * 透视表字段设置（pivotTableDefinition 中的 pivotField）
+ */
+export interface ImportedPivotField {
+  /** 所在区域，未设置表示未使用或仅作为值字段 */
+  axis?: 'row' | 'column' | 'page';
+  /** 自定义名称 */
+  name?: string;
+  /** 项排序方式 */
+  sortType?: 'ascending' | 'descending';
+  /** 按值字段排序时的值字段位置（dataFields 中的索引） */
+  sortByDataField?: number;
+  /** 隐藏（筛选掉）的项 */
+  hiddenItems?: ImportedPivotItemValue[];
+  /** 筛选字段选中的单个项 */
+  selectedItem?: ImportedPivotItemValue;
+  /** 是否显示分类汇总 */
+  showSubtotals: boolean;
+  /** 分类汇总函数，未设置表示自动（与值字段汇总方式相同） */
+  subtotals?: ImportedPivotSubtotal[];
+  /** 是否使用压缩形式 */
+  compact: boolean;
+  /** 是否使用大纲形式 */
+  outline: boolean;
+  /** 数字格式 */
+  numberFormat?: string;
+}
+
+/**
+ * 透视表值字段设置（pivotTableDefinition 中的 dataField）
+ */
+export interface ImportedPivotDataField {
+  /** 字段索引（cacheFields 中的位置） */
+  field: number;
+  /** 显示名称，如 "求和项:销售额" */
+  name?: string;
+  /** 汇总方式 */
+  subtotal: ImportedPivotSubtotal;
+  /** 值显示方式 */
+  showDataAs: ImportedPivotShowDataAs;
+  /** 值显示方式的基本字段（cacheFields 中的位置） */
+  baseField?: number;
+  /** 值显示方式的基本项（基本字段的项索引） */
+  baseItem?: number;
+  /** 数字格式 */
+  numberFormat?: string;
+}
+
+/**
+ * 透视表布局
+ */
+export interface ImportedPivotLayout {
+  /** 报表布局：压缩形式、大纲形式、表格形式 */
+  form: 'compact' | 'outline' | 'tabular';
+  /** 是否显示行总计 */
+  rowGrandTotals: boolean;
+  /** 是否显示列总计 */
+  colGrandTotals: boolean;
+  /** 多个值字段时 "Σ 数值" 所在区域 */
+  valuePosition: 'row' | 'column';
+  /** "Σ 数值" 在所在区域中的位置 */
+  valueIndex: number;
+  /** 是否合并且居中排列带标签的单元格 */
+  mergeItems: boolean;
+  /** 透视表样式名称，如 PivotStyleLight16 */
+  styleName?: string;
+  /** 样式选项：行标题 */
+  showRowHeaders: boolean;
+  /** 样式选项：列标题 */
+  showColHeaders: boolean;
+  /** 样式选项：镶边行 */
+  showRowStripes: boolean;
+  /** 样式选项：镶边列 */
+  showColStripes: boolean;
+  /** 样式选项：最后一列 */
+  showLastColumn: boolean;
 }
 
 /**
- * 将列数字转换为列字母（1=A, 2=B, ...）
+ * 计算图表的单个数据源区域
+ *
+ * 各系列的值为同一工作表上相邻的列（按系列顺序、行范围相同），系列名称位于值上方一行，
+ * 分类（如有）为所有系列共用、位于第一个值列左侧的一列时，数据源可表示为单个区域：
+ * 如 分类 A2:A6、值 B2:B6 和 C2:C6、名称 B1 和 C1 -> A1:C6。
+ * @returns 区域（A1 格式，不含工作表名）及所在工作表；无法表示为单个区域时返回 null
  */
-function numToCol(num: number): string {
-  let col = '';
-  while (num > 0) {
-    const remainder = (num - 1) % 26;
-    col = String.fromCharCode(65 + remainder) + col;
-    num = Math.floor((num - 1) / 26);
+function getChartSourceRange(
+  series: ImportedChartSeries[],
+): { sheetName: string; range: string } | null {
+  if (series.length === 0) return null;
+  const values = series.map((item) => (item.valuesRef ? parseA1Reference(item.valuesRef) : null));
+  const first = values[0];
+  if (!first?.sheetName) return null;
+  const isColumn = (
+    range: ReturnType<typeof parseA1Reference>,
+    column: number,
+    startRow: number,
+    endRow: number,
+  ) =>
+    !!range &&
+    range.sheetName === first.sheetName &&
+    range.startColumn === column &&
+    range.endColumn === column &&
+    range.startRow === startRow &&
+    range.endRow === endRow;
+
+  for (let i = 0; i < series.length; i++) {
+    const column = first.startColumn + i;
+    if (!isColumn(values[i], column, first.startRow, first.endRow)) return null;
+    // 没有名称时无法区分标题行和数据行
+    const nameRef = series[i].nameRef;
+    const name = nameRef ? parseA1Reference(nameRef) : null;
+    if (!isColumn(name, column, first.startRow - 1, first.startRow - 1)) return null;
+  }
+
+  let startColumn = first.startColumn;
+  const categoriesRef = series[0].categoriesRef;
+  if (series.some((item) => item.categoriesRef !== categoriesRef)) return null;
+  if (categoriesRef) {
+    const categories = parseA1Reference(categoriesRef);
+    if (!isColumn(categories, first.startColumn - 1, first.startRow, first.endRow)) return null;
+    startColumn = first.startColumn - 1;
   }
-  return col;
+
+  return {
+    sheetName: first.sheetName,
+    range: formatA1Range({
+      startRow: first.startRow - 1,
+      endRow: first.endRow,
+      startColumn,
+      endColumn: first.startColumn + series.length - 1,
+    }),
+  };
 }
 
+/** DrawingML 主题颜色名称 -> 主题颜色索引（WorkbookTheme.colors） */
+const DRAWING_SCHEME_COLORS: Record<string, number> = {
+  lt1: 0,
+  bg1: 0,
+  dk1: 1,
+  tx1: 1,
+  lt2: 2,
+  bg2: 2,
+  dk2: 3,
+  tx2: 3,
+  accent1: 4,
+  accent2: 5,
+  accent3: 6,
+  accent4: 7,
+  accent5: 8,
+  accent6: 9,
+  hlink: 10,
+  folHlink: 11,
+};
+
+/** Excel 自动系列颜色每轮 6 个主题色之后的亮度调整（按轮次循环） */
+const CHART_AUTO_COLOR_TINTS = [0, -0.4, 0.2, -0.2, 0.4, -0.5];
+
+/** Excel 图例位置 -> 导入的图例位置 */
+const CHART_LEGEND_POSITIONS: Record<string, ImportedChart['legendPosition']> = {
+  t: 'top',
+  b: 'bottom',
+  l: 'left',
+  r: 'right',
+  tr: 'right',
+};
+
+/** Excel 坐标轴位置 -> 导入的坐标轴位置 */
+const CHART_AXIS_POSITIONS: Record<string, ImportedChartAxis['position']> = {
+  t: 'top',
+  b: 'bottom',
+  l: 'left',
+  r: 'right',
+};
+
+/** 图表组元素（plotArea 的子元素） */
+const CHART_GROUP_REGEX =
+  /<c:(barChart|bar3DChart|lineChart|line3DChart|pieChart|pie3DChart|doughnutChart|areaChart|area3DChart|scatterChart|radarChart|bubbleChart|ofPieChart|surfaceChart|surface3DChart|stockChart)>([\s\S]*?)<\/c:\1>/g;
+
+/** 坐标轴元素（plotArea 的子元素） */
+const CHART_AXIS_REGEX = /<c:(catAx|valAx|dateAx|serAx)>([\s\S]*?)<\/c:\1>/g;
+
 /**
- * 合并多个 Excel 范围引用为一个最小包围矩形
- * @param ranges 范围数组，如 ["Sheet1!$A$1:$A$6", "Sheet1!$B$1:$D$6"]
- * @returns 合并后的范围，如 "A1:D6"（不包含工作表名称，因为 Univer 会自动处理）
+ * 读取图表 XML 中的布尔元素（<c:smooth val="1"/>）
+ * CT_Boolean 省略 val 时为 true
+ * @returns 元素不存在时返回 undefined
  */
-function mergeChartDataRanges(ranges: string[]): string {
-  if (ranges.length === 0) return '';
+function readChartBoolean(xml: string, name: string): boolean | undefined {
+  const tag = xml.match(new RegExp(`<c:${name}\\b[^>]*>`))?.[0];
+  if (!tag) return undefined;
+  const value = getXmlAttr(tag, 'val');
+  return value === null || isXmlTrue(value);
+}
 
-  let minCol = Infinity;
-  let minRow = Infinity;
-  let maxCol = -Infinity;
-  let maxRow = -Infinity;
-  let sheetName = '';
+/**
+ * 读取图表 XML 中元素的 val 属性（<c:order val="1"/>）
+ */
+function readChartValue(xml: string, name: string): string | undefined {
+  const tag = xml.match(new RegExp(`<c:${name}\\b[^>]*>`))?.[0];
+  return (tag && getXmlAttr(tag, 'val')) ?? undefined;
+}
 
-  for (const range of ranges) {
-    const parsed = parseExcelRange(range);
-    if (!parsed) continue;
+/**
+ * 读取图表 XML 中元素的数值 val 属性
+ */
+function readChartNumber(xml: string, name: string): number | undefined {
+  const value = readChartValue(xml, name);
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
 
-    if (!sheetName) sheetName = parsed.sheetName;
+/**
+ * 移除图表 XML 中的子元素（用于只读取当前层级的设置）
+ */
+function stripChartElements(xml: string, names: string[]): string {
+  return names.reduce(
+    (result, name) =>
+      result.replace(new RegExp(`<${name}\\b[^>]*?(?:/>|>[\\s\\S]*?</${name}>)`, 'g'), ''),
+    xml,
+  );
+}
 
-    minCol = Math.min(minCol, parsed.startCol, parsed.endCol);
-    minRow = Math.min(minRow, parsed.startRow, parsed.endRow);
-    maxCol = Math.max(maxCol, parsed.startCol, parsed.endCol);
-    maxRow = Math.max(maxRow, parsed.startRow, parsed.endRow);
+/**
+ * 解析 DrawingML 颜色（<a:srgbClr>、<a:schemeClr> 及 lumMod/lumOff 等亮度调整）
+ * @param xml 包含颜色元素的 XML 片段（如 <a:solidFill> 的内容）
+ * @param theme 工作簿主题
+ */
+function parseDrawingColor(xml: string | undefined, theme: WorkbookTheme): string | null {
+  const match = xml?.match(/<a:(srgbClr|schemeClr|sysClr)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/a:\1>)/);
+  if (!match) return null;
+  const tag = `<a:${match[1]}${match[2]}>`;
+  let hex: string | null | undefined;
+  if (match[1] === 'srgbClr') {
+    hex = getXmlAttr(tag, 'val');
+  } else if (match[1] === 'sysClr') {
+    hex = getXmlAttr(tag, 'lastClr');
+  } else {
+    hex = theme.colors[DRAWING_SCHEME_COLORS[getXmlAttr(tag, 'val') || '']];
   }
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+  // 亮度调整按 tint 近似：lumOff 变亮，lumMod/shade 变暗
+  const modifiers = match[3] || '';
+  const readModifier = (name: string) => {
+    const value = modifiers.match(new RegExp(`<a:${name}\\b[^>]*\\sval="(\\d+)"`))?.[1];
+    return value === undefined ? undefined : Number(value) / 100000;
+  };
+  const lumOff = readModifier('lumOff');
+  const lumMod = readModifier('lumMod');
+  const shade = readModifier('shade');
+  const tint = readModifier('tint');
+  if (lumOff) return applyTint(hex, lumOff);
+  if (lumMod !== undefined && lumMod < 1) return applyTint(hex, lumMod - 1);
+  if (shade !== undefined && shade < 1) return applyTint(hex, shade - 1);
+  if (tint !== undefined && tint < 1) return applyTint(hex, 1 - tint);
+  return `#${hex}`;
+}
+
+/**
+ * Excel 按系列序号自动分配的颜色（accent1-6 循环，每轮调整亮度）
+ */
+function getChartAutoColor(index: number, theme: WorkbookTheme): string {
+  const base = theme.colors[4 + (index % 6)];
+  const tint = CHART_AUTO_COLOR_TINTS[Math.floor(index / 6) % CHART_AUTO_COLOR_TINTS.length];
+  return tint ? applyTint(base, tint) : `#${base}`;
+}
 
-  if (minCol === Infinity || minRow === Infinity) {
-    return ranges[0] || '';
+/**
+ * 读取图表文本（<c:title>、<c:tx>）
+ * 富文本取 <a:t> 文本，引用单元格时取 strCache 中的缓存值
+ */
+function parseChartText(xml: string | undefined): string | undefined {
+  if (!xml) return undefined;
+  const rich = xml.match(/<c:rich>([\s\S]*?)<\/c:rich>/)?.[1];
+  if (rich) {
+    const paragraphs = [...rich.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)].map((paragraph) =>
+      [...paragraph[1].matchAll(/<a:t>([^<]*)<\/a:t>/g)]
+        .map((run) => decodeXmlEntities(run[1]))
+        .join(''),
+    );
+    const text = paragraphs.filter(Boolean).join('\n');
+    return text || undefined;
   }
+  const values = [...xml.matchAll(/<c:v>([^<]*)<\/c:v>/g)].map((match) =>
+    decodeXmlEntities(match[1]),
+  );
+  return values.length > 0 ? values.join(' ') : undefined;
+}
 
-  // 返回格式：A1:D6（Univer addRange 需要这种格式）
-  return `${numToCol(minCol)}${minRow}:${numToCol(maxCol)}${maxRow}`;
+/**
+ * 读取数据源引用（<c:cat>、<c:val> 等元素中的 <c:f>）
+ */
+function readChartReference(xml: string, name: string): string | undefined {
+  const element = xml.match(new RegExp(`<c:${name}>([\\s\\S]*?)</c:${name}>`))?.[1];
+  const formula = element?.match(/<c:f>([^<]+)<\/c:f>/)?.[1];
+  return formula ? decodeXmlEntities(formula) : undefined;
 }
 
 /**
- * 从 xlsx 文件中解析图表信息
- * 由于 ExcelJS 不支持读取图表，需要直接解析 xlsx（zip 格式）
- *
- * xlsx 文件结构：
- * - xl/drawings/drawing1.xml - 包含图表锚点位置
- * - xl/charts/chart1.xml - 包含图表类型和数据范围
- * - xl/drawings/_rels/drawing1.xml.rels - 包含 drawing 到 chart 的关系映射
- * - xl/_rels/workbook.xml.rels - 包含 sheet 到 drawing 的关系映射
+ * 读取数据缓存（<c:strCache>、<c:numCache>；没有引用时为 <c:strLit>、<c:numLit>）
+ * 多级分类取最内层（第一个 <c:lvl>）
  */
-async function parseChartsFromXlsx(
-  arrayBuffer: ArrayBuffer,
-  sheetNameToIdMap: Map<string, string>,
-): Promise<Record<string, ImportedChart[]>> {
-  const charts: Record<string, ImportedChart[]> = {};
+function readChartCache(xml: string, name: string): Array<string | number | null> | undefined {
+  const element = xml.match(new RegExp(`<c:${name}>([\\s\\S]*?)</c:${name}>`))?.[1];
+  const cache = element?.match(/<c:(strCache|numCache|strLit|numLit|lvl)>([\s\S]*?)<\/c:\1>/);
+  if (!cache) return undefined;
+  const numeric = cache[1].startsWith('num');
+  const points: Array<string | number | null> = new Array(
+    readChartNumber(element!, 'ptCount') ?? 0,
+  ).fill(null);
+  const pointRegex = /<c:pt\b([^>]*)>[\s\S]*?<c:v>([^<]*)<\/c:v>[\s\S]*?<\/c:pt>/g;
+  for (const pt of cache[2].matchAll(pointRegex)) {
+    const index = Number(getXmlAttr(`<c:pt${pt[1]}>`, 'idx'));
+    if (!Number.isInteger(index) || index < 0) continue;
+    const text = decodeXmlEntities(pt[2]);
+    points[index] = numeric ? Number(text) : text;
+  }
+  return Array.from(points, (point) => point ?? null);
+}
 
-  try {
-    // 使用浏览器原生的 JSZip（通过动态导入）
-    // ExcelJS 内部依赖 JSZip，我们可以直接使用
-    const JSZip = (await import('jszip')).default;
-    const zip = await JSZip.loadAsync(arrayBuffer);
+/**
+ * 解析数据标签设置（<c:dLbls>）
+ * @returns 未显示任何内容时返回 undefined
+ */
+function parseChartDataLabels(xml: string | undefined): ImportedChartDataLabels | undefined {
+  if (!xml) return undefined;
+  // 单个数据点的标签设置（<c:dLbl>）不处理
+  const body = stripChartElements(xml, ['c:dLbl']);
+  if (readChartBoolean(body, 'delete')) return undefined;
+  const labels: ImportedChartDataLabels = {
+    showValue: readChartBoolean(body, 'showVal') ?? false,
+    showCategoryName: readChartBoolean(body, 'showCatName') ?? false,
+    showSeriesName: readChartBoolean(body, 'showSerName') ?? false,
+    showPercent: readChartBoolean(body, 'showPercent') ?? false,
+  };
+  if (
+    !labels.showValue &&
+    !labels.showCategoryName &&
+    !labels.showSeriesName &&
+    !labels.showPercent
+  ) {
+    return undefined;
+  }
+  const position = readChartValue(body, 'dLblPos');
+  if (position) labels.position = position;
+  const numFmt = body.match(/<c:numFmt\b[^>]*>/)?.[0];
+  if (numFmt && !isXmlTrue(getXmlAttr(numFmt, 'sourceLinked'))) {
+    labels.numberFormat = getXmlAttr(numFmt, 'formatCode') ?? undefined;
+  }
+  return labels;
+}
 
-    // 解析工作表和 drawing 的关系
-    const sheetDrawingMap = new Map<string, string>(); // sheetName -> drawingPath
+/**
+ * 按图表组元素判断图表类型
+ * @param groupName 图表组元素名（如 barChart）
+ * @param groupXml 图表组元素内容
+ */
+function getChartGroupType(groupName: string, groupXml: string): ImportedChartType {
+  const grouping = readChartValue(groupXml, 'grouping');
+  switch (groupName) {
+    case 'barChart':
+    case 'bar3DChart':
+      // 水平条形图区分堆叠方式；堆叠柱形图暂时使用 column
+      if (readChartValue(groupXml, 'barDir') === 'bar') {
+        if (grouping === 'stacked') return 'stackedBar';
+        if (grouping === 'percentStacked') return 'percentStackedBar';
+        return 'bar';
+      }
+      return 'column';
+    case 'lineChart':
+    case 'line3DChart':
+      return 'line';
+    case 'pieChart':
+    case 'pie3DChart':
+    case 'ofPieChart':
+      return 'pie';
+    case 'doughnutChart':
+      return 'doughnut';
+    case 'areaChart':
+    case 'area3DChart':
+      if (grouping === 'stacked') return 'stackedArea';
+      if (grouping === 'percentStacked') return 'percentStackedArea';
+      return 'area';
+    case 'scatterChart':
+    case 'surfaceChart':
+    case 'surface3DChart':
+      // 曲面图映射到散点图
+      return 'scatter';
+    case 'radarChart':
+      return 'radar';
+    case 'bubbleChart':
+      return 'bubble';
+    case 'stockChart':
+      // 股价图映射到组合图
+      return 'combo';
+    default:
+      return 'column';
+  }
+}
+
+/**
+ * 解析图表系列（<c:ser>）
+ * @param serXml 系列元素内容
+ * @param chartType 所在图表组的类型
+ * @param groupLabels 图表组的数据标签设置
+ * @param theme 工作簿主题
+ */
+function parseChartSeries(
+  serXml: string,
+  chartType: ImportedChartType,
+  groupLabels: ImportedChartDataLabels | undefined,
+  theme: WorkbookTheme,
+): ImportedChartSeries {
+  const index = readChartNumber(serXml, 'idx') ?? 0;
+  const tx = serXml.match(/<c:tx>([\s\S]*?)<\/c:tx>/)?.[1];
+  const series: ImportedChartSeries = {
+    order: readChartNumber(serXml, 'order') ?? index,
+    chartType,
+    secondaryAxis: false,
+  };
 
-    // 读取 xl/workbook.xml 获取 sheet 列表
-    const workbookXmlFile = zip.file('xl/workbook.xml');
-    const workbookRelsFile = zip.file('xl/_rels/workbook.xml.rels');
+  const name = parseChartText(tx);
+  if (name) series.name = name;
+  const nameRef = tx?.match(/<c:f>([^<]+)<\/c:f>/)?.[1];
+  if (nameRef) series.nameRef = decodeXmlEntities(nameRef);
+  const categoriesRef = readChartReference(serXml, 'cat') ?? readChartReference(serXml, 'xVal');
+  if (categoriesRef) series.categoriesRef = categoriesRef;
+  const valuesRef = readChartReference(serXml, 'val') ?? readChartReference(serXml, 'yVal');
+  if (valuesRef) series.valuesRef = valuesRef;
+  const bubbleSizeRef = readChartReference(serXml, 'bubbleSize');
+  if (bubbleSizeRef) series.bubbleSizeRef = bubbleSizeRef;
+  const categories = readChartCache(serXml, 'cat') ?? readChartCache(serXml, 'xVal');
+  if (categories) series.categories = categories;
+  const values = readChartCache(serXml, 'val') ?? readChartCache(serXml, 'yVal');
+  if (values) {
+    series.values = values.map((value) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : null,
+    );
+  }
 
-    if (!workbookXmlFile || !workbookRelsFile) {
-      console.log('[fileImport] 无法找到 workbook.xml 或其关系文件');
-      return charts;
+  // 只读取系列本身的 spPr，忽略数据点、标记、标签中的设置
+  const own = stripChartElements(serXml, ['c:tx', 'c:dPt', 'c:dLbls', 'c:marker', 'c:trendline']);
+  const spPr = own.match(/<c:spPr>([\s\S]*?)<\/c:spPr>/)?.[1] || '';
+  const line = spPr.match(/<a:ln\b([^>]*?)(?:\/>|>([\s\S]*?)<\/a:ln>)/);
+  const lineBody = line?.[2] || '';
+  const fill = stripChartElements(spPr, ['a:ln']);
+  const fillColor = parseDrawingColor(
+    fill.match(/<a:solidFill>([\s\S]*?)<\/a:solidFill>/)?.[1],
+    theme,
+  );
+  const lineColor = parseDrawingColor(
+    lineBody.match(/<a:solidFill>([\s\S]*?)<\/a:solidFill>/)?.[1],
+    theme,
+  );
+  const isLine = chartType === 'line' || chartType === 'scatter' || chartType === 'radar';
+  series.color = (isLine ? lineColor || fillColor : fillColor) ?? undefined;
+  if (!series.color && chartType !== 'pie' && chartType !== 'doughnut') {
+    // 饼图按数据点分配颜色，系列颜色无意义
+    series.color = getChartAutoColor(index, theme);
+  }
+  if (isLine) {
+    // 柱形、面积等的 <a:ln> 为边框，不记录
+    const lineWidth = line ? getXmlAttr(`<a:ln${line[1]}>`, 'w') : null;
+    if (lineWidth) series.lineWidth = Math.max(1, Math.round(Number(lineWidth) / 9525)); // EMUs to pixels
+    const dash = lineBody.match(/<a:prstDash\b[^>]*\sval="([^"]*)"/)?.[1];
+    if (dash) {
+      series.dashType = dash === 'solid' ? 'solid' : /dash/i.test(dash) ? 'dashed' : 'dotted';
     }
+  }
+
+  const smooth = readChartBoolean(own, 'smooth');
+  if (smooth !== undefined) series.smooth = smooth;
+  const marker = serXml.match(/<c:marker>([\s\S]*?)<\/c:marker>/)?.[1];
+  if (marker) {
+    const symbol = readChartValue(marker, 'symbol');
+    if (symbol) series.marker = symbol;
+    const size = readChartNumber(marker, 'size');
+    if (size !== undefined) series.markerSize = size;
+  }
+
+  const dLbls = serXml.match(/<c:dLbls>([\s\S]*?)<\/c:dLbls>/)?.[1];
+  const dataLabels = dLbls !== undefined ? parseChartDataLabels(dLbls) : groupLabels;
+  if (dataLabels) series.dataLabels = dataLabels;
+  return series;
+}
 
-    const workbookXml = await workbookXmlFile.async('string');
-    const workbookRels = await workbookRelsFile.async('string');
+/**
+ * 解析坐标轴（<c:catAx>、<c:valAx>、<c:dateAx>）
+ */
+function parseChartAxis(axisXml: string): ImportedChartAxis {
+  const scaling = axisXml.match(/<c:scaling>([\s\S]*?)<\/c:scaling>/)?.[1] || '';
+  const axis: ImportedChartAxis = {
+    visible: !readChartBoolean(axisXml, 'delete'),
+    reverse: readChartValue(scaling, 'orientation') === 'maxMin',
+    majorGridlines: /<c:majorGridlines\b/.test(axisXml),
+  };
+  const title = parseChartText(axisXml.match(/<c:title>([\s\S]*?)<\/c:title>/)?.[1]);
+  if (title) axis.title = title;
+  const position = CHART_AXIS_POSITIONS[readChartValue(axisXml, 'axPos') || ''];
+  if (position) axis.position = position;
+  const min = readChartNumber(scaling, 'min');
+  if (min !== undefined) axis.min = min;
+  const max = readChartNumber(scaling, 'max');
+  if (max !== undefined) axis.max = max;
+  const majorUnit = readChartNumber(axisXml, 'majorUnit');
+  if (majorUnit !== undefined) axis.majorUnit = majorUnit;
+  const numFmt = axisXml.match(/<c:numFmt\b[^>]*>/)?.[0];
+  if (numFmt && !isXmlTrue(getXmlAttr(numFmt, 'sourceLinked'))) {
+    const formatCode = getXmlAttr(numFmt, 'formatCode');
+    if (formatCode && formatCode !== 'General') axis.numberFormat = formatCode;
+  }
+  return axis;
+}
 
-    // 解析 sheet 名称和 rId 的映射
-    const sheetRIdMap = new Map<string, string>(); // sheetName -> rId
-    const sheetMatches = workbookXml.matchAll(/<sheet[^>]*name="([^"]*)"[^>]*r:id="([^"]*)"/g);
-    for (const match of sheetMatches) {
-      sheetRIdMap.set(match[1], match[2]);
+/**
+ * 解析图表 XML 中的类型、系列、坐标轴、图例和标题
+ *
+ * 每个图表组（barChart、lineChart 等）引用一对坐标轴（先分类轴后值轴）；
+ * 第一个图表组使用主坐标轴，引用其他值轴的图表组绘制在次坐标轴上。
+ */
+function parseChartXml(
+  chartXml: string,
+  theme: WorkbookTheme,
+): Pick<ImportedChart, 'chartType' | 'series' | 'axes' | 'legendPosition' | 'title'> {
+  const plotArea = chartXml.match(/<c:plotArea>([\s\S]*?)<\/c:plotArea>/)?.[1] || '';
+
+  const axisMap = new Map<string, ImportedChartAxis>();
+  for (const match of plotArea.matchAll(CHART_AXIS_REGEX)) {
+    const axisId = readChartValue(match[2], 'axId');
+    if (axisId) axisMap.set(axisId, parseChartAxis(match[2]));
+  }
+
+  const groupTypes: ImportedChartType[] = [];
+  const series: ImportedChartSeries[] = [];
+  const axes: ImportedChartAxes = {};
+  let primaryValueAxisId: string | undefined;
+  for (const match of plotArea.matchAll(CHART_GROUP_REGEX)) {
+    const groupType = getChartGroupType(match[1], match[2]);
+    groupTypes.push(groupType);
+    const groupOwn = stripChartElements(match[2], ['c:ser']);
+    const groupLabels = parseChartDataLabels(groupOwn.match(/<c:dLbls>([\s\S]*?)<\/c:dLbls>/)?.[1]);
+
+    const axisIds = [...groupOwn.matchAll(/<c:axId\b[^>]*\sval="([^"]*)"/g)].map((id) => id[1]);
+    const [categoryAxisId, valueAxisId] = axisIds;
+    let secondaryAxis = false;
+    if (valueAxisId) {
+      if (primaryValueAxisId === undefined) {
+        primaryValueAxisId = valueAxisId;
+        axes.category = axisMap.get(categoryAxisId);
+        axes.value = axisMap.get(valueAxisId);
+      } else if (valueAxisId !== primaryValueAxisId) {
+        secondaryAxis = true;
+        axes.secondaryValue = axisMap.get(valueAxisId);
+      }
     }
 
-    // 解析 rId 和 sheet 文件路径的映射
-    const rIdToPathMap = new Map<string, string>(); // rId -> sheetPath
-    const relMatches = workbookRels.matchAll(
-      /<Relationship[^>]*Id="([^"]*)"[^>]*Target="([^"]*)"/g,
-    );
-    for (const match of relMatches) {
-      rIdToPathMap.set(match[1], match[2]);
+    for (const ser of match[2].matchAll(/<c:ser>([\s\S]*?)<\/c:ser>/g)) {
+      const item = parseChartSeries(ser[1], groupType, groupLabels, theme);
+      item.secondaryAxis = secondaryAxis;
+      series.push(item);
     }
+  }
+  series.sort((a, b) => a.order - b.order);
 
-    // 遍历每个 sheet 的关系文件，找到 drawing
-    for (const [sheetName, rId] of sheetRIdMap) {
-      const sheetPath = rIdToPathMap.get(rId);
-      if (!sheetPath) continue;
+  const distinctTypes = [...new Set(groupTypes)];
+  const chartType: ImportedChartType =
+    distinctTypes.length === 1 ? distinctTypes[0] : distinctTypes.length > 1 ? 'combo' : 'column';
 
-      // 获取 sheet 的关系文件
-      const sheetRelsPath = sheetPath
-        .replace('worksheets/', 'worksheets/_rels/')
-        .replace('.xml', '.xml.rels');
-      const sheetRelsFile = zip.file(`xl/${sheetRelsPath}`);
+  // 图表标题位于 plotArea 之前
+  const chartHead = chartXml.split(/<c:plotArea>/)[0];
+  const title = parseChartText(chartHead.match(/<c:title>([\s\S]*?)<\/c:title>/)?.[1]);
+  const legend = chartXml.match(/<c:legend>([\s\S]*?)<\/c:legend>/)?.[1];
+  const legendPosition = legend
+    ? (CHART_LEGEND_POSITIONS[readChartValue(legend, 'legendPos') || 'r'] ?? 'right')
+    : 'none';
 
-      if (!sheetRelsFile) continue;
+  return { chartType, series, axes, legendPosition, title };
+}
 
-      const sheetRels = await sheetRelsFile.async('string');
+/**
+ * 从 xlsx 文件中解析图表信息
+ * 由于 ExcelJS 不支持读取图表，需要直接解析 xlsx（zip 格式）
+ *
+ * xlsx 文件结构：
+ * - xl/drawings/drawing1.xml - 包含图表锚点位置
+ * - xl/charts/chart1.xml - 包含图表类型和数据范围
+ * - xl/drawings/_rels/drawing1.xml.rels - 包含 drawing 到 chart 的关系映射
+ * - xl/worksheets/_rels/sheet1.xml.rels - 包含 sheet 到 drawing 的关系映射
+ */
+async function parseChartsFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  theme: WorkbookTheme,
+  diagnostics: ImportDiagnostic[],
+): Promise<Record<string, ImportedChart[]>> {
+  const charts: Record<string, ImportedChart[]> = {};
 
-      // 查找 drawing 关系
-      const drawingMatch = sheetRels.match(
-        /<Relationship[^>]*Type="[^"]*drawing"[^>]*Target="([^"]*)"/,
-      );
-      if (drawingMatch) {
-        const drawingPath = drawingMatch[1].replace('../', '');
-        sheetDrawingMap.set(sheetName, drawingPath);
-      }
-    }
+  try {
+    // 遍历每个工作表的 drawing，解析图表信息
+    for (const sheet of xlsxPackage.sheets) {
+      const drawingRel = sheet.rels.find((rel) => !rel.external && isRelType(rel, 'drawing'));
+      if (!drawingRel) continue;
 
-    // 遍历每个 drawing 文件，解析图表信息
-    for (const [sheetName, drawingPath] of sheetDrawingMap) {
+      const sheetName = sheet.name;
+      const drawingPath = drawingRel.target;
       const sheetId = sheetNameToIdMap.get(sheetName);
       if (!sheetId) {
-        console.log(`[fileImport] 未找到 sheet "${sheetName}" 的 ID`);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_SKIPPED',
+          sheetName,
+          message: `未找到工作表 "${sheetName}"，其中的图表已跳过`,
+        });
         continue;
       }
 
       // 读取 drawing 文件
-      const drawingFile = zip.file(`xl/${drawingPath}`);
-      if (!drawingFile) {
-        console.log(`[fileImport] 未找到 drawing 文件: xl/${drawingPath}`);
+      const drawingXml = await xlsxPackage.readText(drawingPath);
+      if (drawingXml === null) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_SKIPPED',
+          sheetName,
+          sheetId,
+          message: `未找到 drawing 文件: ${drawingPath}`,
+        });
         continue;
       }
 
-      const drawingXml = await drawingFile.async('string');
-
-      // 读取 drawing 的关系文件
-      const drawingRelsPath = drawingPath
-        .replace('drawings/', 'drawings/_rels/')
-        .replace('.xml', '.xml.rels');
-      const drawingRelsFile = zip.file(`xl/${drawingRelsPath}`);
-
-      if (!drawingRelsFile) {
-        console.log(`[fileImport] 未找到 drawing 关系文件: xl/${drawingRelsPath}`);
-        continue;
-      }
-
-      const drawingRels = await drawingRelsFile.async('string');
-
-      // 解析图表 rId 到 chart 路径的映射
-      const chartRIdMap = new Map<string, string>();
-      const chartRelMatches = drawingRels.matchAll(
-        /<Relationship[^>]*Id="([^"]*)"[^>]*Target="([^"]*)"/g,
-      );
-      for (const match of chartRelMatches) {
-        if (match[2].includes('chart')) {
-          chartRIdMap.set(match[1], match[2].replace('../', ''));
-        }
-      }
+      // 解析图表 rId 到 chart 路径的映射
+      const chartRIdMap = new Map<string, string>();
+      for (const rel of await xlsxPackage.getRelationships(drawingPath)) {
+        if (!rel.external && isRelType(rel, 'chart')) {
+          chartRIdMap.set(rel.id, rel.target);
+        }
+      }
+      if (chartRIdMap.size === 0) continue;
 
       // 解析 drawing 中的图表锚点
       // 匹配 twoCellAnchor 或 oneCellAnchor 中的图表引用
@@ -544,15 +1508,17 @@ async function parseChartsFromXlsx(
         }
 
         // 读取图表文件，获取图表类型和数据范围
-        const chartFile = zip.file(`xl/${chartPath}`);
-        let chartType: ImportedChart['chartType'] = 'column';
-        let dataRange = '';
-        let title = '';
+        const chartXml = await xlsxPackage.readText(chartPath);
+        let chartType: ImportedChartType = 'column';
+        let dataRange: string | undefined;
+        let dataSheetName: string | undefined;
+        let title: string | undefined;
+        let series: ImportedChartSeries[] | undefined;
+        let axes: ImportedChartAxes | undefined;
+        let legendPosition: ImportedChart['legendPosition'];
         let isPivotChart = false; // 是否是透视图
 
-        if (chartFile) {
-          const chartXml = await chartFile.async('string');
-
+        if (chartXml !== null) {
           // 检查是否是透视图（pivotSource 元素表示这是透视图）
           // 透视图应该跳过，让透视表插件处理
           if (chartXml.includes('<c:pivotSource') || chartXml.includes('<c15:pivotSource')) {
@@ -560,91 +1526,14 @@ async function parseChartsFromXlsx(
             continue;
           }
 
-          // 解析图表类型
-          if (chartXml.includes('<c:barChart')) {
-            // 检查是否是水平条形图
-            const barDirMatch = chartXml.match(/<c:barDir[^>]*val="([^"]*)"/);
-            const groupingMatch = chartXml.match(/<c:grouping[^>]*val="([^"]*)"/);
-            const grouping = groupingMatch ? groupingMatch[1] : 'clustered';
-
-            if (barDirMatch && barDirMatch[1] === 'bar') {
-              // 水平条形图
-              if (grouping === 'stacked') {
-                chartType = 'stackedBar';
-              } else if (grouping === 'percentStacked') {
-                chartType = 'percentStackedBar';
-              } else {
-                chartType = 'bar';
-              }
-            } else {
-              // 垂直柱状图
-              if (grouping === 'stacked') {
-                chartType = 'column'; // 堆叠柱状图，暂时使用 column，后续可能需要扩展
-              } else if (grouping === 'percentStacked') {
-                chartType = 'column'; // 百分比堆叠柱状图，暂时使用 column
-              } else {
-                chartType = 'column';
-              }
-            }
-          } else if (chartXml.includes('<c:lineChart')) {
-            chartType = 'line';
-          } else if (chartXml.includes('<c:pieChart')) {
-            chartType = 'pie';
-          } else if (chartXml.includes('<c:doughnutChart')) {
-            chartType = 'doughnut';
-          } else if (chartXml.includes('<c:areaChart')) {
-            // 检查是否是堆叠面积图
-            const groupingMatch = chartXml.match(/<c:grouping[^>]*val="([^"]*)"/);
-            const grouping = groupingMatch ? groupingMatch[1] : 'standard';
-
-            if (grouping === 'stacked') {
-              chartType = 'stackedArea';
-            } else if (grouping === 'percentStacked') {
-              chartType = 'percentStackedArea';
-            } else {
-              chartType = 'area';
-            }
-          } else if (chartXml.includes('<c:scatterChart')) {
-            chartType = 'scatter';
-          } else if (chartXml.includes('<c:radarChart')) {
-            chartType = 'radar';
-          } else if (chartXml.includes('<c:bubbleChart')) {
-            chartType = 'bubble';
-          } else if (chartXml.includes('<c:ofPieChart')) {
-            // 复合饼图（可能包含其他变体）
-            chartType = 'pie';
-          } else if (chartXml.includes('<c:surfaceChart')) {
-            // 曲面图，映射到散点图
-            chartType = 'scatter';
-          } else if (chartXml.includes('<c:stockChart')) {
-            // 股价图，映射到组合图
-            chartType = 'combo';
-          }
-
-          // 解析数据范围 - 需要获取完整的数据区域
-          // Excel 图表的数据存储在多个位置：
-          // - <c:cat>/<c:strRef>/<c:f> 或 <c:cat>/<c:numRef>/<c:f> - 分类轴数据
-          // - <c:val>/<c:numRef>/<c:f> - 数值数据
-          // 我们需要收集所有范围并计算最小包围矩形
-          const allRanges: string[] = [];
-          const rangeMatches = chartXml.matchAll(/<c:f>([^<]+)<\/c:f>/g);
-          for (const match of rangeMatches) {
-            const range = match[1];
-            // 过滤掉非范围引用（如纯文本）
-            if (range.includes('!') && range.includes('$')) {
-              allRanges.push(range);
-            }
-          }
+          // 解析图表类型、系列、坐标轴和图例
+          ({ chartType, series, axes, legendPosition, title } = parseChartXml(chartXml, theme));
 
-          // 合并所有范围为一个最小包围矩形
-          if (allRanges.length > 0) {
-            dataRange = mergeChartDataRanges(allRanges);
-          }
-
-          // 解析标题
-          const titleMatch = chartXml.match(/<c:title>[\s\S]*?<c:t>([^<]+)<\/c:t>/);
-          if (titleMatch) {
-            title = titleMatch[1];
+          // 系列按列相邻排列时合并为单个数据源区域，否则按系列引用和缓存导入
+          const source = getChartSourceRange(series ?? []);
+          if (source) {
+            dataRange = source.range;
+            if (source.sheetName !== sheetName) dataSheetName = source.sheetName;
           }
         }
 
@@ -654,9 +1543,13 @@ async function parseChartsFromXlsx(
           sheetName,
           chartType,
           dataRange,
+          dataSheetName,
           position,
           size: { width, height },
           title,
+          series,
+          axes,
+          legendPosition,
         };
 
         if (!charts[sheetId]) {
@@ -667,66 +1560,475 @@ async function parseChartsFromXlsx(
       }
     }
   } catch (error) {
-    console.error('[fileImport] 解析图表失败:', error);
+    diagnostics.push({
+      severity: 'error',
+      code: 'CHART_FAILED',
+      message: `解析图表失败: ${getErrorMessage(error)}`,
+    });
   }
 
   return charts;
 }
 
+/** Excel 透视表 dataField subtotal -> 汇总方式 */
+const PIVOT_SUBTOTALS: Record<string, ImportedPivotSubtotal> = {
+  sum: 'sum',
+  count: 'count',
+  average: 'average',
+  max: 'max',
+  min: 'min',
+  product: 'product',
+  countNums: 'countNums',
+  stdDev: 'stdDev',
+  stdDevp: 'stdDevp',
+  var: 'var',
+  varp: 'varp',
+};
+
+/** pivotField 分类汇总属性 -> 汇总方式 */
+const PIVOT_FIELD_SUBTOTAL_ATTRS: Array<[string, ImportedPivotSubtotal]> = [
+  ['sumSubtotal', 'sum'],
+  ['countASubtotal', 'count'],
+  ['avgSubtotal', 'average'],
+  ['maxSubtotal', 'max'],
+  ['minSubtotal', 'min'],
+  ['productSubtotal', 'product'],
+  ['countSubtotal', 'countNums'],
+  ['stdDevSubtotal', 'stdDev'],
+  ['stdDevPSubtotal', 'stdDevp'],
+  ['varSubtotal', 'var'],
+  ['varPSubtotal', 'varp'],
+];
+
+/** 值显示方式名称（用于诊断信息） */
+const PIVOT_SHOW_DATA_AS_LABELS: Record<ImportedPivotShowDataAs, string> = {
+  normal: '无计算',
+  difference: '差异',
+  percent: '百分比',
+  percentDiff: '差异百分比',
+  runTotal: '按某一字段汇总',
+  percentOfRow: '行汇总的百分比',
+  percentOfCol: '列汇总的百分比',
+  percentOfTotal: '总计的百分比',
+  index: '指数',
+  percentOfParentRow: '父行汇总的百分比',
+  percentOfParentCol: '父列汇总的百分比',
+  percentOfParent: '父级汇总的百分比',
+  percentOfRunningTotal: '按某一字段汇总的百分比',
+  rankAscending: '升序排列',
+  rankDescending: '降序排列',
+};
+
+/** 透视表中代表 "Σ 数值" 的字段索引（rowFields / colFields 的 x、reference 的 field） */
+const PIVOT_DATA_FIELD_INDEX = -2;
+const PIVOT_DATA_FIELD_REFERENCE = 4294967294;
+
 /**
- * 从 xlsx 文件中解析透视表信息
- * xlsx 透视表结构：
- * - xl/pivotTables/pivotTable*.xml - 透视表定义
- * - xl/pivotCache/pivotCacheDefinition*.xml - 数据源定义
- * - xl/worksheets/sheet*.xml - 包含透视表引用
+ * 解析 styles.xml 中的自定义数字格式（按 numFmtId 索引）
  */
-async function parsePivotTablesFromXlsx(
-  arrayBuffer: ArrayBuffer,
-  sheetNameToIdMap: Map<string, string>,
-): Promise<ImportedPivotTable[]> {
-  const pivotTables: ImportedPivotTable[] = [];
+function parseNumberFormats(stylesXml: string | null): Map<number, string> {
+  const formats = new Map<number, string>();
+  const numFmts = stylesXml?.match(/<numFmts\b[^>]*>([\s\S]*?)<\/numFmts>/)?.[1] || '';
+  for (const match of numFmts.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = getXmlAttr(match[0], 'numFmtId');
+    const code = getXmlAttr(match[0], 'formatCode');
+    if (id !== null && code !== null) {
+      formats.set(parseInt(id, 10), code);
+    }
+  }
+  return formats;
+}
 
-  try {
-    const JSZip = (await import('jszip')).default;
-    const zip = await JSZip.loadAsync(arrayBuffer);
+/**
+ * 读取工作簿主题（工作簿关系中类型为 /theme 的部件）
+ * 主题部件缺失时返回默认 Office 主题
+ */
+async function readWorkbookTheme(xlsxPackage: XlsxPackage): Promise<WorkbookTheme> {
+  const themeRel = xlsxPackage.workbookRels.find((rel) => isRelType(rel, 'theme'));
+  return parseThemeXml(themeRel ? await xlsxPackage.readText(themeRel.target) : null);
+}
 
-    // 读取 xl/workbook.xml 获取 sheet 列表
-    const workbookXmlFile = zip.file('xl/workbook.xml');
-    const workbookRelsFile = zip.file('xl/_rels/workbook.xml.rels');
+/**
+ * 读取 xlsx 包中的自定义数字格式
+ */
+async function readNumberFormats(xlsxPackage: XlsxPackage): Promise<Map<number, string>> {
+  const stylesRel = xlsxPackage.workbookRels.find((rel) => isRelType(rel, 'styles'));
+  return parseNumberFormats(await xlsxPackage.readText(stylesRel?.target || 'xl/styles.xml'));
+}
+
+/**
+ * 按 numFmtId 获取数字格式，常规格式返回 undefined
+ */
+function getNumberFormat(
+  numFmtId: string | null,
+  numberFormats: Map<number, string>,
+): string | undefined {
+  if (!numFmtId) return undefined;
+  const id = parseInt(numFmtId, 10);
+  const format = numberFormats.get(id) ?? BUILTIN_NUM_FORMATS[id];
+  return format && format !== 'General' ? format : undefined;
+}
 
-    if (!workbookXmlFile || !workbookRelsFile) {
-      console.log('[fileImport] 无法找到 workbook.xml 或其关系文件');
-      return pivotTables;
+/**
+ * 解析透视表缓存项（<s>、<n>、<b>、<d>、<e>、<m>）
+ */
+function parsePivotItems(itemsXml: string): ImportedPivotItemValue[] {
+  const items: ImportedPivotItemValue[] = [];
+  for (const match of itemsXml.matchAll(/<([snbdem])\b([^>]*?)\/?>/g)) {
+    const value = getXmlAttr(`<${match[1]}${match[2]}>`, 'v');
+    switch (match[1]) {
+      case 'n':
+        items.push(Number(value));
+        break;
+      case 'b':
+        items.push(isXmlTrue(value));
+        break;
+      case 'm':
+        items.push(null);
+        break;
+      default:
+        items.push(value ?? '');
     }
+  }
+  return items;
+}
 
-    const workbookXml = await workbookXmlFile.async('string');
-    const workbookRels = await workbookRelsFile.async('string');
+/**
+ * 解析透视表缓存字段（字段名称、字段项、数字格式、计算字段、分组）
+ */
+function parsePivotCacheFields(
+  cacheXml: string,
+  numberFormats: Map<number, string>,
+): ImportedPivotCacheField[] {
+  const fields: ImportedPivotCacheField[] = [];
+  const cacheFieldRegex = /<cacheField\b([^>]*?)(?:\/>|>([\s\S]*?)<\/cacheField>)/g;
+  for (const match of cacheXml.matchAll(cacheFieldRegex)) {
+    const tag = `<cacheField${match[1]}>`;
+    const body = match[2] || '';
+    const field: ImportedPivotCacheField = { name: getXmlAttr(tag, 'name') || '', items: [] };
+
+    const numberFormat = getNumberFormat(getXmlAttr(tag, 'numFmtId'), numberFormats);
+    if (numberFormat) field.numberFormat = numberFormat;
+    const formula = getXmlAttr(tag, 'formula');
+    if (formula) field.formula = formula;
+
+    // 分组字段的项在 <fieldGroup><groupItems> 中，pivotField 的项引用分组项
+    const groupItems = body.match(/<groupItems\b[^>]*>([\s\S]*?)<\/groupItems>/)?.[1];
+    if (groupItems !== undefined) {
+      field.grouped = true;
+      field.items = parsePivotItems(groupItems);
+    } else {
+      const sharedItems = body.match(/<sharedItems\b[^>]*>([\s\S]*?)<\/sharedItems>/)?.[1];
+      if (sharedItems) field.items = parsePivotItems(sharedItems);
+    }
+    if (/<fieldGroup\b[^>]*\bpar="/.test(body)) field.grouped = true;
+
+    fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * 解析透视表缓存的数据源
+ * 数据源可以是工作表区域（sheet + ref），也可以是表格或定义名称（name）
+ */
+function resolvePivotCacheSource(
+  cacheXml: string,
+  tables: ImportedTable[],
+  definedNames: XlsxDefinedName[],
+): {
+  sourceSheetName: string;
+  sourceRange: { startRow: number; startColumn: number; endRow: number; endColumn: number };
+} | null {
+  const tag = cacheXml.match(/<worksheetSource\b[^>]*>/)?.[0];
+  // 外部工作簿数据源（r:id）无法导入
+  if (!tag || getXmlAttr(tag, 'r:id')) return null;
+
+  const toRange = (ref: string) => {
+    const range = parseA1Reference(ref);
+    if (!range || range.sheetName !== undefined) return null;
+    const { startRow, startColumn, endRow, endColumn } = range;
+    return { startRow, startColumn, endRow, endColumn };
+  };
+
+  const ref = getXmlAttr(tag, 'ref');
+  const sheet = getXmlAttr(tag, 'sheet');
+  if (ref && sheet) {
+    const sourceRange = toRange(ref);
+    return sourceRange ? { sourceSheetName: sheet, sourceRange } : null;
+  }
+
+  const name = getXmlAttr(tag, 'name');
+  if (!name) return null;
 
-    // 解析 sheet 名称和 rId 的映射
-    const sheetRIdMap = new Map<string, string>(); // sheetName -> rId
-    const sheetMatches = workbookXml.matchAll(/<sheet[^>]*name="([^"]*)"[^>]*r:id="([^"]*)"/g);
-    for (const match of sheetMatches) {
-      sheetRIdMap.set(match[1], match[2]);
+  // 表格数据源：标题行 + 数据区域，不含汇总行
+  const table = tables.find((item) => item.name.toLowerCase() === name.toLowerCase());
+  if (table) {
+    const sourceRange = toRange(table.range);
+    if (!sourceRange) return null;
+    if (table.showTotalsRow) sourceRange.endRow -= 1;
+    return { sourceSheetName: table.sheetName, sourceRange };
+  }
+
+  // 定义名称数据源（只支持引用单个区域的工作簿级名称）
+  const definedName = definedNames.find(
+    (item) => item.localSheetId === undefined && item.name.toLowerCase() === name.toLowerCase(),
+  );
+  const range = definedName ? parseA1Reference(definedName.formula) : null;
+  if (!range?.sheetName) return null;
+  const { sheetName, ...sourceRange } = range;
+  return { sourceSheetName: sheetName, sourceRange };
+}
+
+/**
+ * 解析 <pivotFields> 中的字段设置
+ * @returns 字段设置，以及每个字段的项（item x，用于解析筛选字段选中的项）
+ */
+function parsePivotFields(
+  pivotTableXml: string,
+  cacheFields: ImportedPivotCacheField[],
+  numberFormats: Map<number, string>,
+): { pivotFields: ImportedPivotField[]; fieldItems: number[][] } {
+  const pivotFields: ImportedPivotField[] = [];
+  const fieldItems: number[][] = [];
+  const axes: Record<string, ImportedPivotField['axis']> = {
+    axisRow: 'row',
+    axisCol: 'column',
+    axisPage: 'page',
+  };
+
+  const pivotFieldRegex = /<pivotField\b([^>]*?)(?:\/>|>([\s\S]*?)<\/pivotField>)/g;
+  for (const match of pivotTableXml.matchAll(pivotFieldRegex)) {
+    const tag = `<pivotField${match[1]}>`;
+    const body = match[2] || '';
+    const cacheItems = cacheFields[pivotFields.length]?.items ?? [];
+    const field: ImportedPivotField = {
+      showSubtotals:
+        getXmlAttr(tag, 'defaultSubtotal') !== '0' &&
+        getXmlAttr(tag, 'defaultSubtotal') !== 'false',
+      compact: getXmlAttr(tag, 'compact') === null || isXmlTrue(getXmlAttr(tag, 'compact')),
+      outline: getXmlAttr(tag, 'outline') === null || isXmlTrue(getXmlAttr(tag, 'outline')),
+    };
+
+    const axis = axes[getXmlAttr(tag, 'axis') || ''];
+    if (axis) field.axis = axis;
+    const name = getXmlAttr(tag, 'name');
+    if (name) field.name = name;
+    const numberFormat = getNumberFormat(getXmlAttr(tag, 'numFmtId'), numberFormats);
+    if (numberFormat) field.numberFormat = numberFormat;
+
+    const sortType = getXmlAttr(tag, 'sortType');
+    if (sortType === 'ascending' || sortType === 'descending') {
+      field.sortType = sortType;
+      // 按值字段排序：<autoSortScope> 中引用 "Σ 数值" 的值字段位置
+      const scope = body.match(/<autoSortScope\b[^>]*>([\s\S]*?)<\/autoSortScope>/)?.[1];
+      const reference = scope?.match(
+        new RegExp(
+          `<reference\\b[^>]*\\bfield="${PIVOT_DATA_FIELD_REFERENCE}"[^>]*>([\\s\\S]*?)<\\/reference>`,
+        ),
+      );
+      const dataFieldIndex = reference?.[1].match(/<x\b[^>]*\bv="(\d+)"/)?.[1];
+      if (dataFieldIndex !== undefined) field.sortByDataField = parseInt(dataFieldIndex, 10);
     }
 
-    // 解析 rId 和 sheet 文件路径的映射
-    const rIdToPathMap = new Map<string, string>(); // rId -> sheetPath
-    const relMatches = workbookRels.matchAll(
-      /<Relationship[^>]*Id="([^"]*)"[^>]*Target="([^"]*)"/g,
-    );
-    for (const match of relMatches) {
-      rIdToPathMap.set(match[1], match[2]);
+    const subtotals = PIVOT_FIELD_SUBTOTAL_ATTRS.filter(([attr]) =>
+      isXmlTrue(getXmlAttr(tag, attr)),
+    ).map(([, subtotal]) => subtotal);
+    if (subtotals.length > 0) field.subtotals = subtotals;
+
+    // <item x="0" h="1"/>：x 为缓存项序号，h 为隐藏；带 t 属性的是分类汇总项
+    const items: number[] = [];
+    const hiddenItems: ImportedPivotItemValue[] = [];
+    for (const itemMatch of body.matchAll(/<item\b[^>]*>/g)) {
+      const x = getXmlAttr(itemMatch[0], 'x');
+      if (getXmlAttr(itemMatch[0], 't') || x === null) continue;
+      const index = parseInt(x, 10);
+      items.push(index);
+      if (isXmlTrue(getXmlAttr(itemMatch[0], 'h')) && index < cacheItems.length) {
+        hiddenItems.push(cacheItems[index]);
+      }
+    }
+    if (hiddenItems.length > 0) field.hiddenItems = hiddenItems;
+
+    pivotFields.push(field);
+    fieldItems.push(items);
+  }
+
+  return { pivotFields, fieldItems };
+}
+
+/**
+ * 解析 <dataFields> 中的值字段设置
+ */
+function parsePivotDataFields(
+  pivotTableXml: string,
+  numberFormats: Map<number, string>,
+): ImportedPivotDataField[] {
+  const dataFields: ImportedPivotDataField[] = [];
+  const dataFieldsXml = pivotTableXml.match(/<dataFields\b[^>]*>([\s\S]*?)<\/dataFields>/)?.[1];
+  if (!dataFieldsXml) return dataFields;
+
+  const dataFieldRegex = /<dataField\b([^>]*?)(?:\/>|>([\s\S]*?)<\/dataField>)/g;
+  for (const match of dataFieldsXml.matchAll(dataFieldRegex)) {
+    const tag = `<dataField${match[1]}>`;
+    const dataField: ImportedPivotDataField = {
+      field: parseInt(getXmlAttr(tag, 'fld') || '0', 10),
+      subtotal: PIVOT_SUBTOTALS[getXmlAttr(tag, 'subtotal') || ''] ?? 'sum',
+      // x14 扩展的显示方式（父级汇总百分比、排名等）写在 extLst 的 pivotShowAs 中
+      showDataAs: ((match[2] || '').match(/\bpivotShowAs="([^"]*)"/)?.[1] ??
+        getXmlAttr(tag, 'showDataAs') ??
+        'normal') as ImportedPivotShowDataAs,
+    };
+
+    const name = getXmlAttr(tag, 'name');
+    if (name) dataField.name = name;
+    const numberFormat = getNumberFormat(getXmlAttr(tag, 'numFmtId'), numberFormats);
+    if (numberFormat) dataField.numberFormat = numberFormat;
+    if (dataField.showDataAs !== 'normal') {
+      const baseField = getXmlAttr(tag, 'baseField');
+      const baseItem = getXmlAttr(tag, 'baseItem');
+      if (baseField !== null) dataField.baseField = parseInt(baseField, 10);
+      if (baseItem !== null) dataField.baseItem = Number(baseItem);
     }
 
+    dataFields.push(dataField);
+  }
+  return dataFields;
+}
+
+/**
+ * 解析 <rowFields> / <colFields> 中的字段索引（含代表 "Σ 数值" 的 -2）
+ */
+function parsePivotAxisFields(pivotTableXml: string, element: 'rowFields' | 'colFields'): number[] {
+  const xml = pivotTableXml.match(
+    new RegExp(`<${element}\\b[^>]*>([\\s\\S]*?)<\\/${element}>`),
+  )?.[1];
+  if (!xml) return [];
+  return [...xml.matchAll(/<field\b[^>]*\bx="(-?\d+)"/g)].map((match) => parseInt(match[1], 10));
+}
+
+/**
+ * 解析透视表布局（报表布局、总计、"Σ 数值" 位置、样式选项）
+ */
+function parsePivotLayout(
+  pivotTableXml: string,
+  pivotFields: ImportedPivotField[],
+  rowAxisFields: number[],
+  colAxisFields: number[],
+): ImportedPivotLayout {
+  const definitionTag = pivotTableXml.match(/<pivotTableDefinition\b[^>]*>/)?.[0] || '';
+  const styleTag = pivotTableXml.match(/<pivotTableStyleInfo\b[^>]*>/)?.[0] || '';
+  const attr = (tag: string, name: string, defaultValue: boolean) => {
+    const value = getXmlAttr(tag, name);
+    return value === null ? defaultValue : isXmlTrue(value);
+  };
+
+  // 报表布局取决于行字段的 compact / outline；没有行字段时取透视表默认值
+  const firstRowField = pivotFields[rowAxisFields.find((index) => index >= 0) ?? -1];
+  const compact = firstRowField ? firstRowField.compact : attr(definitionTag, 'compact', true);
+  const outline = firstRowField ? firstRowField.outline : attr(definitionTag, 'outline', false);
+
+  const rowValueIndex = rowAxisFields.indexOf(PIVOT_DATA_FIELD_INDEX);
+  const colValueIndex = colAxisFields.indexOf(PIVOT_DATA_FIELD_INDEX);
+  const dataOnRows =
+    rowValueIndex >= 0 || (colValueIndex < 0 && attr(definitionTag, 'dataOnRows', false));
+
+  const layout: ImportedPivotLayout = {
+    form: compact ? 'compact' : outline ? 'outline' : 'tabular',
+    rowGrandTotals: attr(definitionTag, 'rowGrandTotals', true),
+    colGrandTotals: attr(definitionTag, 'colGrandTotals', true),
+    valuePosition: dataOnRows ? 'row' : 'column',
+    valueIndex: Math.max(dataOnRows ? rowValueIndex : colValueIndex, 0),
+    mergeItems: attr(definitionTag, 'mergeItem', false),
+    showRowHeaders: attr(styleTag, 'showRowHeaders', true),
+    showColHeaders: attr(styleTag, 'showColHeaders', true),
+    showRowStripes: attr(styleTag, 'showRowStripes', false),
+    showColStripes: attr(styleTag, 'showColStripes', false),
+    showLastColumn: attr(styleTag, 'showLastColumn', true),
+  };
+  const styleName = getXmlAttr(styleTag, 'name');
+  if (styleName) layout.styleName = styleName;
+  return layout;
+}
+
+/**
+ * 列出 Univer 透视表不支持的设置（用于诊断信息）
+ */
+function getUnsupportedPivotSettings(
+  pivotTable: ImportedPivotTable,
+  pivotTableXml: string,
+): string[] {
+  const { fields, cacheFields = [], pivotFields = [], dataFields = [], layout } = pivotTable;
+  const settings: string[] = [];
+  const usedFields = [
+    ...fields.rowFields,
+    ...fields.colFields,
+    ...fields.valueFields,
+    ...fields.filterFields,
+  ];
+
+  for (const index of new Set(usedFields)) {
+    const cacheField = cacheFields[index];
+    if (cacheField?.formula) settings.push(`计算字段 "${cacheField.name}"`);
+    else if (cacheField?.grouped) settings.push(`分组字段 "${cacheField.name}"`);
+  }
+  for (const dataField of dataFields) {
+    if (dataField.showDataAs !== 'normal') {
+      const label = PIVOT_SHOW_DATA_AS_LABELS[dataField.showDataAs] ?? dataField.showDataAs;
+      settings.push(
+        `值显示方式 "${label}"（${dataField.name ?? cacheFields[dataField.field]?.name ?? ''}）`,
+      );
+    }
+  }
+  // 最内层字段不显示分类汇总，不影响结果
+  const outerFields = [...fields.rowFields.slice(0, -1), ...fields.colFields.slice(0, -1)];
+  if (
+    outerFields.some(
+      (index) =>
+        pivotFields[index] && (!pivotFields[index].showSubtotals || pivotFields[index].subtotals),
+    )
+  ) {
+    settings.push('分类汇总设置');
+  }
+  if (layout && layout.form !== 'compact') {
+    settings.push(layout.form === 'outline' ? '大纲形式布局' : '表格形式布局');
+  }
+  if (layout && (!layout.rowGrandTotals || !layout.colGrandTotals)) {
+    settings.push('隐藏总计');
+  }
+  if (/<filters\b[^>]*>[\s\S]*?<filter\b/.test(pivotTableXml)) {
+    settings.push('标签筛选 / 值筛选');
+  }
+  return settings;
+}
+
+/**
+ * 从 xlsx 文件中解析透视表信息
+ * xlsx 透视表结构：
+ * - xl/pivotTables/pivotTable*.xml - 透视表定义（字段区域、值字段汇总方式、字段项筛选、排序、布局）
+ * - xl/pivotCache/pivotCacheDefinition*.xml - 数据源及缓存字段（字段名称、字段项）
+ * - xl/worksheets/sheet*.xml - 包含透视表引用
+ */
+async function parsePivotTablesFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  tables: ImportedTable[],
+  diagnostics: ImportDiagnostic[],
+): Promise<ImportedPivotTable[]> {
+  const pivotTables: ImportedPivotTable[] = [];
+
+  try {
+    const { workbookXml } = xlsxPackage;
+    const workbookRelMap = new Map(xlsxPackage.workbookRels.map((rel) => [rel.id, rel.target]));
+    const numberFormats = await readNumberFormats(xlsxPackage);
+
     // 解析 workbook.xml 中的 pivotCaches，获取 cacheId -> rId 映射
     // 格式: <pivotCache cacheId="6" r:id="rId8"/>
     const cacheIdToRIdMap = new Map<string, string>(); // cacheId -> rId
-    const pivotCacheMatches = workbookXml.matchAll(
-      /<pivotCache[^>]*cacheId="(\d+)"[^>]*r:id="([^"]*)"|<pivotCache[^>]*r:id="([^"]*)"[^>]*cacheId="(\d+)"/g,
-    );
-    for (const match of pivotCacheMatches) {
-      const cacheId = match[1] || match[4];
-      const rId = match[2] || match[3];
+    const relIdAttr = getRelIdAttrName(workbookXml);
+    for (const match of workbookXml.matchAll(/<pivotCache\b[^>]*>/g)) {
+      const cacheId = getXmlAttr(match[0], 'cacheId');
+      const rId = getXmlAttr(match[0], relIdAttr);
       if (cacheId && rId) {
         cacheIdToRIdMap.set(cacheId, rId);
       }
@@ -738,85 +2040,56 @@ async function parsePivotTablesFromXlsx(
       {
         sourceSheetName: string;
         sourceRange: { startRow: number; startColumn: number; endRow: number; endColumn: number };
+        cacheFields: ImportedPivotCacheField[];
       }
     >();
 
     // 遍历 cacheId -> rId 映射，读取对应的 pivotCacheDefinition 文件
     for (const [cacheId, rId] of cacheIdToRIdMap) {
-      const cachePath = rIdToPathMap.get(rId);
+      const cachePath = workbookRelMap.get(rId);
       if (!cachePath) {
-        console.log(`[fileImport] 未找到 cacheId=${cacheId} 对应的缓存文件路径, rId=${rId}`);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'PIVOT_SKIPPED',
+          message: `未找到透视表缓存 cacheId=${cacheId} 对应的文件路径（rId=${rId}）`,
+        });
         continue;
       }
 
-      // 路径可能是相对路径，需要处理
-      const fullCachePath = cachePath.startsWith('/') ? `xl${cachePath}` : `xl/${cachePath}`;
-      const cacheFile = zip.file(fullCachePath);
-      if (!cacheFile) {
-        console.log(`[fileImport] 未找到缓存文件: ${fullCachePath}`);
+      const cacheXml = await xlsxPackage.readText(cachePath);
+      if (cacheXml === null) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'PIVOT_SKIPPED',
+          message: `未找到透视表缓存文件: ${cachePath}`,
+        });
         continue;
       }
 
-      const cacheXml = await cacheFile.async('string');
-
-      // 解析数据源范围，例如: <cacheSource type="worksheet"><worksheetSource ref="A1:D6" sheet="Sheet1"/></cacheSource>
-      const worksheetSourceMatch = cacheXml.match(
-        /<worksheetSource[^>]*ref="([^"]*)"[^>]*sheet="([^"]*)"|<worksheetSource[^>]*sheet="([^"]*)"[^>]*ref="([^"]*)"/,
-      );
-
-      if (worksheetSourceMatch) {
-        const ref = worksheetSourceMatch[1] || worksheetSourceMatch[4];
-        const sheet = worksheetSourceMatch[2] || worksheetSourceMatch[3];
-
-        if (ref && sheet) {
-          const rangeMatch = ref.match(/([A-Z]+)(\d+):([A-Z]+)(\d+)/);
-          if (rangeMatch) {
-            const startColumn = colToNum(rangeMatch[1]);
-            const startRow = parseInt(rangeMatch[2], 10) - 1;
-            const endColumn = colToNum(rangeMatch[3]);
-            const endRow = parseInt(rangeMatch[4], 10) - 1;
-
-            pivotCacheMap.set(cacheId, {
-              sourceSheetName: sheet,
-              sourceRange: { startRow, startColumn, endRow, endColumn },
-            });
-          }
-        }
+      // 解析数据源，例如: <cacheSource type="worksheet"><worksheetSource ref="A1:D6" sheet="Sheet1"/></cacheSource>
+      const source = resolvePivotCacheSource(cacheXml, tables, xlsxPackage.definedNames);
+      if (source) {
+        pivotCacheMap.set(cacheId, {
+          ...source,
+          cacheFields: parsePivotCacheFields(cacheXml, numberFormats),
+        });
       }
     }
 
-    // 遍历每个 sheet 的关系文件，找到透视表
-    for (const [sheetName, rId] of sheetRIdMap) {
-      const sheetPath = rIdToPathMap.get(rId);
-      if (!sheetPath) continue;
-
+    // 遍历每个 sheet 的关系，找到透视表
+    for (const sheet of xlsxPackage.sheets) {
+      const sheetName = sheet.name;
       const sheetId = sheetNameToIdMap.get(sheetName);
       if (!sheetId) continue;
 
-      // 获取 sheet 的关系文件
-      const sheetRelsPath = sheetPath
-        .replace('worksheets/', 'worksheets/_rels/')
-        .replace('.xml', '.xml.rels');
-      const sheetRelsFile = zip.file(`xl/${sheetRelsPath}`);
-
-      if (!sheetRelsFile) continue;
-
-      const sheetRels = await sheetRelsFile.async('string');
-
       // 查找透视表关系
-      const pivotTableRels = [
-        ...sheetRels.matchAll(
-          /<Relationship[^>]*Id="([^"]*)"[^>]*Type="[^"]*pivotTable"[^>]*Target="([^"]*)"/g,
-        ),
-      ];
+      const pivotTableRels = sheet.rels.filter(
+        (rel) => !rel.external && isRelType(rel, 'pivotTable'),
+      );
 
       for (const pivotRel of pivotTableRels) {
-        const pivotTablePath = pivotRel[2].replace('../', '');
-        const pivotTableFile = zip.file(`xl/${pivotTablePath}`);
-
-        if (!pivotTableFile) continue;
-
-        const pivotTableXml = await pivotTableFile.async('string');
+        const pivotTableXml = await xlsxPackage.readText(pivotRel.target);
+        if (pivotTableXml === null) continue;
 
         // 解析透视表位置，例如: <location ref="A8:C12" firstHeaderRow="1" firstDataRow="2" firstDataCol="1"/>
         const locationMatch = pivotTableXml.match(/<location[^>]*ref="([^"]*)"/);
@@ -824,89 +2097,77 @@ async function parsePivotTablesFromXlsx(
         let anchorCol = 0;
         let occupiedRange: ImportedPivotTable['occupiedRange'] = undefined;
 
-        if (locationMatch) {
-          const refRange = locationMatch[1];
-          // 解析完整范围，如 A8:C12
-          const fullRangeMatch = refRange.match(/([A-Z]+)(\d+):([A-Z]+)(\d+)/);
-          if (fullRangeMatch) {
-            anchorCol = colToNum(fullRangeMatch[1]);
-            anchorRow = parseInt(fullRangeMatch[2], 10) - 1;
-            occupiedRange = {
-              startRow: parseInt(fullRangeMatch[2], 10) - 1,
-              startColumn: colToNum(fullRangeMatch[1]),
-              endRow: parseInt(fullRangeMatch[4], 10) - 1,
-              endColumn: colToNum(fullRangeMatch[3]),
-            };
-          } else {
-            // 单个单元格
-            const cellMatch = refRange.match(/([A-Z]+)(\d+)/);
-            if (cellMatch) {
-              anchorCol = colToNum(cellMatch[1]);
-              anchorRow = parseInt(cellMatch[2], 10) - 1;
-            }
+        const location = locationMatch ? parseA1Reference(locationMatch[1]) : null;
+        if (location) {
+          anchorCol = location.startColumn;
+          anchorRow = location.startRow;
+          // 单个单元格只有锚点，没有占用范围
+          if (location.endRow > location.startRow || location.endColumn > location.startColumn) {
+            const { startRow, startColumn, endRow, endColumn } = location;
+            occupiedRange = { startRow, startColumn, endRow, endColumn };
           }
         }
 
         // 解析透视表名称
-        const nameMatch = pivotTableXml.match(/<pivotTableDefinition[^>]*name="([^"]*)"/);
-        const name = nameMatch ? nameMatch[1] : undefined;
+        const definitionTag = pivotTableXml.match(/<pivotTableDefinition\b[^>]*>/)?.[0] || '';
+        const name = getXmlAttr(definitionTag, 'name') ?? undefined;
 
         // 解析 cacheId
-        const cacheIdMatch = pivotTableXml.match(/<pivotTableDefinition[^>]*cacheId="(\d+)"/);
-        const cacheId = cacheIdMatch ? cacheIdMatch[1] : '1';
+        const cacheId = getXmlAttr(definitionTag, 'cacheId') ?? '1';
 
         // 获取数据源信息
         const cacheInfo = pivotCacheMap.get(cacheId);
         if (!cacheInfo) {
-          console.log(`[fileImport] 未找到透视表的数据源缓存: cacheId=${cacheId}`);
+          diagnostics.push({
+            severity: 'warning',
+            code: 'PIVOT_SKIPPED',
+            sheetName,
+            sheetId,
+            range: locationMatch?.[1],
+            message: `透视表 "${name ?? ''}" 的数据源不是工作表区域或缓存缺失（cacheId=${cacheId}），保留为静态单元格`,
+          });
           continue;
         }
 
         // 解析字段配置
-        const rowFields: number[] = [];
-        const colFields: number[] = [];
-        const valueFields: number[] = [];
-        const filterFields: number[] = [];
-
-        // 解析行字段: <rowFields count="1"><field x="0"/></rowFields>
-        const rowFieldsMatch = pivotTableXml.match(/<rowFields[^>]*>([\s\S]*?)<\/rowFields>/);
-        if (rowFieldsMatch) {
-          const fieldMatches = rowFieldsMatch[1].matchAll(/<field[^>]*x="(-?\d+)"/g);
-          for (const match of fieldMatches) {
-            const fieldIndex = parseInt(match[1], 10);
-            if (fieldIndex >= 0) {
-              rowFields.push(fieldIndex);
-            }
-          }
-        }
+        const { cacheFields } = cacheInfo;
+        const { pivotFields, fieldItems } = parsePivotFields(
+          pivotTableXml,
+          cacheFields,
+          numberFormats,
+        );
+        const dataFields = parsePivotDataFields(pivotTableXml, numberFormats);
 
-        // 解析列字段: <colFields count="1"><field x="1"/></colFields>
-        const colFieldsMatch = pivotTableXml.match(/<colFields[^>]*>([\s\S]*?)<\/colFields>/);
-        if (colFieldsMatch) {
-          const fieldMatches = colFieldsMatch[1].matchAll(/<field[^>]*x="(-?\d+)"/g);
-          for (const match of fieldMatches) {
-            const fieldIndex = parseInt(match[1], 10);
-            if (fieldIndex >= 0) {
-              colFields.push(fieldIndex);
-            }
-          }
-        }
+        // 行字段 / 列字段: <rowFields count="2"><field x="0"/><field x="-2"/></rowFields>
+        // x="-2" 表示多个值字段时的 "Σ 数值"
+        const rowAxisFields = parsePivotAxisFields(pivotTableXml, 'rowFields');
+        const colAxisFields = parsePivotAxisFields(pivotTableXml, 'colFields');
+        const rowFields = rowAxisFields.filter((index) => index >= 0);
+        const colFields = colAxisFields.filter((index) => index >= 0);
 
-        // 解析值字段: <dataFields count="1"><dataField name="Sum of Sales" fld="2"/></dataFields>
-        const dataFieldsMatch = pivotTableXml.match(/<dataFields[^>]*>([\s\S]*?)<\/dataFields>/);
-        if (dataFieldsMatch) {
-          const fieldMatches = dataFieldsMatch[1].matchAll(/<dataField[^>]*fld="(\d+)"/g);
-          for (const match of fieldMatches) {
-            valueFields.push(parseInt(match[1], 10));
-          }
-        }
+        // 值字段: <dataFields count="1"><dataField name="Sum of Sales" fld="2"/></dataFields>
+        const valueFields = dataFields.map((dataField) => dataField.field);
 
-        // 解析筛选字段: <pageFields count="1"><pageField fld="3"/></pageFields>
+        // 筛选字段: <pageFields count="1"><pageField fld="3" item="1"/></pageFields>
+        // item 为 pivotField 项的位置，表示筛选字段选中的单个项
+        const filterFields: number[] = [];
         const pageFieldsMatch = pivotTableXml.match(/<pageFields[^>]*>([\s\S]*?)<\/pageFields>/);
         if (pageFieldsMatch) {
-          const fieldMatches = pageFieldsMatch[1].matchAll(/<pageField[^>]*fld="(\d+)"/g);
-          for (const match of fieldMatches) {
-            filterFields.push(parseInt(match[1], 10));
+          for (const match of pageFieldsMatch[1].matchAll(/<pageField\b[^>]*>/g)) {
+            const fieldIndex = parseInt(getXmlAttr(match[0], 'fld') || '0', 10);
+            filterFields.push(fieldIndex);
+
+            const item = getXmlAttr(match[0], 'item');
+            const cacheItemIndex =
+              item !== null ? fieldItems[fieldIndex]?.[parseInt(item, 10)] : undefined;
+            const cacheItems = cacheFields[fieldIndex]?.items ?? [];
+            if (
+              pivotFields[fieldIndex] &&
+              cacheItemIndex !== undefined &&
+              cacheItemIndex < cacheItems.length
+            ) {
+              pivotFields[fieldIndex].selectedItem = cacheItems[cacheItemIndex];
+            }
           }
         }
 
@@ -946,106 +2207,1231 @@ async function parsePivotTablesFromXlsx(
             filterFields,
           },
           name,
+          cacheFields,
+          pivotFields,
+          dataFields,
+          layout: parsePivotLayout(pivotTableXml, pivotFields, rowAxisFields, colAxisFields),
+        };
+
+        const unsupported = getUnsupportedPivotSettings(pivotTable, pivotTableXml);
+        if (unsupported.length > 0) {
+          pivotTable.unsupportedSettings = unsupported;
+          diagnostics.push({
+            severity: 'warning',
+            code: 'PIVOT_SETTING_UNSUPPORTED',
+            sheetName,
+            sheetId,
+            range: locationMatch?.[1],
+            message: `透视表 "${name ?? ''}" 的以下设置 Univer 不支持，添加时将忽略：${unsupported.join('、')}`,
+          });
+        }
+
+        pivotTables.push(pivotTable);
+      }
+    }
+  } catch (error) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'PIVOT_FAILED',
+      message: `解析透视表失败: ${getErrorMessage(error)}`,
+    });
+  }
+
+  return pivotTables;
+}
+
+/**
+ * 解析工作表 XML 中的排序状态
+ * <sortState> 可以位于 <autoFilter> 内（筛选后排序），也可以直接位于工作表下
+ * 格式: <sortState ref="A2:D10"><sortCondition ref="B2:B10" descending="1"/></sortState>
+ */
+function parseSortState(sheetXml: string, dxfColors: DxfColors[]): ImportedSort | null {
+  const match = sheetXml.match(/<sortState\b([^>]*)>([\s\S]*?)<\/sortState>/);
+  if (!match) return null;
+  const tag = `<sortState${match[1]}>`;
+  const sortRange = parseA1Reference(getXmlAttr(tag, 'ref') || '');
+  if (!sortRange) return null;
+  const columnSort = isXmlTrue(getXmlAttr(tag, 'columnSort'));
+
+  // 排序范围包含筛选标题行时去掉标题行，避免重新排序时打乱标题
+  let range = formatA1Range(sortRange);
+  const autoFilterTag = sheetXml.match(/<autoFilter\b[^>]*>/)?.[0];
+  const filterRange = autoFilterTag
+    ? parseA1Reference(getXmlAttr(autoFilterTag, 'ref') || '')
+    : null;
+  if (
+    !columnSort &&
+    filterRange?.startRow === sortRange.startRow &&
+    sortRange.endRow > sortRange.startRow
+  ) {
+    range = formatA1Range({ ...sortRange, startRow: sortRange.startRow + 1 });
+  }
+
+  const conditions: ImportedSortCondition[] = [];
+  for (const item of match[2].matchAll(/<sortCondition\b[^>]*>/g)) {
+    const conditionTag = item[0];
+    const conditionRange = parseA1Reference(getXmlAttr(conditionTag, 'ref') || '');
+    if (!conditionRange) continue;
+
+    const sortBy = (getXmlAttr(conditionTag, 'sortBy') || 'value') as ImportedSortBy;
+    const condition: ImportedSortCondition = {
+      column: columnSort
+        ? conditionRange.startRow - sortRange.startRow
+        : conditionRange.startColumn - sortRange.startColumn,
+      ascending: !isXmlTrue(getXmlAttr(conditionTag, 'descending')),
+    };
+    if (sortBy !== 'value') {
+      condition.sortBy = sortBy;
+    }
+    const dxfId = getXmlAttr(conditionTag, 'dxfId');
+    const dxf = dxfId === null ? undefined : dxfColors[Number(dxfId)];
+    const color = sortBy === 'cellColor' ? dxf?.fill : sortBy === 'fontColor' ? dxf?.font : null;
+    if (color) {
+      condition.color = color;
+    }
+    const customList = getXmlAttr(conditionTag, 'customList');
+    if (customList) {
+      condition.customList = customList.split(',');
+    }
+    if (sortBy === 'icon') {
+      condition.iconSet = getXmlAttr(conditionTag, 'iconSet') ?? undefined;
+      const iconId = getXmlAttr(conditionTag, 'iconId');
+      condition.iconId = iconId === null ? undefined : Number(iconId);
+    }
+    conditions.push(condition);
+  }
+  if (conditions.length === 0) return null;
+
+  const sort: ImportedSort = { range, conditions };
+  if (isXmlTrue(getXmlAttr(tag, 'caseSensitive'))) sort.caseSensitive = true;
+  if (columnSort) sort.columnSort = true;
+  const sortMethod = getXmlAttr(tag, 'sortMethod');
+  if (sortMethod && sortMethod !== 'none') sort.sortMethod = sortMethod;
+  return sort;
+}
+
+/**
+ * 从 xlsx 文件中直接解析排序信息
+ * Excel 的排序信息存储在工作表 XML 的 <sortState> 元素中（独立或位于 <autoFilter> 内）
+ *
+ * 工作表文件经 workbook.xml.rels 定位并按名称对应，不依赖 sheetN.xml 的编号：
+ * 调整过顺序或删除过工作表的文件、其他工具生成的文件中编号与位置不一致；
+ * 图表工作表、宏表不是普通工作表，跳过
+ */
+async function parseSortsFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  dxfColors: DxfColors[],
+  diagnostics: ImportDiagnostic[],
+): Promise<Record<string, ImportedSort>> {
+  const sorts: Record<string, ImportedSort> = {};
+
+  for (const sheet of xlsxPackage.sheets) {
+    const sheetId = sheetNameToIdMap.get(sheet.name);
+    if (sheet.kind !== 'worksheet' || !sheetId || !sheet.path) continue;
+
+    try {
+      const sheetXml = await xlsxPackage.readText(sheet.path);
+      const sort = sheetXml ? parseSortState(sheetXml, dxfColors) : null;
+      if (sort) {
+        sorts[sheetId] = sort;
+      }
+    } catch (error) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'SORT_FAILED',
+        sheetName: sheet.name,
+        sheetId,
+        message: `解析排序失败: ${getErrorMessage(error)}`,
+      });
+    }
+  }
+
+  return sorts;
+}
+
+/** Excel 数据验证类型 -> Univer DataValidationType（none 即"任何值"） */
+const EXCEL_TO_UNIVER_VALIDATION_TYPE: Record<string, DataValidationType> = {
+  none: DataValidationType.ANY,
+  whole: DataValidationType.WHOLE,
+  decimal: DataValidationType.DECIMAL,
+  list: DataValidationType.LIST,
+  date: DataValidationType.DATE,
+  time: DataValidationType.TIME,
+  textLength: DataValidationType.TEXT_LENGTH,
+  custom: DataValidationType.CUSTOM,
+};
+
+/** Excel 数据验证出错样式 -> Univer DataValidationErrorStyle */
+const EXCEL_TO_UNIVER_ERROR_STYLE: Record<string, DataValidationErrorStyle> = {
+  stop: DataValidationErrorStyle.STOP,
+  warning: DataValidationErrorStyle.WARNING,
+  information: DataValidationErrorStyle.INFO,
+};
+
+/**
+ * 公式中是否包含相对引用（如 A1、$A1）
+ * 带相对引用的规则以所在范围左上角为基准，不同范围的规则不能合并
+ */
+function hasRelativeReference(formula: string | undefined): boolean {
+  if (!formula) return false;
+  // 去掉字符串常量和绝对引用（$A$1），剩下的单元格引用即为相对引用
+  const code = formula.replace(/"(?:[^"]|"")*"/g, '').replace(/\$[A-Za-z]{1,3}\$\d+/g, '');
+  return /(?:^|[^A-Za-z0-9_.])\$?[A-Za-z]{1,3}\$?\d+(?![\w(])/.test(code);
+}
+
+/**
+ * 是否为带工作表名的区域引用（如 Sheet1!$A$1:$B$5、'My Sheet'!$A:$A、Sheet1!$1:$2）
+ * 多个区域以逗号分隔时（如打印区域）每一段都需要是区域引用
+ */
+function isSheetRangeRef(formula: string): boolean {
+  const references = parseA1References(formula);
+  return references.length > 0 && references.every((ref) => ref.sheetName !== undefined);
+}
+
+/**
+ * 按名称查找定义名称（工作表级名称优先）
+ */
+function findDefinedName(
+  definedNames: XlsxDefinedName[],
+  name: string,
+  sheetIndex: number,
+): XlsxDefinedName | undefined {
+  const lowerName = name.toLowerCase();
+  const candidates = definedNames.filter((item) => item.name.toLowerCase() === lowerName);
+  return (
+    candidates.find((item) => item.localSheetId === sheetIndex) ??
+    candidates.find((item) => item.localSheetId === undefined)
+  );
+}
+
+/**
+ * 转换数据验证公式为 Univer 格式
+ * - 列表常量 "A,B,C" 去掉引号，作为逗号分隔的选项
+ * - 数字常量（整数、小数、日期/时间序列号、文本长度）保持原样
+ * - 其余（单元格引用、跨表引用、定义名称、公式）加上 = 前缀；单独的定义名称替换为其引用
+ */
+function convertValidationFormula(
+  formula: string | undefined,
+  type: string,
+  definedNames: XlsxDefinedName[],
+  sheetIndex: number,
+): string | undefined {
+  if (formula === undefined) return undefined;
+  const text = formula.trim().replace(/^=/, '');
+  if (!text) return undefined;
+
+  if (type === 'list' && /^"[\s\S]*"$/.test(text)) {
+    return text.slice(1, -1).replace(/""/g, '"');
+  }
+  if (type !== 'list' && type !== 'custom' && /^-?\d+(?:\.\d+)?(?:E[+-]?\d+)?$/i.test(text)) {
+    return text;
+  }
+
+  const definedName = /^[A-Za-z_\\][\w.\\]*$/.test(text)
+    ? findDefinedName(definedNames, text, sheetIndex)
+    : undefined;
+  // 只展开单纯的区域引用，动态名称（OFFSET 等公式）保留名称本身
+  if (definedName && isSheetRangeRef(definedName.formula)) {
+    return `=${definedName.formula}`;
+  }
+  return `=${text}`;
+}
+
+/**
+ * 直接解析 xlsx 文件获取数据验证
+ *
+ * ExcelJS 会把数据验证展开到每个单元格，并把引用其他单元格的数字/日期条件解析成 NaN，
+ * 也不读取扩展区（x14:dataValidations，跨表列表来源常保存在这里）。
+ * 这里直接读取工作表 XML，保留原始范围和公式，并把条件相同的规则合并为一条多范围规则。
+ *
+ * @param xlsxPackage 已解析的 xlsx 包
+ * @param sheetNameToIdMap 工作表名称到 sheetId 的映射
+ * @param diagnostics 诊断信息收集器
+ * @returns 按 sheetId 分组的 Univer 数据验证规则
+ */
+async function parseDataValidationsFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  diagnostics: ImportDiagnostic[],
+): Promise<Record<string, IDataValidationRule[]>> {
+  const validations: Record<string, IDataValidationRule[]> = {};
+
+  for (const sheet of xlsxPackage.sheets) {
+    const sheetId = sheetNameToIdMap.get(sheet.name);
+    if (sheet.kind !== 'worksheet' || !sheetId) continue;
+
+    try {
+      const sheetXml = await xlsxPackage.readText(sheet.path);
+      if (!sheetXml) continue;
+
+      const rules: IDataValidationRule[] = [];
+      // 合并条件相同的规则：规则键 -> 规则
+      const mergeable = new Map<string, IDataValidationRule>();
+
+      // 同时匹配 <dataValidation> 和扩展区的 <x14:dataValidation>
+      const validationRegex =
+        /<(?:\w+:)?dataValidation\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?dataValidation>)/g;
+      for (const match of sheetXml.matchAll(validationRegex)) {
+        const tag = `<dataValidation${match[1]}>`;
+        const body = match[2] || '';
+        const sqref =
+          getXmlAttr(tag, 'sqref') || body.match(/<(?:\w+:)?sqref>([^<]*)<\//)?.[1] || '';
+        const readFormula = (name: string) => {
+          const content = body.match(
+            new RegExp(`<(?:\\w+:)?${name}>([\\s\\S]*?)<\\/(?:\\w+:)?${name}>`),
+          )?.[1];
+          if (content === undefined) return undefined;
+          // 扩展区公式包在 <xm:f> 中
+          return decodeXmlEntities(content.replace(/<\/?(?:\w+:)?f>/g, ''));
+        };
+
+        const excelType = getXmlAttr(tag, 'type') || 'none';
+        const type = EXCEL_TO_UNIVER_VALIDATION_TYPE[excelType];
+        const ranges: A1Range[] = parseA1References(sqref);
+        if (!type || ranges.length === 0) {
+          diagnostics.push({
+            severity: 'warning',
+            code: 'DATA_VALIDATION_SKIPPED',
+            sheetName: sheet.name,
+            sheetId,
+            range: sqref,
+            message: type ? '数据验证没有有效范围' : `不支持的数据验证类型: ${excelType}`,
+          });
+          continue;
+        }
+
+        const prompt = getXmlAttr(tag, 'prompt') ?? undefined;
+        // "任何值"类型只有输入提示有意义
+        if (type === DataValidationType.ANY && !prompt) continue;
+
+        const formula1 = convertValidationFormula(
+          readFormula('formula1'),
+          excelType,
+          xlsxPackage.definedNames,
+          sheet.index,
+        );
+        const formula2 = convertValidationFormula(
+          readFormula('formula2'),
+          excelType,
+          xlsxPackage.definedNames,
+          sheet.index,
+        );
+        const needsOperator =
+          type !== DataValidationType.ANY &&
+          type !== DataValidationType.LIST &&
+          type !== DataValidationType.CUSTOM;
+
+        const rule: Omit<IDataValidationRule, 'uid' | 'ranges'> = {
+          type,
+          operator: needsOperator
+            ? ((getXmlAttr(tag, 'operator') || 'between') as DataValidationOperator)
+            : undefined,
+          formula1,
+          formula2,
+          allowBlank: getXmlAttr(tag, 'allowBlank') === '1',
+          // Excel 的 showDropDown="1" 表示隐藏下拉箭头，与 Univer 含义相反
+          showDropDown:
+            type === DataValidationType.LIST ? getXmlAttr(tag, 'showDropDown') !== '1' : undefined,
+          errorStyle:
+            EXCEL_TO_UNIVER_ERROR_STYLE[getXmlAttr(tag, 'errorStyle') || 'stop'] ??
+            DataValidationErrorStyle.STOP,
+          showErrorMessage: getXmlAttr(tag, 'showErrorMessage') === '1',
+          error: getXmlAttr(tag, 'error') ?? undefined,
+          errorTitle: getXmlAttr(tag, 'errorTitle') ?? undefined,
+          showInputMessage: getXmlAttr(tag, 'showInputMessage') === '1',
+          prompt,
+          promptTitle: getXmlAttr(tag, 'promptTitle') ?? undefined,
         };
 
-        pivotTables.push(pivotTable);
-      }
+        const canMerge = !hasRelativeReference(formula1) && !hasRelativeReference(formula2);
+        const key = canMerge ? JSON.stringify(rule) : '';
+        const existing = key ? mergeable.get(key) : undefined;
+        if (existing) {
+          existing.ranges.push(...ranges);
+          continue;
+        }
+
+        const univerRule: IDataValidationRule = { ...rule, uid: nanoid(), ranges };
+        rules.push(univerRule);
+        if (key) mergeable.set(key, univerRule);
+      }
+
+      if (rules.length > 0) {
+        validations[sheetId] = rules;
+      }
+    } catch (error) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'DATA_VALIDATION_FAILED',
+        sheetName: sheet.name,
+        sheetId,
+        message: `解析数据验证失败: ${getErrorMessage(error)}`,
+      });
+    }
+  }
+
+  return validations;
+}
+
+/**
+ * 解析 workbook.xml 中的定义名称
+ *
+ * 工作表级名称（localSheetId）映射为导入后的 sheetId；引用外部工作簿或已失效（#REF!）的名称无法在
+ * Univer 中使用，跳过并记录诊断信息。引用表格的名称（如 Table1[Amount]）改写为 A1 引用。
+ *
+ * @param xlsxPackage 已解析的 xlsx 包
+ * @param sheetNameToIdMap 工作表名称到 sheetId 的映射
+ * @param diagnostics 诊断信息收集器
+ * @param tables 工作簿中的表格（用于改写结构化引用）
+ */
+function parseDefinedNamesFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  diagnostics: ImportDiagnostic[],
+  tables: StructuredReferenceTable[] = [],
+): ImportedDefinedName[] {
+  const definedNames: ImportedDefinedName[] = [];
+
+  for (const item of xlsxPackage.definedNames) {
+    const rewritten = rewriteStructuredReferences(item.formula.trim(), tables);
+    const formula = rewritten.formula;
+    const scopeSheet =
+      item.localSheetId === undefined ? undefined : xlsxPackage.sheets[item.localSheetId];
+    const sheetId = scopeSheet ? sheetNameToIdMap.get(scopeSheet.name) : undefined;
+    const skip = (message: string) =>
+      diagnostics.push({
+        severity: 'warning',
+        code: 'DEFINED_NAME_SKIPPED',
+        sheetName: scopeSheet?.name,
+        sheetId,
+        message: `定义名称 ${item.name} ${message}`,
+      });
+
+    if (!item.name || !formula) continue;
+    if (item.localSheetId !== undefined && !sheetId) {
+      skip('的作用域工作表未导入（如图表工作表），已跳过');
+      continue;
+    }
+    if (/\[\d+\]/.test(formula)) {
+      skip('引用了外部工作簿，已跳过');
+      continue;
+    }
+    if (/^#REF!$/i.test(formula) || /(?:^|[!,])#REF!/i.test(formula)) {
+      skip('的引用已失效（#REF!），已跳过');
+      continue;
+    }
+    if (rewritten.unresolved.length > 0) {
+      skip(`的结构化引用 ${rewritten.unresolved.join('、')} 无法解析，已跳过`);
+      continue;
+    }
+
+    definedNames.push({
+      name: item.name,
+      formulaOrRefString: isSheetRangeRef(formula) ? formula : `=${formula}`,
+      sheetId,
+      sheetName: scopeSheet?.name,
+      hidden: item.hidden,
+      builtIn: item.name.toLowerCase().startsWith('_xlnm.'),
+      comment: item.comment,
+    });
+  }
+
+  return definedNames;
+}
+
+/**
+ * 差异格式（dxf）中的颜色
+ */
+interface DxfColors {
+  /** 填充色 */
+  fill?: string;
+  /** 字体颜色 */
+  font?: string;
+}
+
+/**
+ * 解析 XML 颜色元素（<color rgb="FFFF0000"/>、<bgColor theme="4" tint="0.4"/> 等）
+ */
+function parseXmlColor(tag: string | undefined, styleContext: WorkbookStyleContext): string | null {
+  if (!tag) return null;
+  const readNumber = (name: string) => {
+    const value = getXmlAttr(tag, name);
+    return value === null ? undefined : Number(value);
+  };
+  return parseExcelColor(
+    {
+      argb: getXmlAttr(tag, 'rgb') ?? undefined,
+      theme: readNumber('theme'),
+      tint: readNumber('tint'),
+      indexed: readNumber('indexed'),
+      auto: isXmlTrue(getXmlAttr(tag, 'auto')),
+    },
+    styleContext,
+  );
+}
+
+/**
+ * 解析 styles.xml 中的差异格式颜色（按 dxfId 索引）
+ */
+function parseDxfColors(stylesXml: string | null, styleContext: WorkbookStyleContext): DxfColors[] {
+  const section = stylesXml?.match(/<dxfs\b[^>]*>([\s\S]*?)<\/dxfs>/)?.[1];
+  if (!section) return [];
+  return [...section.matchAll(/<dxf\b[^>]*?(?:\/>|>([\s\S]*?)<\/dxf>)/g)].map((match) => {
+    const body = match[1] || '';
+    const fill = body.match(/<fill\b[^>]*>([\s\S]*?)<\/fill>/)?.[1] || '';
+    const font = body.match(/<font\b[^>]*>([\s\S]*?)<\/font>/)?.[1] || '';
+    // dxf 的纯色填充保存在 bgColor 中
+    const fillColor =
+      parseXmlColor(fill.match(/<bgColor\b[^>]*>/)?.[0], styleContext) ||
+      parseXmlColor(fill.match(/<fgColor\b[^>]*>/)?.[0], styleContext);
+    const fontColor = parseXmlColor(font.match(/<color\b[^>]*>/)?.[0], styleContext);
+    return { fill: fillColor ?? undefined, font: fontColor ?? undefined };
+  });
+}
+
+/**
+ * 读取工作簿的差异格式颜色
+ */
+async function readDxfColors(
+  xlsxPackage: XlsxPackage,
+  styleContext: WorkbookStyleContext,
+): Promise<DxfColors[]> {
+  const stylesRel = xlsxPackage.workbookRels.find((rel) => isRelType(rel, 'styles'));
+  return parseDxfColors(
+    await xlsxPackage.readText(stylesRel?.target || 'xl/styles.xml'),
+    styleContext,
+  );
+}
+
+/**
+ * 解析 styles.xml 中的自定义调色板（<colors><indexedColors>）
+ * 自定义调色板按顺序覆盖默认调色板的 indexed 0 起的颜色
+ */
+function parseIndexedColors(stylesXml: string | null): string[] {
+  const section = stylesXml?.match(/<indexedColors\b[^>]*>([\s\S]*?)<\/indexedColors>/)?.[1];
+  if (!section) return XLS_DEFAULT_PALETTE;
+  const colors = [...XLS_DEFAULT_PALETTE];
+  [...section.matchAll(/<rgbColor\b[^>]*>/g)].forEach((match, index) => {
+    const rgb = getXmlAttr(match[0], 'rgb');
+    if (rgb && /^(?:[0-9a-f]{2})?[0-9a-f]{6}$/i.test(rgb)) {
+      colors[index] = rgb.slice(-6).toUpperCase();
+    }
+  });
+  return colors;
+}
+
+/**
+ * 读取工作簿的 indexed 调色板
+ */
+async function readIndexedColors(xlsxPackage: XlsxPackage): Promise<string[]> {
+  const stylesRel = xlsxPackage.workbookRels.find((rel) => isRelType(rel, 'styles'));
+  return parseIndexedColors(await xlsxPackage.readText(stylesRel?.target || 'xl/styles.xml'));
+}
+
+/**
+ * 解析 <autoFilter> 中的 <filterColumn> 条件（工作表筛选和表格筛选共用）
+ * @param autoFilterXml <autoFilter> 元素内容
+ * @param dxfColors 差异格式颜色（用于按颜色筛选）
+ */
+function parseFilterColumns(autoFilterXml: string, dxfColors: DxfColors[]): ImportedFilterColumn[] {
+  const columns: ImportedFilterColumn[] = [];
+  const readNumber = (tag: string, name: string) => {
+    const value = getXmlAttr(tag, name);
+    return value === null || value === '' ? undefined : Number(value);
+  };
+
+  const columnRegex = /<filterColumn\b([^>]*?)(?:\/>|>([\s\S]*?)<\/filterColumn>)/g;
+  for (const match of autoFilterXml.matchAll(columnRegex)) {
+    const body = match[2] || '';
+    const column: ImportedFilterColumn = {
+      column: parseInt(getXmlAttr(`<filterColumn${match[1]}>`, 'colId') || '0', 10),
+    };
+
+    const filters = body.match(/<filters\b([^>]*?)(?:\/>|>([\s\S]*?)<\/filters>)/);
+    if (filters) {
+      const filtersBody = filters[2] || '';
+      column.values = [...filtersBody.matchAll(/<filter\b[^>]*>/g)].map(
+        (item) => getXmlAttr(item[0], 'val') ?? '',
+      );
+      if (isXmlTrue(getXmlAttr(`<filters${filters[1]}>`, 'blank'))) {
+        column.blank = true;
+      }
+      const dateGroups = [...filtersBody.matchAll(/<dateGroupItem\b[^>]*>/g)].map((item) => ({
+        grouping: (getXmlAttr(item[0], 'dateTimeGrouping') || 'year') as ImportedFilterDateGrouping,
+        year: readNumber(item[0], 'year') ?? 0,
+        month: readNumber(item[0], 'month'),
+        day: readNumber(item[0], 'day'),
+        hour: readNumber(item[0], 'hour'),
+        minute: readNumber(item[0], 'minute'),
+        second: readNumber(item[0], 'second'),
+      }));
+      if (dateGroups.length > 0) {
+        column.dateGroups = dateGroups;
+      }
+    }
+
+    const customFilters = body.match(/<customFilters\b([^>]*)>([\s\S]*?)<\/customFilters>/);
+    if (customFilters) {
+      column.custom = {
+        and: isXmlTrue(getXmlAttr(`<customFilters${customFilters[1]}>`, 'and')),
+        conditions: [...customFilters[2].matchAll(/<customFilter\b[^>]*>/g)].map((item) => ({
+          operator: (getXmlAttr(item[0], 'operator') || 'equal') as ImportedFilterOperator,
+          value: getXmlAttr(item[0], 'val') ?? '',
+        })),
+      };
+    }
+
+    const top10 = body.match(/<top10\b[^>]*>/)?.[0];
+    if (top10) {
+      column.top10 = {
+        top: getXmlAttr(top10, 'top') === null || isXmlTrue(getXmlAttr(top10, 'top')),
+        percent: isXmlTrue(getXmlAttr(top10, 'percent')),
+        value: readNumber(top10, 'val') ?? 10,
+        filterValue: readNumber(top10, 'filterVal'),
+      };
+    }
+
+    const dynamicFilter = body.match(/<dynamicFilter\b[^>]*>/)?.[0];
+    if (dynamicFilter) {
+      column.dynamic = {
+        type: getXmlAttr(dynamicFilter, 'type') || '',
+        value: readNumber(dynamicFilter, 'val'),
+        maxValue: readNumber(dynamicFilter, 'maxVal'),
+      };
+    }
+
+    const colorFilter = body.match(/<colorFilter\b[^>]*>/)?.[0];
+    if (colorFilter) {
+      const cellColor =
+        getXmlAttr(colorFilter, 'cellColor') === null ||
+        isXmlTrue(getXmlAttr(colorFilter, 'cellColor'));
+      const dxf = dxfColors[readNumber(colorFilter, 'dxfId') ?? -1];
+      column.color = { cellColor, color: cellColor ? dxf?.fill : dxf?.font };
+    }
+
+    const iconFilter = body.match(/<iconFilter\b[^>]*>/)?.[0];
+    if (iconFilter) {
+      column.icon = {
+        iconSet: getXmlAttr(iconFilter, 'iconSet') ?? undefined,
+        iconId: readNumber(iconFilter, 'iconId'),
+      };
+    }
+
+    if (Object.keys(column).length > 1) {
+      columns.push(column);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * 筛选条件中 Univer 不支持的部分
+ * @returns 不支持的条件名称，全部支持时返回空数组
+ */
+function getUnsupportedFilterCriteria(column: ImportedFilterColumn): string[] {
+  const unsupported: string[] = [];
+  if (column.dateGroups?.length) unsupported.push('日期分组');
+  if (column.top10) unsupported.push('前 10 项');
+  if (column.dynamic) unsupported.push(`动态筛选（${column.dynamic.type}）`);
+  if (column.color) unsupported.push('按颜色筛选');
+  if (column.icon) unsupported.push('按图标筛选');
+  return unsupported;
+}
+
+/**
+ * 从 xlsx 包解析工作表筛选条件（ExcelJS 只读取筛选范围，不读取 <filterColumn>）
+ * 条件写入 filters 中对应工作表的筛选器
+ *
+ * @param xlsxPackage 已解析的 xlsx 包
+ * @param sheetNameToIdMap 工作表名称到 sheetId 的映射
+ * @param filters 筛选器收集器（按 sheetId）
+ * @param dxfColors 差异格式颜色
+ * @param diagnostics 诊断信息收集器
+ */
+async function parseFilterCriteriaFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  filters: Record<string, ImportedFilter>,
+  dxfColors: DxfColors[],
+  diagnostics: ImportDiagnostic[],
+): Promise<void> {
+  for (const sheet of xlsxPackage.sheets) {
+    const sheetId = sheetNameToIdMap.get(sheet.name);
+    if (sheet.kind !== 'worksheet' || !sheetId || !filters[sheetId]) continue;
+
+    try {
+      const sheetXml = await xlsxPackage.readText(sheet.path);
+      const autoFilter = sheetXml?.match(/<autoFilter\b[^>]*>([\s\S]*?)<\/autoFilter>/)?.[1];
+      if (!autoFilter) continue;
+      const columns = parseFilterColumns(autoFilter, dxfColors);
+      if (columns.length > 0) {
+        filters[sheetId].columns = columns;
+      }
+    } catch (error) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'FILTER_FAILED',
+        sheetName: sheet.name,
+        sheetId,
+        message: `解析筛选条件失败: ${getErrorMessage(error)}`,
+      });
+    }
+  }
+}
+
+/**
+ * 记录 Excel 中被筛选隐藏的行，并提示 Univer 不支持的筛选条件
+ *
+ * Excel 保存时把筛选结果写为行隐藏（导入为 rowData.hd）。添加筛选器时，被 Univer 筛选条件
+ * 隐藏的行改由筛选器控制；条件不受支持时这些行保持隐藏，显示结果与 Excel 一致。
+ */
+function syncFilterHiddenRows(
+  workbookData: IWorkbookData,
+  filters: Record<string, ImportedFilter>,
+  diagnostics: ImportDiagnostic[],
+): void {
+  for (const [sheetId, filter] of Object.entries(filters)) {
+    const sheet = workbookData.sheets[sheetId];
+    const range = parseA1Reference(filter.range);
+    if (!sheet || !range || !filter.columns?.length) continue;
+
+    const rowData = sheet.rowData || {};
+    const hiddenRows = Object.keys(rowData)
+      .map(Number)
+      .filter((row) => row > range.startRow && row <= range.endRow && rowData[row]?.hd === 1)
+      .sort((a, b) => a - b);
+    if (hiddenRows.length > 0) {
+      filter.hiddenRows = hiddenRows;
+    }
+
+    for (const column of filter.columns) {
+      const unsupported = getUnsupportedFilterCriteria(column);
+      if (unsupported.length === 0) continue;
+      diagnostics.push({
+        severity: 'info',
+        code: 'FILTER_CRITERIA_UNSUPPORTED',
+        sheetName: sheet.name,
+        sheetId,
+        range: filter.range,
+        message: `筛选列 ${columnToLetters(range.startColumn + column.column)} 的${unsupported.join('、')}条件 Univer 暂不支持，已保留 Excel 中隐藏的行`,
+      });
+    }
+  }
+}
+
+/**
+ * 解码 OOXML 字符串中的 _xHHHH_ 转义（如列名中的换行 _x000a_）
+ */
+function decodeOoxmlEscapes(text: string): string {
+  return text.replace(/_x([0-9A-Fa-f]{4})_/g, (_, code) => String.fromCharCode(parseInt(code, 16)));
+}
+
+/**
+ * 从 xlsx 包解析表格（xl/tables/table*.xml）
+ *
+ * 表格部件通过工作表关系（类型 /table）关联到所在工作表。
+ *
+ * @param xlsxPackage 已解析的 xlsx 包
+ * @param sheetNameToIdMap 工作表名称到 sheetId 的映射
+ * @param dxfColors 差异格式颜色（用于按颜色筛选）
+ * @param diagnostics 诊断信息收集器
+ */
+async function parseTablesFromXlsx(
+  xlsxPackage: XlsxPackage,
+  sheetNameToIdMap: Map<string, string>,
+  dxfColors: DxfColors[],
+  diagnostics: ImportDiagnostic[],
+): Promise<ImportedTable[]> {
+  const tables: ImportedTable[] = [];
+
+  for (const sheet of xlsxPackage.sheets) {
+    const sheetId = sheetNameToIdMap.get(sheet.name);
+    if (!sheetId) continue;
+
+    for (const rel of sheet.rels) {
+      if (rel.external || !isRelType(rel, 'table')) continue;
+      try {
+        const tableXml = await xlsxPackage.readText(rel.target);
+        const tableTag = tableXml?.match(/<table\b[^>]*>/)?.[0];
+        if (!tableTag) continue;
+
+        const name = getXmlAttr(tableTag, 'displayName') || getXmlAttr(tableTag, 'name') || '';
+        const tableRange = parseA1Reference(getXmlAttr(tableTag, 'ref') || '');
+        if (!name || !tableRange) {
+          throw new Error(`表格 ${name || rel.target} 的范围无效`);
+        }
+        const range = formatA1Range(tableRange);
+
+        const columns: ImportedTableColumn[] = [];
+        for (const match of tableXml!.matchAll(
+          /<tableColumn\b([^>]*?)(?:\/>|>([\s\S]*?)<\/tableColumn>)/g,
+        )) {
+          const tag = `<tableColumn${match[1]}>`;
+          const body = match[2] || '';
+          const formula = body.match(
+            /<calculatedColumnFormula\b[^>]*>([\s\S]*?)<\/calculatedColumnFormula>/,
+          )?.[1];
+          columns.push({
+            name: decodeOoxmlEscapes(getXmlAttr(tag, 'name') || ''),
+            totalsRowFunction: getXmlAttr(tag, 'totalsRowFunction') ?? undefined,
+            totalsRowLabel: getXmlAttr(tag, 'totalsRowLabel') ?? undefined,
+            calculatedColumnFormula:
+              formula === undefined
+                ? undefined
+                : `=${decodeXmlEntities(formula).replace(/^=/, '')}`,
+          });
+        }
+
+        const styleTag = tableXml!.match(/<tableStyleInfo\b[^>]*>/)?.[0] || '';
+        const autoFilter = tableXml!.match(/<autoFilter\b[^>]*?(?:\/>|>([\s\S]*?)<\/autoFilter>)/);
+        const filterRange = autoFilter ? getXmlAttr(autoFilter[0], 'ref') : null;
+        const filterColumns = autoFilter?.[1] ? parseFilterColumns(autoFilter[1], dxfColors) : [];
+
+        tables.push({
+          name,
+          sheetId,
+          sheetName: sheet.name,
+          range,
+          columns,
+          styleName: getXmlAttr(styleTag, 'name') || undefined,
+          showHeaderRow: getXmlAttr(tableTag, 'headerRowCount') !== '0',
+          showTotalsRow: parseInt(getXmlAttr(tableTag, 'totalsRowCount') || '0', 10) > 0,
+          showRowStripes: getXmlAttr(styleTag, 'showRowStripes') === '1',
+          showColumnStripes: getXmlAttr(styleTag, 'showColumnStripes') === '1',
+          showFirstColumn: getXmlAttr(styleTag, 'showFirstColumn') === '1',
+          showLastColumn: getXmlAttr(styleTag, 'showLastColumn') === '1',
+          filterRange: filterRange ? filterRange.replace(/\$/g, '') : undefined,
+          filterColumns: filterColumns.length > 0 ? filterColumns : undefined,
+        });
+      } catch (error) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'TABLE_FAILED',
+          sheetName: sheet.name,
+          sheetId,
+          message: `解析表格 ${rel.target} 失败: ${getErrorMessage(error)}`,
+        });
+      }
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * 转换为结构化引用改写所需的表格信息
+ */
+function toStructuredReferenceTable(table: ImportedTable): StructuredReferenceTable {
+  const range = parseA1Reference(table.range)!;
+  return {
+    name: table.name,
+    sheetName: table.sheetName,
+    startRow: range.startRow,
+    startColumn: range.startColumn,
+    endRow: range.endRow,
+    endColumn: range.endColumn,
+    headerRowCount: table.showHeaderRow ? 1 : 0,
+    totalsRowCount: table.showTotalsRow ? 1 : 0,
+    columns: table.columns.map((column) => column.name),
+  };
+}
+
+/**
+ * 将单元格公式中的结构化引用改写为 A1 引用（Univer 公式引擎不支持结构化引用）
+ * 无法解析的引用保留原文，同一工作表中相同的引用只记录一条诊断信息
+ */
+function rewriteTableReferencesInWorkbook(
+  workbookData: IWorkbookData,
+  tables: StructuredReferenceTable[],
+  diagnostics: ImportDiagnostic[],
+): void {
+  for (const [sheetId, sheet] of Object.entries(workbookData.sheets)) {
+    const reported = new Set<string>();
+    for (const [row, rowData] of Object.entries(sheet.cellData || {})) {
+      for (const [column, cell] of Object.entries(rowData as Record<string, ICellData>)) {
+        if (!cell?.f) continue;
+        const position = { sheetName: sheet.name, row: Number(row), column: Number(column) };
+        const result = rewriteStructuredReferences(cell.f, tables, position);
+        cell.f = result.formula;
+        for (const text of result.unresolved) {
+          if (reported.has(text)) continue;
+          reported.add(text);
+          diagnostics.push({
+            severity: 'warning',
+            code: 'STRUCTURED_REFERENCE_UNRESOLVED',
+            sheetName: sheet.name,
+            sheetId,
+            cell: getCellAddress(position.row, position.column),
+            message: `结构化引用 ${text} 无法解析，公式保留原文`,
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 表格样式元素（对应 Excel tableStyleElement，颜色为 #RRGGBB）
+ */
+interface TableStyleElement {
+  /** 背景色 */
+  bg?: string;
+  /** 字体颜色 */
+  cl?: string;
+  /** 加粗 */
+  bold?: boolean;
+  /** 上边框颜色 */
+  top?: string;
+  /** 下边框颜色 */
+  bottom?: string;
+  /** 左边框颜色 */
+  left?: string;
+  /** 右边框颜色 */
+  right?: string;
+  /** 上边框为双线（汇总行） */
+  doubleTop?: boolean;
+}
+
+/**
+ * 表格样式
+ */
+interface TableStyleDefinition {
+  /** 整个表格：底色、字体颜色、外边框、内部横线和竖线 */
+  wholeTable: TableStyleElement & { innerHorizontal?: string; innerVertical?: string };
+  headerRow?: TableStyleElement;
+  totalRow?: TableStyleElement;
+  /** 第一镶边行（第二镶边行不设置格式） */
+  rowStripe?: TableStyleElement;
+  /** 第一镶边列 */
+  columnStripe?: TableStyleElement;
+  firstColumn?: TableStyleElement;
+  lastColumn?: TableStyleElement;
+}
+
+/**
+ * 获取内置表格样式（TableStyleLight1~21、TableStyleMedium1~28、TableStyleDark1~11）
+ *
+ * 内置样式的定义不保存在文件中，这里按工作簿主题近似还原：
+ * 每组 7 个样式依次使用 text1（dk1）和 accent1~6 作为主色。
+ *
+ * @param styleName 样式名称
+ * @param theme 工作簿主题
+ * @returns 样式定义，不是内置样式时返回 null
+ */
+function getBuiltInTableStyle(
+  styleName: string,
+  theme: WorkbookTheme,
+): TableStyleDefinition | null {
+  const match = styleName.match(/^TableStyle(Light|Medium|Dark)(\d+)$/i);
+  if (!match) return null;
+  const family = match[1].toLowerCase();
+  const number = parseInt(match[2], 10);
+  const group = Math.floor((number - 1) / 7);
+  const colorIndex = (number - 1) % 7;
+  const baseColor = theme.colors[colorIndex === 0 ? 1 : 3 + colorIndex];
+  const color = `#${baseColor}`;
+  const tint = (value: number) => applyTint(baseColor, value);
+  const white = '#ffffff';
+  const bold = { bold: true };
+  const totalRow = { bold: true, top: color, doubleTop: true };
+
+  if (family === 'light' && number <= 21) {
+    if (group === 0) {
+      return {
+        wholeTable: { top: color, bottom: color },
+        headerRow: { bold: true, bottom: color },
+        totalRow,
+        rowStripe: { bg: tint(0.8) },
+        columnStripe: { bg: tint(0.8) },
+        firstColumn: bold,
+        lastColumn: bold,
+      };
+    }
+    if (group === 1) {
+      return {
+        wholeTable: { top: color, bottom: color, left: color, right: color },
+        headerRow: { bg: color, cl: white, bold: true },
+        totalRow,
+        rowStripe: { top: color, bottom: color },
+        columnStripe: { left: color, right: color },
+        firstColumn: bold,
+        lastColumn: bold,
+      };
+    }
+    return {
+      wholeTable: {
+        top: color,
+        bottom: color,
+        left: color,
+        right: color,
+        innerHorizontal: color,
+        innerVertical: color,
+      },
+      headerRow: { bold: true, bottom: color },
+      totalRow,
+      rowStripe: { bg: tint(0.8) },
+      columnStripe: { bg: tint(0.8) },
+      firstColumn: bold,
+      lastColumn: bold,
+    };
+  }
+
+  if (family === 'medium' && number <= 28) {
+    if (group === 0) {
+      const border = tint(0.4);
+      return {
+        wholeTable: {
+          top: border,
+          bottom: border,
+          left: border,
+          right: border,
+          innerHorizontal: border,
+        },
+        headerRow: { bg: color, cl: white, bold: true },
+        totalRow,
+        rowStripe: { bg: tint(0.8) },
+        columnStripe: { bg: tint(0.8) },
+        firstColumn: bold,
+        lastColumn: bold,
+      };
     }
-  } catch (error) {
-    console.error('[fileImport] 解析透视表失败:', error);
+    if (group === 1) {
+      const emphasis = { bg: color, cl: white, bold: true };
+      return {
+        wholeTable: { bg: tint(0.8), innerHorizontal: white, innerVertical: white },
+        headerRow: { ...emphasis, bottom: white },
+        totalRow: { ...emphasis, top: white },
+        rowStripe: { bg: tint(0.6) },
+        columnStripe: { bg: tint(0.6) },
+        firstColumn: emphasis,
+        lastColumn: emphasis,
+      };
+    }
+    if (group === 2) {
+      return {
+        wholeTable: {
+          top: color,
+          bottom: color,
+          left: color,
+          right: color,
+          innerHorizontal: color,
+          innerVertical: color,
+        },
+        headerRow: { bg: color, cl: white, bold: true },
+        totalRow,
+        rowStripe: { bg: tint(0.8) },
+        columnStripe: { bg: tint(0.8) },
+        firstColumn: bold,
+        lastColumn: bold,
+      };
+    }
+    const border = tint(0.4);
+    return {
+      wholeTable: {
+        bg: tint(0.8),
+        top: border,
+        bottom: border,
+        left: border,
+        right: border,
+        innerHorizontal: border,
+        innerVertical: border,
+      },
+      headerRow: bold,
+      totalRow,
+      rowStripe: { bg: tint(0.6) },
+      columnStripe: { bg: tint(0.6) },
+      firstColumn: bold,
+      lastColumn: bold,
+    };
   }
 
-  return pivotTables;
+  if (family === 'dark' && number <= 7) {
+    const body = colorIndex === 0 ? '#737373' : tint(-0.25);
+    const stripe = colorIndex === 0 ? '#404040' : tint(-0.5);
+    const emphasis = { bg: stripe, cl: white, bold: true };
+    return {
+      wholeTable: { bg: body, cl: white },
+      headerRow: { bg: '#000000', cl: white, bold: true, bottom: white },
+      totalRow: { ...emphasis, top: white, doubleTop: true },
+      rowStripe: { bg: stripe },
+      columnStripe: { bg: stripe },
+      firstColumn: emphasis,
+      lastColumn: emphasis,
+    };
+  }
+
+  if (family === 'dark' && number <= 11) {
+    // Dark8~11 的镶边依次使用 text1、accent2、accent4、accent6
+    const pairIndex = number - 8;
+    const stripeColor = theme.colors[pairIndex === 0 ? 1 : 3 + pairIndex * 2];
+    return {
+      wholeTable: { bg: applyTint(stripeColor, 0.8) },
+      headerRow: { bg: '#000000', cl: white, bold: true },
+      totalRow: { bold: true, top: '#000000', doubleTop: true },
+      rowStripe: { bg: applyTint(stripeColor, 0.6) },
+      columnStripe: { bg: applyTint(stripeColor, 0.6) },
+      firstColumn: bold,
+      lastColumn: bold,
+    };
+  }
+
+  return null;
 }
 
 /**
- * 从 xlsx 文件中直接解析排序信息
- * Excel 的排序信息存储在 xl/worksheets/sheet*.xml 的 <sortState> 元素中
- * 格式: <sortState ref="A1:D10"><sortCondition ref="A1:A10" descending="1"/></sortState>
+ * 合并表格样式元素（后者覆盖前者）
  */
-async function parseSortsFromXlsx(
-  arrayBuffer: ArrayBuffer,
-  sheetIndexToIdMap: string[],
-): Promise<Record<string, ImportedSort>> {
-  const sorts: Record<string, ImportedSort> = {};
-
-  try {
-    // 动态导入 jszip
-    const JSZip = (await import('jszip')).default;
-    const zip = await JSZip.loadAsync(arrayBuffer);
-
-    // 遍历所有工作表文件
-    for (const [path, file] of Object.entries(zip.files)) {
-      // 匹配 xl/worksheets/sheet*.xml
-      const sheetMatch = path.match(/^xl\/worksheets\/sheet(\d+)\.xml$/);
-      if (!sheetMatch || file.dir) continue;
-
-      const sheetIndex = parseInt(sheetMatch[1], 10) - 1; // 转为 0-based
-      const sheetId = sheetIndexToIdMap[sheetIndex];
-      if (!sheetId) continue;
-
-      const sheetXml = await file.async('string');
+function mergeTableStyleElement(
+  target: TableStyleElement,
+  element: TableStyleElement | undefined,
+): void {
+  if (!element) return;
+  for (const [key, value] of Object.entries(element)) {
+    if (value !== undefined) (target as any)[key] = value;
+  }
+}
 
-      // 解析 <sortState ref="A1:D10">...</sortState>
-      const sortStateMatch = sheetXml.match(
-        /<sortState[^>]*ref="([^"]+)"[^>]*>([\s\S]*?)<\/sortState>/,
-      );
-      if (!sortStateMatch) continue;
-
-      const sortRange = sortStateMatch[1];
-      const sortStateContent = sortStateMatch[2];
-
-      // 解析排序范围的起始列（用于计算相对列索引）
-      const rangeStartCol = sortRange.match(/^([A-Z]+)/)?.[1] || 'A';
-      const startColIndex = colToNum(rangeStartCol);
-
-      // 解析排序条件 <sortCondition ref="A1:A10" descending="1"/>
-      const conditions: Array<{ column: number; ascending: boolean }> = [];
-      const conditionRegex =
-        /<sortCondition[^>]*ref="([^"]+)"[^>]*(?:descending="(\d+)")?[^>]*\/?>/g;
-
-      let condMatch;
-      while ((condMatch = conditionRegex.exec(sortStateContent)) !== null) {
-        const condRef = condMatch[1];
-        const descending = condMatch[2] === '1';
-
-        // 从 ref 中提取列字母（如 "A1:A10" -> "A"）
-        const colMatch = condRef.match(/^([A-Z]+)/);
-        if (colMatch) {
-          const colIndex = colToNum(colMatch[1]);
-          // 计算相对于排序范围起始列的偏移
-          const relativeColumn = colIndex - startColIndex;
-          conditions.push({
-            column: relativeColumn,
-            ascending: !descending,
-          });
-        }
+/**
+ * 将表格样式写入单元格样式
+ *
+ * 按 Excel 的优先级（整表 < 镶边列 < 镶边行 < 首/末列 < 标题行/汇总行）叠加样式元素，
+ * 单元格自身设置的格式优先于表格样式；字体颜色为默认黑色时视为自动颜色，使用表格样式的颜色。
+ * 表格内的空单元格也写入样式，使镶边连续。
+ */
+function applyTableStyle(
+  sheet: IWorksheetData,
+  table: ImportedTable,
+  style: TableStyleDefinition,
+): void {
+  const { startRow, endRow, startColumn, endColumn } = parseA1Reference(table.range)!;
+  const dataStart = startRow + (table.showHeaderRow ? 1 : 0);
+  const dataEnd = endRow - (table.showTotalsRow ? 1 : 0);
+  const { innerHorizontal, innerVertical, ...wholeTable } = style.wholeTable;
+  const cellData = sheet.cellData || (sheet.cellData = {});
+
+  for (let row = startRow; row <= endRow; row++) {
+    for (let column = startColumn; column <= endColumn; column++) {
+      const element: TableStyleElement = {};
+      mergeTableStyleElement(element, { bg: wholeTable.bg, cl: wholeTable.cl });
+      if (innerHorizontal && row < endRow) element.bottom = innerHorizontal;
+      if (innerVertical && column < endColumn) element.right = innerVertical;
+      if (row === startRow) element.top = wholeTable.top;
+      if (row === endRow) element.bottom = wholeTable.bottom;
+      if (column === startColumn) element.left = wholeTable.left;
+      if (column === endColumn) element.right = wholeTable.right;
+
+      const isDataRow = row >= dataStart && row <= dataEnd;
+      if (isDataRow && table.showColumnStripes && (column - startColumn) % 2 === 0) {
+        mergeTableStyleElement(element, style.columnStripe);
+      }
+      if (isDataRow && table.showRowStripes && (row - dataStart) % 2 === 0) {
+        mergeTableStyleElement(element, style.rowStripe);
+      }
+      if (table.showFirstColumn && column === startColumn) {
+        mergeTableStyleElement(element, style.firstColumn);
+      }
+      if (table.showLastColumn && column === endColumn) {
+        mergeTableStyleElement(element, style.lastColumn);
+      }
+      if (table.showHeaderRow && row === startRow) {
+        mergeTableStyleElement(element, style.headerRow);
+      }
+      if (table.showTotalsRow && row === endRow) {
+        mergeTableStyleElement(element, style.totalRow);
       }
 
-      if (conditions.length > 0) {
-        sorts[sheetId] = {
-          range: sortRange,
-          conditions,
+      const tableStyle: any = {};
+      if (element.bg) tableStyle.bg = { rgb: element.bg };
+      if (element.cl) tableStyle.cl = { rgb: element.cl };
+      if (element.bold) tableStyle.bl = 1;
+      const bd: any = {};
+      const sides = [
+        ['t', element.top],
+        ['b', element.bottom],
+        ['l', element.left],
+        ['r', element.right],
+      ];
+      for (const [side, color] of sides) {
+        if (!color) continue;
+        const double = side === 't' && element.doubleTop;
+        bd[side] = {
+          s: double ? BORDER_STYLE_MAP.double : BORDER_STYLE_MAP.thin,
+          cl: { rgb: color },
         };
       }
+      if (Object.keys(bd).length > 0) tableStyle.bd = bd;
+      if (Object.keys(tableStyle).length === 0) continue;
+
+      const rowData = cellData[row] || (cellData[row] = {});
+      const cell = rowData[column] || (rowData[column] = {});
+      const cellStyle = cell.s && typeof cell.s === 'object' ? cell.s : {};
+      const merged: any = { ...tableStyle, ...cellStyle };
+      if (tableStyle.bd || cellStyle.bd) merged.bd = { ...tableStyle.bd, ...cellStyle.bd };
+      if (tableStyle.cl && (!cellStyle.cl || cellStyle.cl.rgb?.toLowerCase() === '#000000')) {
+        merged.cl = tableStyle.cl;
+      }
+      cell.s = merged;
     }
-  } catch (error) {
-    console.error('[fileImport] 解析排序失败:', error);
   }
 
-  return sorts;
+  sheet.rowCount = Math.max(sheet.rowCount || 0, endRow + 1);
+  sheet.columnCount = Math.max(sheet.columnCount || 0, endColumn + 1);
 }
 
 /**
- * 列字母转数字（0-based）
- * A -> 0, B -> 1, Z -> 25, AA -> 26
+ * 将表格应用到导入的工作簿：写入表格样式、转换筛选按钮、改写结构化引用
  */
-function colToNum(col: string): number {
-  let num = 0;
-  for (let i = 0; i < col.length; i++) {
-    num = num * 26 + (col.charCodeAt(i) - 64);
+function applyTablesToWorkbook(
+  workbookData: IWorkbookData,
+  tables: ImportedTable[],
+  filters: Record<string, ImportedFilter>,
+  theme: WorkbookTheme,
+  diagnostics: ImportDiagnostic[],
+): void {
+  for (const table of tables) {
+    const sheet = workbookData.sheets[table.sheetId];
+    if (!sheet) continue;
+
+    if (table.styleName) {
+      const style = getBuiltInTableStyle(table.styleName, theme);
+      if (style) {
+        applyTableStyle(sheet, table, style);
+      } else {
+        diagnostics.push({
+          severity: 'info',
+          code: 'TABLE_STYLE_SKIPPED',
+          sheetName: table.sheetName,
+          sheetId: table.sheetId,
+          range: table.range,
+          message: `表格 ${table.name} 使用自定义样式 ${table.styleName}，暂不支持，未写入单元格样式`,
+        });
+      }
+    }
+
+    // Univer 每个工作表只有一个筛选器，已有筛选器时保留先导入的
+    if (table.filterRange) {
+      if (!filters[table.sheetId]) {
+        filters[table.sheetId] = { range: table.filterRange, columns: table.filterColumns };
+      } else {
+        diagnostics.push({
+          severity: 'info',
+          code: 'TABLE_FILTER_SKIPPED',
+          sheetName: table.sheetName,
+          sheetId: table.sheetId,
+          range: table.filterRange,
+          message: `工作表已有筛选器，表格 ${table.name} 的筛选按钮未导入`,
+        });
+      }
+    }
   }
-  return num - 1;
+
+  rewriteTableReferencesInWorkbook(
+    workbookData,
+    tables.map((table) => toStructuredReferenceTable(table)),
+    diagnostics,
+  );
 }
 
 /**
@@ -1059,27 +3445,30 @@ function escapeSheetName(name: string): string {
   return name;
 }
 
-/**
- * 反转义工作表名称
- */
-function unescapeSheetName(name: string): string {
-  return name;
-}
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
 
 /**
- * 将 ArrayBuffer 转换为 Base64 字符串（浏览器兼容）
+ * 将 ArrayBuffer 转换为 Base64 字符串
+ * 纯 JS 实现，不依赖 btoa / Buffer，浏览器、Worker 和 Node.js 中均可使用
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  const chunkSize = 8192; // 分块处理，避免栈溢出
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-    for (let j = 0; j < chunk.length; j++) {
-      binary += String.fromCharCode(chunk[j]);
+function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const parts: string[] = [];
+  const chunkSize = 8190; // 3 的倍数，分块拼接避免超长字符串反复复制
+  for (let start = 0; start < bytes.length; start += chunkSize) {
+    const end = Math.min(start + chunkSize, bytes.length);
+    let chunk = '';
+    for (let i = start; i < end; i += 3) {
+      const b0 = bytes[i];
+      const b1 = i + 1 < end ? bytes[i + 1] : 0;
+      const b2 = i + 2 < end ? bytes[i + 2] : 0;
+      chunk += BASE64_CHARS[b0 >> 2] + BASE64_CHARS[((b0 & 0x03) << 4) | (b1 >> 4)];
+      chunk += i + 1 < end ? BASE64_CHARS[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+      chunk += i + 2 < end ? BASE64_CHARS[b2 & 0x3f] : '=';
     }
+    parts.push(chunk);
   }
-  return btoa(binary);
+  return parts.join('');
 }
 
 /**
@@ -1106,7 +3495,7 @@ function getImageMimeType(extension: string): string {
  * @param numFmt Excel数字格式字符串
  * @returns 是否为日期格式
  */
-function isDateFormat(numFmt: string): boolean {
+export function isDateFormat(numFmt: string): boolean {
   if (!numFmt || numFmt === 'General') return false;
 
   // 常见的日期格式关键词
@@ -1166,40 +3555,130 @@ function isDateFormat(numFmt: string): boolean {
   return hasDateKeyword;
 }
 
+/**
+ * 读取导入源的二进制内容
+ */
+async function readImportSource(source: ImportSource): Promise<ArrayBuffer> {
+  if (source instanceof ArrayBuffer) {
+    return source;
+  }
+  if (ArrayBuffer.isView(source)) {
+    const { buffer, byteOffset, byteLength } = source;
+    return buffer.slice(byteOffset, byteOffset + byteLength) as ArrayBuffer;
+  }
+  return source.arrayBuffer();
+}
+
+/**
+ * 确定导入格式
+ * 优先使用显式指定的格式，其次按内容识别；内容为空时按扩展名判断
+ * HTML / XML 文本不支持导入；扩展名为 .xls / .xlsx 的文本文件按 CSV 导入并记录诊断
+ * @param data 文件内容
+ * @param fileName 文件名（可能为空）
+ * @param format 显式指定的格式
+ * @param diagnostics 诊断信息（扩展名与内容不符时写入）
+ */
+function resolveImportFormat(
+  data: Uint8Array,
+  fileName: string,
+  format: ImportFileFormat | undefined,
+  diagnostics: ImportDiagnostic[],
+): ImportFileFormat {
+  if (format) {
+    if (!['xlsx', 'xls', 'csv'].includes(format)) {
+      throw new UnsupportedFormatError(`不支持的文件格式: ${format}`, { format });
+    }
+    return format;
+  }
+
+  const sniffed = sniffFileFormat(data);
+  const extFormat = getFormatFromFileName(fileName);
+  if (sniffed === 'csv') {
+    // 网页表格、XML 表格等标记文本不按 CSV 导入
+    const markup = sniffMarkupFormat(data);
+    if (markup) {
+      throw new UnsupportedFormatError(
+        `文件内容为 ${markup.toUpperCase()} 文本，不是 Excel 工作簿或 CSV 文件${fileName ? `: ${fileName}` : ''}`,
+        { format: markup },
+      );
+    }
+    // 扩展名是工作簿但内容是分隔文本（常见于系统导出时改了扩展名的 CSV），按 CSV 导入
+    if (extFormat === 'xlsx' || extFormat === 'xls') {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'EXTENSION_MISMATCH',
+        message: `文件扩展名为 .${extFormat}，但内容为文本，已按 CSV 导入: ${fileName}`,
+      });
+    }
+  }
+  if (sniffed) {
+    return sniffed;
+  }
+
+  if (data.length === 0 && extFormat) {
+    return extFormat;
+  }
+  // 扩展名是工作簿但内容无法识别，说明文件已损坏
+  if (extFormat === 'xlsx' || extFormat === 'xls') {
+    throw new CorruptFileError(`文件内容不是有效的 Excel 工作簿: ${fileName}`);
+  }
+  throw new UnsupportedFormatError(
+    fileName ? `不支持的文件格式: ${fileName}` : '无法识别的文件格式',
+    { format: fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : undefined },
+  );
+}
+
 /**
  * 处理常见文件类型（Excel/CSV）
- * @param file 文件对象
+ * @param arrayBuffer 文件内容
+ * @param fileName 文件名（用于工作簿名称，可能为空）
  * @param type 文件类型
  * @param includeImages 是否解析图片（默认 true）
+ * @param context 进度回调、取消信号和输出选项
  * @returns 导入结果（包含工作簿数据和图片信息）
  */
 async function handleFileImport(
-  file: File,
-  type: 'xlsx' | 'xls' | 'csv',
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
+  type: ImportFileFormat,
   includeImages: boolean = true,
+  context: ImportContext = {},
 ): Promise<ImportResult> {
   try {
-    let result: ImportResult;
-    if (['xlsx', 'xls'].includes(type)) {
-      result = await importExcelWithImages(file, includeImages);
-    } else if (type === 'csv') {
-      const workbookData = await importCsv(file);
-      result = {
-        workbookData,
-        images: [],
-        conditionalFormats: {},
-        filters: {},
-        sorts: {},
-        charts: {},
-        pivotTables: [],
-      };
-    } else {
-      throw new Error('Unsupported file type');
+    if (type === 'xlsx' || type === 'xls') {
+      return await importExcelWithImages(arrayBuffer, fileName, includeImages, context);
     }
-    return result;
+
+    context.onProgress?.({ phase: 'loading' });
+    const diagnostics: ImportDiagnostic[] = [];
+    const workbookData = await importCsv(arrayBuffer, { diagnostics });
+    throwIfAborted(context.signal);
+    if (fileName) {
+      workbookData.name = fileName.replace(/\.[^/.]+$/, '');
+    }
+    context.onProgress?.({
+      phase: 'sheet',
+      sheetIndex: 0,
+      sheetName: workbookData.sheets[workbookData.sheetOrder[0]]?.name,
+    });
+    return {
+      workbookData,
+      images: [],
+      conditionalFormats: {},
+      filters: {},
+      sorts: {},
+      charts: {},
+      pivotTables: [],
+      definedNames: [],
+      tables: [],
+      diagnostics,
+    };
   } catch (error) {
-    console.error('handleFileImport error:', error);
-    throw error;
+    // 未归类的错误（如 ExcelJS 转换过程中的异常）统一视为文件内容无效
+    if (error instanceof ImportError) {
+      throw error;
+    }
+    throw new CorruptFileError(`文件导入失败: ${getErrorMessage(error)}`, { cause: error });
   }
 }
 
@@ -1207,43 +3686,91 @@ async function handleFileImport(
  * 导入 Excel 文件（增强版 - 可选图片解析）
  * 支持 .xlsx 和 .xls 格式
  * 注意：对于大文件（>10万行），此函数会消耗大量内存
- * @param file 文件对象
+ * @param arrayBuffer 文件内容
+ * @param fileName 文件名（用于工作簿名称，可能为空）
  * @param includeImages 是否解析图片（默认 true）
+ * @param context 进度回调、取消信号和输出选项
  */
 async function importExcelWithImages(
-  file: File,
+  arrayBuffer: ArrayBuffer,
+  fileName: string,
   includeImages: boolean = true,
+  context: ImportContext = {},
 ): Promise<ImportResult> {
-  const fileSize = file.size;
-  const fileName = file.name;
-  const fileExt = fileName.split('.').pop()?.toLowerCase();
+  const { onProgress, signal } = context;
+  const fileSize = arrayBuffer.byteLength;
+  // 诊断信息收集器
+  const diagnostics: ImportDiagnostic[] = [];
 
-  // 大文件警告
+  // 大文件提示
   if (fileSize > 10 * 1024 * 1024) {
-    console.warn(
-      `⚠️ 正在导入大文件 (${(fileSize / 1024 / 1024).toFixed(1)}MB)，可能需要较长时间...`,
-    );
+    diagnostics.push({
+      severity: 'info',
+      code: 'LARGE_FILE',
+      message: `正在导入大文件 (${(fileSize / 1024 / 1024).toFixed(1)}MB)，可能需要较长时间`,
+    });
   }
 
+  onProgress?.({ phase: 'loading' });
   const workbook = new ExcelJS.Workbook();
-  const arrayBuffer = await file.arrayBuffer();
+
+  // 按内容选择读取器：.xls (BIFF8) 是 CFB 复合文档，其余按 xlsx 加载
+  // 设置了打开密码的 .xlsx 同样是 CFB 容器，由 xls 读取器识别为 EncryptedFileError
+  const isLegacyXls = isCfb(new Uint8Array(arrayBuffer));
 
   try {
-    // 根据文件扩展名选择加载方式
-    if (fileExt === 'xls') {
-      await workbook.xlsx.load(arrayBuffer);
+    if (isLegacyXls) {
+      loadXlsWorkbook(workbook, arrayBuffer);
     } else {
       // .xlsx 文件的标准加载
       await workbook.xlsx.load(arrayBuffer);
     }
+    // 加载大文件耗时较长，加载完成后立即检查取消
+    throwIfAborted(signal);
   } catch (error) {
-    console.error('Excel 文件加载失败:', error);
-    throw new Error(`无法加载 Excel 文件: ${error.message}. 如果是 .xls 格式，请先转换为 .xlsx`);
+    if (error instanceof ImportError) {
+      throw error;
+    }
+    throw new CorruptFileError(`无法加载 Excel 文件: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 
+  // 主题、图表、透视表、排序、数据验证需要直接解析 xlsx 包，.xls 文件不包含这些部件
+  // 只解压一次，各解析器共用同一个包模型
+  let xlsxPackage: XlsxPackage | null | undefined;
+  if (!isLegacyXls) {
+    try {
+      xlsxPackage = await loadXlsxPackage(arrayBuffer);
+      throwIfAborted(signal);
+    } catch (error) {
+      if (error instanceof ImportAbortedError) throw error;
+      diagnostics.push({
+        severity: 'error',
+        code: 'PACKAGE_FAILED',
+        message: `解析 xlsx 包失败，图表、透视表、排序、数据验证、表格未导入，主题按默认 Office 主题处理: ${getErrorMessage(error)}`,
+      });
+    }
+    // ZIP 中没有工作簿部件（如 .docx、.pptx），不是 Excel 工作簿
+    if (xlsxPackage === null) {
+      throw new UnsupportedFormatError(
+        `文件不是 Excel 工作簿（ZIP 包中缺少 xl/workbook.xml）${fileName ? `: ${fileName}` : ''}`,
+        { format: 'zip' },
+      );
+    }
+  }
+  // 工作簿主题（主题颜色和字体）和 indexed 调色板，转换样式前读取
+  // .xls 的颜色已按文件中的调色板解析为 RGB，使用默认 Office 主题
+  const theme = xlsxPackage ? await readWorkbookTheme(xlsxPackage) : DEFAULT_THEME;
+  const styleContext: WorkbookStyleContext = {
+    theme,
+    indexedColors: xlsxPackage ? await readIndexedColors(xlsxPackage) : XLS_DEFAULT_PALETTE,
+  };
+  throwIfAborted(signal);
+
   const univerWorkbook: IWorkbookData = {
     id: `workbook-${nanoid()}`,
-    name: file.name.replace(/\.[^/.]+$/, ''),
+    name: fileName.replace(/\.[^/.]+$/, '') || '未命名表格',
     sheetOrder: [],
     appVersion: getUniverVersion(),
     locale: LocaleType.ZH_CN,
@@ -1265,14 +3792,12 @@ async function importExcelWithImages(
   const allSorts: Record<string, ImportedSort> = {};
   // 全局图表收集器 - 按 sheetId 存储图表信息
   const allCharts: Record<string, ImportedChart[]> = {};
-  // sheetName 到 sheetKey 的映射（用于图表解析）
+  // sheetName 到 sheetKey 的映射（用于图表、排序等按工作表解析的内容）
   const sheetNameToIdMap = new Map<string, string>();
-  // sheetName 到 sheetKey 的映射列表（用于排序解析）
-  const sheetIndexToIdMap: string[] = [];
 
   // 转换每个工作表 - 保留所有工作表包括空表
   // 使用 worksheets 数组而不是 eachSheet 以保持正确顺序
-  workbook.worksheets.forEach((worksheet, sheetIndex) => {
+  const convertWorksheet = async (worksheet: ExcelJS.Worksheet, sheetIndex: number) => {
     // 跳过 undefined 工作表
     if (!worksheet) {
       return;
@@ -1288,7 +3813,6 @@ async function importExcelWithImages(
     const images: any[] = [];
     const charts: any[] = [];
     const conditionalFormats: any[] = [];
-    const dataValidations: any[] = [];
 
     // 冻结窗格信息
     let freezeRow = 0; // 冻结的行数
@@ -1300,16 +3824,31 @@ async function importExcelWithImages(
 
     // 工作表名称处理 - 处理特殊字符
     const sheetName = escapeSheetName(worksheet.name || `Sheet${sheetIndex + 1}`);
-    // 记录 sheetName 到 sheetKey 的映射（用于图表解析）
+    // 记录 sheetName 到 sheetKey 的映射（用于图表、排序解析）
     sheetNameToIdMap.set(worksheet.name || `Sheet${sheetIndex + 1}`, sheetKey);
-    // 记录 sheetIndex 到 sheetKey 的映射（用于排序解析）
-    sheetIndexToIdMap[sheetIndex] = sheetKey;
 
     // 转换单元格数据
-    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const totalRows = worksheet.rowCount;
+    onProgress?.({ phase: 'sheet', sheetIndex, sheetName, rowsProcessed: 0, totalRows });
+    // 逐行转换（包括空行），每个行块之间让出线程，使取消操作有机会生效
+    for (let rowNumber = 1; rowNumber <= totalRows; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
       const rowIndex = rowNumber - 1;
       maxRow = Math.max(maxRow, rowIndex);
 
+      // 按行分块报告进度并检查取消
+      if (rowNumber % PROGRESS_ROW_CHUNK === 0) {
+        await yieldToEventLoop();
+        throwIfAborted(signal);
+        onProgress?.({
+          phase: 'sheet',
+          sheetIndex,
+          sheetName,
+          rowsProcessed: rowNumber,
+          totalRows,
+        });
+      }
+
       // 记录行高和隐藏状态
       const rowInfo: any = {};
       let hasRowInfo = false;
@@ -1341,7 +3880,7 @@ async function importExcelWithImages(
         if (cell.type === ExcelJS.ValueType.Null) {
           // 检查是否有样式（背景色、边框等）
           if (cell.style) {
-            const style = convertCellStyle(cell.style);
+            const style = convertCellStyle(cell.style, styleContext);
             if (style) {
               if (!cellData[rowIndex]) {
                 cellData[rowIndex] = {};
@@ -1424,47 +3963,63 @@ async function importExcelWithImages(
                 return;
               }
             } catch (imgError) {
-              console.warn(`处理单元格图片失败 (${cell.address}):`, imgError);
+              diagnostics.push({
+                severity: 'warning',
+                code: 'CELL_IMAGE_SKIPPED',
+                sheetName,
+                sheetId: sheetKey,
+                cell: cell.address,
+                message: `处理单元格图片失败: ${getErrorMessage(imgError)}`,
+              });
+              return;
             }
 
             // 无法提取图片时，跳过此单元格（避免显示 DISPIMG 公式）
+            diagnostics.push({
+              severity: 'warning',
+              code: 'CELL_IMAGE_SKIPPED',
+              sheetName,
+              sheetId: sheetKey,
+              cell: cell.address,
+              message: `未找到单元格图片 ${imageId} 的数据，单元格已跳过`,
+            });
             return;
           }
         }
 
         // 获取单元格值
-        let rawValue = getCellValue(cell);
+        let rawValue = getCellValue(cell, diagnostics, { sheetName, sheetId: sheetKey });
 
         // 最终安全检查：确保值不是 NaN，如果是则使用原始数据
         if (rawValue !== null && rawValue !== undefined && rawValue !== '') {
           // 如果是数字，检查是否为 NaN
           if (typeof rawValue === 'number' && (isNaN(rawValue) || !isFinite(rawValue))) {
-            console.warn(
-              '检测到 NaN 数字值，单元格:',
-              cell.address,
-              '原始值:',
-              cell.value,
-              '类型:',
-              cell.type,
-            );
             // 使用原始数据而不是空字符串
             rawValue = getOriginalCellValue(cell);
+            diagnostics.push({
+              severity: 'warning',
+              code: 'INVALID_NUMBER',
+              sheetName,
+              sheetId: sheetKey,
+              cell: cell.address,
+              message: `单元格数值无效，已使用原始值: ${String(rawValue)}`,
+            });
           }
           // 如果是字符串，检查是否包含 NaN
           else if (
             typeof rawValue === 'string' &&
             (rawValue === 'NaN' || rawValue.includes('NaN'))
           ) {
-            console.warn(
-              '检测到 NaN 字符串值，单元格:',
-              cell.address,
-              '原始值:',
-              cell.value,
-              '类型:',
-              cell.type,
-            );
             // 使用原始数据而不是空字符串
             rawValue = getOriginalCellValue(cell);
+            diagnostics.push({
+              severity: 'warning',
+              code: 'INVALID_NUMBER',
+              sheetName,
+              sheetId: sheetKey,
+              cell: cell.address,
+              message: `单元格值包含 NaN，已使用原始值: ${String(rawValue)}`,
+            });
           }
         }
 
@@ -1547,7 +4102,7 @@ async function importExcelWithImages(
         // 处理富文本
         if (cell.type === ExcelJS.ValueType.RichText) {
           const richTextValue = cell.value as ExcelJS.CellRichTextValue;
-          cellValue.p = convertRichText(richTextValue.richText);
+          cellValue.p = convertRichText(richTextValue.richText, styleContext);
         }
 
         // 处理超链接
@@ -1561,7 +4116,7 @@ async function importExcelWithImages(
 
         // 处理样式
         if (cell.style) {
-          const style = convertCellStyle(cell.style);
+          const style = convertCellStyle(cell.style, styleContext);
           if (style) {
             cellValue.s = style;
           }
@@ -1572,7 +4127,7 @@ async function importExcelWithImages(
           cellData[rowIndex][colIndex] = cellValue;
         }
       });
-    });
+    }
 
     // 处理列宽和隐藏列
     if (worksheet.columns && Array.isArray(worksheet.columns)) {
@@ -1635,7 +4190,7 @@ async function importExcelWithImages(
               if (!cellData[startRow][col]) cellData[startRow][col] = {};
               if (!cellData[startRow][col].s) cellData[startRow][col].s = {};
               if (!cellData[startRow][col].s.bd) cellData[startRow][col].s.bd = {};
-              cellData[startRow][col].s.bd.t = convertSingleBorder(border.top);
+              cellData[startRow][col].s.bd.t = convertSingleBorder(border.top, styleContext);
             }
           }
 
@@ -1646,7 +4201,7 @@ async function importExcelWithImages(
               if (!cellData[endRow][col]) cellData[endRow][col] = {};
               if (!cellData[endRow][col].s) cellData[endRow][col].s = {};
               if (!cellData[endRow][col].s.bd) cellData[endRow][col].s.bd = {};
-              cellData[endRow][col].s.bd.b = convertSingleBorder(border.bottom);
+              cellData[endRow][col].s.bd.b = convertSingleBorder(border.bottom, styleContext);
             }
           }
 
@@ -1657,7 +4212,7 @@ async function importExcelWithImages(
               if (!cellData[row][startColumn]) cellData[row][startColumn] = {};
               if (!cellData[row][startColumn].s) cellData[row][startColumn].s = {};
               if (!cellData[row][startColumn].s.bd) cellData[row][startColumn].s.bd = {};
-              cellData[row][startColumn].s.bd.l = convertSingleBorder(border.left);
+              cellData[row][startColumn].s.bd.l = convertSingleBorder(border.left, styleContext);
             }
           }
 
@@ -1668,7 +4223,7 @@ async function importExcelWithImages(
               if (!cellData[row][endColumn]) cellData[row][endColumn] = {};
               if (!cellData[row][endColumn].s) cellData[row][endColumn].s = {};
               if (!cellData[row][endColumn].s.bd) cellData[row][endColumn].s.bd = {};
-              cellData[row][endColumn].s.bd.r = convertSingleBorder(border.right);
+              cellData[row][endColumn].s.bd.r = convertSingleBorder(border.right, styleContext);
             }
           }
         }
@@ -1690,7 +4245,12 @@ async function importExcelWithImages(
           // 处理每条规则
           if (cf.rules && Array.isArray(cf.rules)) {
             cf.rules.forEach((rule: any, ruleIndex: number) => {
-              const cfRule = convertConditionalFormatRuleForFacade(rule, rangeRefs, ruleIndex);
+              const cfRule = convertConditionalFormatRuleForFacade(
+                rule,
+                rangeRefs,
+                ruleIndex,
+                styleContext,
+              );
               if (cfRule) {
                 sheetCfRules.push(cfRule);
               }
@@ -1701,7 +4261,13 @@ async function importExcelWithImages(
           allConditionalFormats[sheetKey] = sheetCfRules;
         }
       } catch (error) {
-        console.warn('处理条件格式时出错:', error);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CONDITIONAL_FORMAT_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理条件格式时出错: ${getErrorMessage(error)}`,
+        });
       }
     }
 
@@ -1712,37 +4278,17 @@ async function importExcelWithImages(
         const filterRange = parseAutoFilter(worksheet.autoFilter);
         if (filterRange) {
           allFilters[sheetKey] = { range: filterRange };
-          console.log(`[fileImport] 解析筛选器: sheet=${sheetKey}, range=${filterRange}`);
         }
       } catch (error) {
-        console.warn('处理筛选器时出错:', error);
-      }
-    }
-
-    // 处理数据验证
-    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-      row.eachCell({ includeEmpty: false }, (cell) => {
-        if (cell.dataValidation) {
-          const validation = cell.dataValidation;
-          dataValidations.push({
-            row: rowNumber - 1,
-            col: cell.col - 1,
-            type: validation.type,
-            operator: validation.operator,
-            formula1: validation.formulae?.[0],
-            formula2: validation.formulae?.[1],
-            allowBlank: validation.allowBlank,
-            showInputMessage: validation.showInputMessage,
-            promptTitle: validation.promptTitle,
-            prompt: validation.prompt,
-            showErrorMessage: validation.showErrorMessage,
-            errorStyle: validation.errorStyle,
-            errorTitle: validation.errorTitle,
-            error: validation.error,
-          });
-        }
-      });
-    });
+        diagnostics.push({
+          severity: 'warning',
+          code: 'FILTER_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理筛选器时出错: ${getErrorMessage(error)}`,
+        });
+      }
+    }
 
     // 处理冻结窗格（Freeze Panes）
     // ExcelJS 通过 worksheet.views 存储视图信息，包括冻结
@@ -1774,7 +4320,13 @@ async function importExcelWithImages(
               // 获取图片数据
               const imageMedia = workbook.getImage(img.imageId);
               if (!imageMedia || !imageMedia.buffer) {
-                console.warn(`图片 ${img.imageId} 没有有效的数据`);
+                diagnostics.push({
+                  severity: 'warning',
+                  code: 'IMAGE_FAILED',
+                  sheetName,
+                  sheetId: sheetKey,
+                  message: `图片 ${img.imageId} 没有有效的数据`,
+                });
                 return;
               }
 
@@ -1921,12 +4473,24 @@ async function importExcelWithImages(
               };
               allImages.push(importedImage);
             } catch (imgError) {
-              console.warn(`处理图片 ${imgIndex} 失败:`, imgError);
+              diagnostics.push({
+                severity: 'warning',
+                code: 'IMAGE_FAILED',
+                sheetName,
+                sheetId: sheetKey,
+                message: `处理图片 ${imgIndex + 1} 失败: ${getErrorMessage(imgError)}`,
+              });
             }
           }
         });
       } catch (error) {
-        console.warn('处理图片时出错:', error);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'IMAGE_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理图片时出错: ${getErrorMessage(error)}`,
+        });
       }
     }
 
@@ -1938,17 +4502,7 @@ async function importExcelWithImages(
     // 方法1: 检查 drawings 数组
     if ((worksheet as any).drawings && Array.isArray((worksheet as any).drawings)) {
       try {
-        console.log(
-          `[fileImport] Sheet "${sheetName}" 发现 ${
-            (worksheet as any).drawings.length
-          } 个 drawings`,
-        );
-        (worksheet as any).drawings.forEach((drawing: any, drawingIndex: number) => {
-          console.log(`[fileImport] Drawing ${drawingIndex}:`, {
-            type: drawing.type,
-            chartType: drawing.chartType,
-            keys: Object.keys(drawing),
-          });
+        (worksheet as any).drawings.forEach((drawing: any) => {
           if (drawing.type === 'chart' || drawing.chartType) {
             const chart: ImportedChart = {
               chartId: `chart-${nanoid()}`,
@@ -1971,18 +4525,20 @@ async function importExcelWithImages(
           }
         });
       } catch (error) {
-        console.warn('[fileImport] 处理 drawings 图表时出错:', error);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理 drawings 图表时出错: ${getErrorMessage(error)}`,
+        });
       }
     }
 
     // 方法2: 检查 _charts 属性（某些版本的 ExcelJS 可能使用这个）
     if ((worksheet as any)._charts && Array.isArray((worksheet as any)._charts)) {
       try {
-        console.log(
-          `[fileImport] Sheet "${sheetName}" 发现 ${(worksheet as any)._charts.length} 个 _charts`,
-        );
-        (worksheet as any)._charts.forEach((chart: any, chartIndex: number) => {
-          console.log(`[fileImport] _chart ${chartIndex}:`, Object.keys(chart));
+        (worksheet as any)._charts.forEach((chart: any) => {
           const chartData: ImportedChart = {
             chartId: `chart-${nanoid()}`,
             sheetId: sheetKey,
@@ -2003,7 +4559,13 @@ async function importExcelWithImages(
           worksheetCharts.push(chartData);
         });
       } catch (error) {
-        console.warn('[fileImport] 处理 _charts 时出错:', error);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理 _charts 时出错: ${getErrorMessage(error)}`,
+        });
       }
     }
 
@@ -2012,18 +4574,29 @@ async function importExcelWithImages(
       try {
         (worksheet as any)._media.forEach((media: any, mediaIndex: number) => {
           if (media.type === 'chart') {
-            console.log(`[fileImport] 在 _media 中发现图表 ${mediaIndex}`);
+            diagnostics.push({
+              severity: 'info',
+              code: 'CHART_SKIPPED',
+              sheetName,
+              sheetId: sheetKey,
+              message: `_media 中的图表 ${mediaIndex} 暂不支持导入`,
+            });
           }
         });
       } catch (error) {
-        console.warn('[fileImport] 处理 _media 时出错:', error);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CHART_FAILED',
+          sheetName,
+          sheetId: sheetKey,
+          message: `处理 _media 时出错: ${getErrorMessage(error)}`,
+        });
       }
     }
 
     // 将收集到的图表添加到全局收集器
     if (worksheetCharts.length > 0) {
       allCharts[sheetKey] = worksheetCharts;
-      console.log(`[fileImport] Sheet "${sheetName}" 共发现 ${worksheetCharts.length} 个图表`);
     }
 
     // 兼容旧代码：同时保留局部 charts 数组
@@ -2062,12 +4635,19 @@ async function importExcelWithImages(
       // 添加图片和图表数据
       ...(images.length > 0 && { images }),
       ...(charts.length > 0 && { charts }),
-      // 数据验证 (条件格式通过 resources 添加，不在 worksheet 中)
-      ...(dataValidations.length > 0 && { dataValidations }),
     } as IWorksheetData;
 
     univerWorkbook.sheets[sheetKey] = univerSheet;
-  });
+    onProgress?.({ phase: 'sheet', sheetIndex, sheetName, rowsProcessed: totalRows, totalRows });
+  };
+
+  const worksheets = workbook.worksheets;
+  for (let sheetIndex = 0; sheetIndex < worksheets.length; sheetIndex++) {
+    // 工作表之间让出线程，使取消操作有机会生效
+    if (sheetIndex > 0) await yieldToEventLoop();
+    throwIfAborted(signal);
+    await convertWorksheet(worksheets[sheetIndex], sheetIndex);
+  }
 
   // 构建图片资源 (SHEET_DRAWING_PLUGIN)
   if (Object.keys(allDrawings).length > 0) {
@@ -2082,11 +4662,32 @@ async function importExcelWithImages(
     });
   }
 
-  // 条件格式不通过 resources 加载，而是返回给调用方
-  // 调用方需要使用 Facade API (fWorksheet.addConditionalFormattingRule) 来添加
+  // 条件格式默认返回给调用方，通过 Facade API (fWorksheet.addConditionalFormattingRule) 添加
+  // conditionalFormatsAsResource 时写入 resources (SHEET_CONDITIONAL_FORMATTING_PLUGIN)，创建工作簿时加载
+  throwIfAborted(signal);
+  if (context.conditionalFormatsAsResource) {
+    const conditionalFormattingResource = buildConditionalFormattingResource(
+      univerWorkbook,
+      allConditionalFormats,
+      diagnostics,
+    );
+    if (conditionalFormattingResource) {
+      univerWorkbook.resources!.push({
+        name: 'SHEET_CONDITIONAL_FORMATTING_PLUGIN',
+        data: JSON.stringify(conditionalFormattingResource),
+      });
+    }
+  }
+
+  // 差异格式颜色（按颜色筛选、按颜色排序共用）
+  const dxfColors = xlsxPackage ? await readDxfColors(xlsxPackage, styleContext) : [];
 
   // 使用直接解析 xlsx 的方式获取图表（ExcelJS 不支持读取图表）
-  const parsedCharts = await parseChartsFromXlsx(arrayBuffer, sheetNameToIdMap);
+  throwIfAborted(signal);
+  onProgress?.({ phase: 'charts' });
+  const parsedCharts = xlsxPackage
+    ? await parseChartsFromXlsx(xlsxPackage, sheetNameToIdMap, theme, diagnostics)
+    : {};
   // 合并解析到的图表到 allCharts
   for (const [sheetId, chartsArr] of Object.entries(parsedCharts)) {
     if (!allCharts[sheetId]) {
@@ -2095,16 +4696,70 @@ async function importExcelWithImages(
     allCharts[sheetId].push(...chartsArr);
   }
 
+  // 表格（ExcelJS 读取的表格信息不完整，这里直接解析表格部件）
+  // 写入表格样式和筛选器，并将公式中的结构化引用改写为 A1 引用
+  throwIfAborted(signal);
+  const parsedTables = xlsxPackage
+    ? await parseTablesFromXlsx(xlsxPackage, sheetNameToIdMap, dxfColors, diagnostics)
+    : [];
+  if (parsedTables.length > 0) {
+    applyTablesToWorkbook(univerWorkbook, parsedTables, allFilters, theme, diagnostics);
+  }
+
   // 使用直接解析 xlsx 的方式获取透视表（ExcelJS 不支持读取透视表）
-  const parsedPivotTables = await parsePivotTablesFromXlsx(arrayBuffer, sheetNameToIdMap);
+  // 透视表的数据源可能是表格，需在表格之后解析
+  throwIfAborted(signal);
+  onProgress?.({ phase: 'pivotTables' });
+  const parsedPivotTables = xlsxPackage
+    ? await parsePivotTablesFromXlsx(xlsxPackage, sheetNameToIdMap, parsedTables, diagnostics)
+    : [];
 
   // 使用直接解析 xlsx 的方式获取排序信息（ExcelJS 不支持读取排序状态）
-  const parsedSorts = await parseSortsFromXlsx(arrayBuffer, sheetIndexToIdMap);
+  throwIfAborted(signal);
+  onProgress?.({ phase: 'sorts' });
+  const parsedSorts = xlsxPackage
+    ? await parseSortsFromXlsx(xlsxPackage, sheetNameToIdMap, dxfColors, diagnostics)
+    : {};
   // 合并到 allSorts
   for (const [sheetId, sortInfo] of Object.entries(parsedSorts)) {
     allSorts[sheetId] = sortInfo;
   }
 
+  // 筛选条件（ExcelJS 只读取筛选范围）
+  if (xlsxPackage) {
+    await parseFilterCriteriaFromXlsx(
+      xlsxPackage,
+      sheetNameToIdMap,
+      allFilters,
+      dxfColors,
+      diagnostics,
+    );
+  }
+  syncFilterHiddenRows(univerWorkbook, allFilters, diagnostics);
+
+  // 定义名称（ExcelJS 只保留纯区域引用且不区分作用域，这里直接读取 workbook.xml）
+  const parsedDefinedNames = xlsxPackage
+    ? parseDefinedNamesFromXlsx(
+        xlsxPackage,
+        sheetNameToIdMap,
+        diagnostics,
+        parsedTables.map((table) => toStructuredReferenceTable(table)),
+      )
+    : [];
+
+  // 数据验证直接写入 resources (SHEET_DATA_VALIDATION_PLUGIN)，创建工作簿时由数据验证插件加载
+  throwIfAborted(signal);
+  const parsedDataValidations = xlsxPackage
+    ? await parseDataValidationsFromXlsx(xlsxPackage, sheetNameToIdMap, diagnostics)
+    : {};
+  if (Object.keys(parsedDataValidations).length > 0) {
+    univerWorkbook.resources!.push({
+      name: 'SHEET_DATA_VALIDATION_PLUGIN',
+      data: JSON.stringify(parsedDataValidations),
+    });
+  }
+  throwIfAborted(signal);
+
   // 注意：ExcelJS workbook 对象在函数结束后会被 GC 回收
   // 如果内存压力大，可以考虑手动清理
   // @ts-ignore - 帮助 GC 更快回收
@@ -2118,6 +4773,9 @@ async function importExcelWithImages(
     sorts: allSorts,
     charts: allCharts,
     pivotTables: parsedPivotTables,
+    definedNames: parsedDefinedNames,
+    tables: parsedTables,
+    diagnostics,
   };
 }
 
@@ -2130,9 +4788,10 @@ async function importExcelWithImages(
 function parseAutoFilter(autoFilter: any): string | null {
   if (!autoFilter) return null;
 
-  // 如果是字符串，直接返回
+  // 字符串可能带 $ 或为整列引用，统一为 A1:D14 形式
   if (typeof autoFilter === 'string') {
-    return autoFilter;
+    const range = parseA1Reference(autoFilter);
+    return range ? formatA1Range(range) : null;
   }
 
   // 如果是对象格式
@@ -2161,19 +4820,7 @@ function cellRefToA1(ref: { row: number; column: number }): string | null {
     return null;
   }
 
-  const col = ref.column;
-  const row = ref.row;
-
-  // 列号转字母 (1 -> A, 2 -> B, ..., 26 -> Z, 27 -> AA)
-  let colStr = '';
-  let c = col;
-  while (c > 0) {
-    c--;
-    colStr = String.fromCharCode(65 + (c % 26)) + colStr;
-    c = Math.floor(c / 26);
-  }
-
-  return `${colStr}${row}`;
+  return `${columnToLetters(ref.column - 1)}${ref.row}`;
 }
 
 /**
@@ -2257,8 +4904,25 @@ function getOriginalCellValue(cell: ExcelJS.Cell): any {
 
 /**
  * 获取单元格值（增强版 - 支持富文本和超链接）
+ * @param cell 单元格
+ * @param diagnostics 诊断信息（日期转换失败时记录）
+ * @param sheet 单元格所在工作表
  */
-function getCellValue(cell: ExcelJS.Cell): any {
+function getCellValue(
+  cell: ExcelJS.Cell,
+  diagnostics: ImportDiagnostic[],
+  sheet: { sheetName: string; sheetId: string },
+): any {
+  const reportDateError = (detail: string) => {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'DATE_CONVERSION_FAILED',
+      ...sheet,
+      cell: cell.address,
+      message: `日期转换失败: ${detail}`,
+    });
+  };
+
   // 处理公式
   if (cell.type === ExcelJS.ValueType.Formula) {
     // 优先返回计算结果，如果没有结果则保留公式
@@ -2291,6 +4955,7 @@ function getCellValue(cell: ExcelJS.Cell): any {
         }
         return dateValue.toLocaleDateString('zh-CN');
       }
+      reportDateError('日期值无效');
       return String(dateValue);
     }
 
@@ -2312,8 +4977,9 @@ function getCellValue(cell: ExcelJS.Cell): any {
           // 格式化失败，返回日期的本地化字符串
           return date.toLocaleDateString('zh-CN');
         }
+        reportDateError(`序列号 ${dateValue} 超出日期范围，已保留原始值`);
       } catch (error) {
-        console.warn('日期转换失败:', error, '原始值:', dateValue);
+        reportDateError(`${getErrorMessage(error)}，已保留原始值 ${dateValue}`);
       }
       // 无法转换则返回原始数字
       return dateValue;
@@ -2377,8 +5043,9 @@ function getCellValue(cell: ExcelJS.Cell): any {
             // 格式化失败，返回日期的本地化字符串
             return date.toLocaleDateString('zh-CN');
           }
+          reportDateError(`序列号 ${numValue} 超出日期范围，已保留原始值`);
         } catch (error) {
-          console.warn('日期转换失败:', error, '原始值:', numValue);
+          reportDateError(`${getErrorMessage(error)}，已保留原始值 ${numValue}`);
         }
         // 转换失败，返回原始数字
         return numValue;
@@ -2458,7 +5125,7 @@ function getCellType(cell: ExcelJS.Cell, actualValue?: any): number | null {
 /**
  * 转换富文本格式
  */
-function convertRichText(richText: ExcelJS.RichText[]): any {
+function convertRichText(richText: ExcelJS.RichText[], styleContext: WorkbookStyleContext): any {
   if (!richText || richText.length === 0) {
     return undefined;
   }
@@ -2486,10 +5153,11 @@ function convertRichText(richText: ExcelJS.RichText[]): any {
       if (rt.font.underline) textRun.ts = { ...textRun.ts, ul: { s: 1 } };
       if (rt.font.strike) textRun.ts = { ...textRun.ts, st: { s: 1 } };
       if (rt.font.size) textRun.ts = { ...textRun.ts, fs: rt.font.size };
-      if (rt.font.name) textRun.ts = { ...textRun.ts, ff: rt.font.name };
+      const fontFamily = resolveThemeFont(styleContext.theme, rt.font.name, rt.font.scheme);
+      if (fontFamily) textRun.ts = { ...textRun.ts, ff: fontFamily };
       // 使用增强的颜色解析（支持 theme + tint）
       if (rt.font.color) {
-        const fontColor = parseExcelColor(rt.font.color);
+        const fontColor = parseExcelColor(rt.font.color, styleContext);
         if (fontColor) {
           textRun.ts = {
             ...textRun.ts,
@@ -2509,23 +5177,6 @@ function convertRichText(richText: ExcelJS.RichText[]): any {
   return body.textRuns.length > 0 ? body : undefined;
 }
 
-/**
- * Excel 默认主题颜色（Office 主题）
- * theme 0-9 对应的基础颜色
- */
-const EXCEL_THEME_COLORS: Record<number, string> = {
-  0: 'FFFFFF', // lt1 (Light 1) - 通常是白色
-  1: '000000', // dk1 (Dark 1) - 通常是黑色
-  2: 'E7E6E6', // lt2 (Light 2) - 浅灰
-  3: '44546A', // dk2 (Dark 2) - 深蓝灰
-  4: '4472C4', // accent1 - 蓝色
-  5: 'ED7D31', // accent2 - 橙色
-  6: 'A5A5A5', // accent3 - 灰色
-  7: 'FFC000', // accent4 - 金色
-  8: '5B9BD5', // accent5 - 浅蓝
-  9: '70AD47', // accent6 - 绿色
-};
-
 /**
  * 将 hex 颜色转换为 RGB
  */
@@ -2583,11 +5234,29 @@ function applyTint(hex: string, tint: number): string {
   return rgbToHex(r, g, b);
 }
 
+/**
+ * 解析样式颜色和字体所需的工作簿设置
+ */
+interface WorkbookStyleContext {
+  /** 工作簿主题（主题颜色和主题字体） */
+  theme: WorkbookTheme;
+  /** indexed 调色板（6 位 hex，不含 #）；styles.xml 中的 <indexedColors> 覆盖默认调色板 */
+  indexedColors: string[];
+}
+
+/** indexed 64、65：系统前景色（窗口文本）和系统背景色（窗口背景） */
+const SYSTEM_INDEXED_COLORS: Record<number, string> = {
+  64: '000000',
+  65: 'FFFFFF',
+};
+
 /**
  * 从 ExcelJS 颜色对象解析颜色
- * 支持 argb、theme+tint、indexed 等格式
+ * 支持 argb、theme+tint、indexed、auto 等格式
+ * @param color 颜色对象
+ * @param styleContext 工作簿主题和 indexed 调色板
  */
-function parseExcelColor(color: any): string | null {
+function parseExcelColor(color: any, styleContext: WorkbookStyleContext): string | null {
   if (!color) return null;
 
   // 1. 直接使用 argb 值
@@ -2597,7 +5266,7 @@ function parseExcelColor(color: any): string | null {
 
   // 2. 使用主题颜色 + tint
   if (typeof color.theme === 'number') {
-    const baseColor = EXCEL_THEME_COLORS[color.theme];
+    const baseColor = styleContext.theme.colors[color.theme];
     if (baseColor) {
       if (typeof color.tint === 'number' && color.tint !== 0) {
         return applyTint(baseColor, color.tint);
@@ -2606,24 +5275,16 @@ function parseExcelColor(color: any): string | null {
     }
   }
 
-  // 3. indexed 颜色（Excel 调色板索引）- 简化处理常用颜色
+  // 3. indexed 颜色：0-63 为调色板索引，64、65 为系统颜色
   if (typeof color.indexed === 'number') {
-    // 常用的 indexed 颜色
-    const INDEXED_COLORS: Record<number, string> = {
-      0: '#000000', // Black
-      1: '#FFFFFF', // White
-      2: '#FF0000', // Red
-      3: '#00FF00', // Green
-      4: '#0000FF', // Blue
-      5: '#FFFF00', // Yellow
-      6: '#FF00FF', // Magenta
-      7: '#00FFFF', // Cyan
-      8: '#000000', // Black
-      9: '#FFFFFF', // White
-      64: '#000000', // System foreground
-      65: '#FFFFFF', // System background
-    };
-    return INDEXED_COLORS[color.indexed] || null;
+    const indexedColor =
+      styleContext.indexedColors[color.indexed] ?? SYSTEM_INDEXED_COLORS[color.indexed];
+    return indexedColor ? `#${indexedColor}` : null;
+  }
+
+  // 4. 自动颜色（auto="1"）：按系统前景色显示
+  if (color.auto) {
+    return `#${SYSTEM_INDEXED_COLORS[64]}`;
   }
 
   return null;
@@ -2631,8 +5292,10 @@ function parseExcelColor(color: any): string | null {
 
 /**
  * 转换单元格样式
+ * @param style ExcelJS 样式
+ * @param styleContext 工作簿主题和 indexed 调色板
  */
-function convertCellStyle(style: Partial<ExcelJS.Style>): any {
+function convertCellStyle(style: Partial<ExcelJS.Style>, styleContext: WorkbookStyleContext): any {
   const univerStyle: any = {};
 
   // 字体样式
@@ -2642,10 +5305,11 @@ function convertCellStyle(style: Partial<ExcelJS.Style>): any {
     if (style.font.underline) univerStyle.ul = { s: 1 };
     if (style.font.strike) univerStyle.st = { s: 1 };
     if (style.font.size) univerStyle.fs = style.font.size;
-    if (style.font.name) univerStyle.ff = style.font.name;
+    const fontFamily = resolveThemeFont(styleContext.theme, style.font.name, style.font.scheme);
+    if (fontFamily) univerStyle.ff = fontFamily;
     // 使用增强的颜色解析
     if (style.font.color) {
-      const fontColor = parseExcelColor(style.font.color);
+      const fontColor = parseExcelColor(style.font.color, styleContext);
       if (fontColor) {
         univerStyle.cl = { rgb: fontColor };
       }
@@ -2657,7 +5321,7 @@ function convertCellStyle(style: Partial<ExcelJS.Style>): any {
     const patternFill = style.fill as ExcelJS.FillPattern;
     // 使用增强的颜色解析
     if (patternFill.fgColor) {
-      const bgColor = parseExcelColor(patternFill.fgColor);
+      const bgColor = parseExcelColor(patternFill.fgColor, styleContext);
       if (bgColor) {
         univerStyle.bg = { rgb: bgColor };
       }
@@ -2679,7 +5343,7 @@ function convertCellStyle(style: Partial<ExcelJS.Style>): any {
 
   // 边框
   if (style.border) {
-    const bd = convertBorder(style.border);
+    const bd = convertBorder(style.border, styleContext);
     if (bd) {
       univerStyle.bd = bd;
     }
@@ -2696,60 +5360,98 @@ function convertCellStyle(style: Partial<ExcelJS.Style>): any {
   return Object.keys(univerStyle).length > 0 ? univerStyle : undefined;
 }
 
+/**
+ * 转换条件格式的差异格式（dxf）样式
+ * ExcelJS 已按 dxfId 解析为样式对象；dxf 的纯色填充颜色保存在 bgColor 中。
+ * 只保留 Univer 条件格式支持的字体和填充设置
+ */
+function convertDxfStyle(
+  style: Partial<ExcelJS.Style> | undefined,
+  styleContext: WorkbookStyleContext,
+): any {
+  const univerStyle: any = {};
+  const font = style?.font;
+  if (font) {
+    if (font.bold !== undefined) univerStyle.bl = font.bold ? 1 : 0;
+    if (font.italic !== undefined) univerStyle.it = font.italic ? 1 : 0;
+    if (font.underline !== undefined) univerStyle.ul = { s: font.underline ? 1 : 0 };
+    if (font.strike !== undefined) univerStyle.st = { s: font.strike ? 1 : 0 };
+    const fontColor = parseExcelColor(font.color, styleContext);
+    if (fontColor) univerStyle.cl = { rgb: fontColor };
+  }
+  if (style?.fill && style.fill.type !== 'gradient') {
+    const fill = style.fill as ExcelJS.FillPattern;
+    const bgColor =
+      parseExcelColor(fill.bgColor, styleContext) || parseExcelColor(fill.fgColor, styleContext);
+    if (bgColor) univerStyle.bg = { rgb: bgColor };
+  }
+  return univerStyle;
+}
+
+/**
+ * Excel 水平对齐 -> Univer HorizontalAlign（导出时反向使用）
+ */
+export const HORIZONTAL_ALIGNMENT_MAP: Record<string, number> = {
+  left: 1,
+  center: 2,
+  right: 3,
+};
+
+/**
+ * Excel 垂直对齐 -> Univer VerticalAlign（导出时反向使用）
+ */
+export const VERTICAL_ALIGNMENT_MAP: Record<string, number> = {
+  top: 1,
+  middle: 2,
+  bottom: 3,
+};
+
+/**
+ * Excel 边框样式 -> Univer BorderStyleTypes（导出时反向使用）
+ */
+export const BORDER_STYLE_MAP: Record<string, number> = {
+  thin: 1,
+  medium: 2,
+  thick: 3,
+  dotted: 4,
+  dashed: 5,
+  double: 6,
+  hair: 7,
+  mediumDashed: 8,
+  dashDot: 9,
+  mediumDashDot: 10,
+  dashDotDot: 11,
+  mediumDashDotDot: 12,
+  slantDashDot: 13,
+};
+
 /**
  * 转换水平对齐方式
  */
 function convertAlignment(alignment: string): number {
-  const alignmentMap: Record<string, number> = {
-    left: 1,
-    center: 2,
-    right: 3,
-  };
-  return alignmentMap[alignment] || 1;
+  return HORIZONTAL_ALIGNMENT_MAP[alignment] || 1;
 }
 
 /**
  * 转换垂直对齐方式
  */
 function convertVerticalAlignment(alignment: string): number {
-  const alignmentMap: Record<string, number> = {
-    top: 1,
-    middle: 2,
-    bottom: 3,
-  };
-  return alignmentMap[alignment] || 2;
+  return VERTICAL_ALIGNMENT_MAP[alignment] || 2;
 }
 
 /**
  * 转换单个边框样式（保留颜色和样式）
  */
-function convertSingleBorder(border: ExcelJS.Border): any {
+function convertSingleBorder(border: ExcelJS.Border, styleContext: WorkbookStyleContext): any {
   const result: any = { s: 1 }; // 默认样式
 
-  // 边框样式映射
-  const styleMap: Record<string, number> = {
-    thin: 1,
-    medium: 2,
-    thick: 3,
-    dotted: 4,
-    dashed: 5,
-    double: 6,
-    hair: 7,
-    mediumDashed: 8,
-    dashDot: 9,
-    mediumDashDot: 10,
-    dashDotDot: 11,
-    mediumDashDotDot: 12,
-    slantDashDot: 13,
-  };
-
   if (border.style) {
-    result.s = styleMap[border.style] || 1;
+    result.s = BORDER_STYLE_MAP[border.style] || 1;
   }
 
   // 解析边框颜色
   if (border.color) {
-    const color = parseExcelColor(border.color);
+    const color = parseExcelColor(border.color, styleContext);
     if (color) {
       result.cl = { rgb: color };
     } else {
@@ -2759,79 +5461,29 @@ function convertSingleBorder(border: ExcelJS.Border): any {
     result.cl = { rgb: '#000000' };
   }
 
-  return result;
-}
-
-/**
- * 转换边框样式
- */
-function convertBorder(border: Partial<ExcelJS.Borders>): any {
-  const result: any = {};
-
-  if (border.top) {
-    result.t = convertSingleBorder(border.top);
-  }
-  if (border.bottom) {
-    result.b = convertSingleBorder(border.bottom);
-  }
-  if (border.left) {
-    result.l = convertSingleBorder(border.left);
-  }
-  if (border.right) {
-    result.r = convertSingleBorder(border.right);
-  }
-
-  return Object.keys(result).length > 0 ? result : undefined;
-}
-
-/**
- * 解析单元格范围引用（如 "A1:C10" 或 "A1:C10 D1:F10"）
- */
-function parseRangeRef(
-  ref: string,
-): Array<{ startRow: number; endRow: number; startColumn: number; endColumn: number }> {
-  const ranges: Array<{
-    startRow: number;
-    endRow: number;
-    startColumn: number;
-    endColumn: number;
-  }> = [];
-
-  // 支持多个范围（空格分隔）
-  const refParts = ref.split(' ');
-
-  refParts.forEach((part) => {
-    const match = part.match(/([A-Z]+)(\d+):([A-Z]+)(\d+)/i);
-    if (match) {
-      const startColumn = columnLetterToIndex(match[1]);
-      const startRow = parseInt(match[2], 10) - 1;
-      const endColumn = columnLetterToIndex(match[3]);
-      const endRow = parseInt(match[4], 10) - 1;
-
-      ranges.push({ startRow, endRow, startColumn, endColumn });
-    } else {
-      // 单个单元格
-      const singleMatch = part.match(/([A-Z]+)(\d+)/i);
-      if (singleMatch) {
-        const column = columnLetterToIndex(singleMatch[1]);
-        const row = parseInt(singleMatch[2], 10) - 1;
-        ranges.push({ startRow: row, endRow: row, startColumn: column, endColumn: column });
-      }
-    }
-  });
-
-  return ranges;
+  return result;
 }
 
 /**
- * 列字母转索引（A -> 0, B -> 1, AA -> 26）
+ * 转换边框样式
  */
-function columnLetterToIndex(letter: string): number {
-  let index = 0;
-  for (let i = 0; i < letter.length; i++) {
-    index = index * 26 + (letter.charCodeAt(i) - 64);
+function convertBorder(border: Partial<ExcelJS.Borders>, styleContext: WorkbookStyleContext): any {
+  const result: any = {};
+
+  if (border.top) {
+    result.t = convertSingleBorder(border.top, styleContext);
+  }
+  if (border.bottom) {
+    result.b = convertSingleBorder(border.bottom, styleContext);
+  }
+  if (border.left) {
+    result.l = convertSingleBorder(border.left, styleContext);
+  }
+  if (border.right) {
+    result.r = convertSingleBorder(border.right, styleContext);
   }
-  return index - 1;
+
+  return Object.keys(result).length > 0 ? result : undefined;
 }
 
 /**
@@ -2842,12 +5494,10 @@ function convertConditionalFormatRuleForFacade(
   rule: any,
   rangeRefs: string[],
   index: number,
+  styleContext: WorkbookStyleContext,
 ): ImportedConditionalFormat | null {
   if (!rule || !rule.type) return null;
 
-  // 调试日志：输出原始规则数据
-  console.log('[CF Debug] Original rule:', JSON.stringify(rule, null, 2));
-
   const baseConfig = {
     stopIfTrue: rule.stopIfTrue || false,
     priority: rule.priority || index,
@@ -2857,13 +5507,9 @@ function convertConditionalFormatRuleForFacade(
     case 'dataBar':
       // 尝试从多个可能的属性中获取颜色
       const positiveColor =
-        parseExcelColor(rule.color) || parseExcelColor(rule.fillColor) || '#638EC6';
-      console.log(
-        '[CF Debug] dataBar positiveColor:',
-        positiveColor,
-        'from rule.color:',
-        rule.color,
-      );
+        parseExcelColor(rule.color, styleContext) ||
+        parseExcelColor(rule.fillColor, styleContext) ||
+        '#638EC6';
 
       return {
         type: 'dataBar',
@@ -2874,8 +5520,8 @@ function convertConditionalFormatRuleForFacade(
           positiveColor,
           // 负值颜色
           negativeColor:
-            parseExcelColor(rule.negativeFillColor) ||
-            parseExcelColor(rule.negativeBarColor) ||
+            parseExcelColor(rule.negativeFillColor, styleContext) ||
+            parseExcelColor(rule.negativeBarColor, styleContext) ||
             '#FF0000',
           // 是否使用渐变
           gradient: rule.gradient !== false,
@@ -2906,7 +5552,7 @@ function convertConditionalFormatRuleForFacade(
           // 色阶配置：颜色和值的对应关系
           colorScale: (rule.cfvo || []).map((cfvo: any, i: number) => ({
             color:
-              parseExcelColor(rule.color?.[i]) ||
+              parseExcelColor(rule.color?.[i], styleContext) ||
               (i === 0 ? '#F8696B' : i === (rule.cfvo?.length || 1) - 1 ? '#63BE7B' : '#FFEB84'),
             value: {
               type: mapCfvoType(cfvo.type),
@@ -2937,8 +5583,28 @@ function convertConditionalFormatRuleForFacade(
         },
       };
 
+    case 'cellIs':
+    case 'expression':
+    case 'top10':
+    case 'aboveAverage':
+    case 'containsText':
+    case 'notContainsText':
+    case 'beginsWith':
+    case 'endsWith':
+    case 'duplicateValues':
+    case 'uniqueValues':
+    case 'timePeriod': {
+      // 突出显示规则：config.rule 为条件和差异格式（dxf）样式，originalRule 供导出时写回
+      const { rule: highlightRule } = convertConditionalFormatRule(rule, [], index, styleContext);
+      return {
+        type: 'highlightCell',
+        ranges: rangeRefs,
+        config: { ...baseConfig, rule: highlightRule, originalRule: rule },
+      };
+    }
+
     default:
-      // 其他类型（highlightCell 等）暂不支持
+      // 其他类型暂不支持
       return {
         type: 'other',
         ranges: rangeRefs,
@@ -2959,6 +5625,7 @@ function convertConditionalFormatRule(
   rule: any,
   ranges: Array<{ startRow: number; endRow: number; startColumn: number; endColumn: number }>,
   index: number,
+  styleContext: WorkbookStyleContext,
 ): any {
   if (!rule || !rule.type) return null;
 
@@ -2974,35 +5641,38 @@ function convertConditionalFormatRule(
 
   switch (rule.type) {
     case 'dataBar':
-      return convertDataBarRule(baseRule, rule);
+      return convertDataBarRule(baseRule, rule, styleContext);
 
     case 'colorScale':
-      return convertColorScaleRule(baseRule, rule);
+      return convertColorScaleRule(baseRule, rule, styleContext);
 
     case 'iconSet':
       return convertIconSetRule(baseRule, rule);
 
     case 'cellIs':
-      return convertCellIsRule(baseRule, rule);
+      return convertCellIsRule(baseRule, rule, styleContext);
 
     case 'expression':
-      return convertExpressionRule(baseRule, rule);
+      return convertExpressionRule(baseRule, rule, styleContext);
 
     case 'top10':
-      return convertTop10Rule(baseRule, rule);
+      return convertTop10Rule(baseRule, rule, styleContext);
 
     case 'aboveAverage':
-      return convertAboveAverageRule(baseRule, rule);
+      return convertAboveAverageRule(baseRule, rule, styleContext);
 
     case 'containsText':
     case 'notContainsText':
     case 'beginsWith':
     case 'endsWith':
-      return convertTextRule(baseRule, rule);
+      return convertTextRule(baseRule, rule, styleContext);
 
     case 'duplicateValues':
     case 'uniqueValues':
-      return convertDuplicateRule(baseRule, rule);
+      return convertDuplicateRule(baseRule, rule, styleContext);
+
+    case 'timePeriod':
+      return convertTimePeriodRule(baseRule, rule, styleContext);
 
     default:
       // 通用处理
@@ -3031,7 +5701,7 @@ function convertConditionalFormatRule(
  *   }
  * }
  */
-function convertDataBarRule(baseRule: any, rule: any): any {
+function convertDataBarRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   // 解析 cfvo 数组（通常包含 min 和 max 配置）
   let minConfig: any = { type: 'min' };
   let maxConfig: any = { type: 'max' };
@@ -3052,8 +5722,8 @@ function convertDataBarRule(baseRule: any, rule: any): any {
   }
 
   // 解析颜色
-  const positiveColor = parseExcelColor(rule.color) || '#638EC6';
-  const nativeColor = parseExcelColor(rule.negativeFillColor) || '#FF0000';
+  const positiveColor = parseExcelColor(rule.color, styleContext) || '#638EC6';
+  const nativeColor = parseExcelColor(rule.negativeFillColor, styleContext) || '#FF0000';
 
   const dataBar: any = {
     type: 'dataBar',
@@ -3103,7 +5773,7 @@ function mapCfvoType(excelType: string): string {
  *   ]
  * }
  */
-function convertColorScaleRule(baseRule: any, rule: any): any {
+function convertColorScaleRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   const configList: any[] = [];
 
   // cfvo 和 color 是对应的数组
@@ -3117,7 +5787,7 @@ function convertColorScaleRule(baseRule: any, rule: any): any {
     configList.push({
       index: i,
       color:
-        parseExcelColor(color) ||
+        parseExcelColor(color, styleContext) ||
         (i === 0 ? '#F8696B' : i === cfvoList.length - 1 ? '#63BE7B' : '#FFEB84'),
       value: {
         type: mapCfvoType(cfvo?.type || 'min'),
@@ -3183,15 +5853,14 @@ function convertIconSetRule(baseRule: any, rule: any): any {
 /**
  * 转换单元格值比较规则
  */
-function convertCellIsRule(baseRule: any, rule: any): any {
+function convertCellIsRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   return {
     ...baseRule,
     rule: {
       type: 'cellIs',
       operator: rule.operator, // 'equal', 'notEqual', 'greaterThan', 'lessThan', etc.
       formulae: rule.formulae || [],
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
@@ -3199,14 +5868,13 @@ function convertCellIsRule(baseRule: any, rule: any): any {
 /**
  * 转换公式规则
  */
-function convertExpressionRule(baseRule: any, rule: any): any {
+function convertExpressionRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   return {
     ...baseRule,
     rule: {
       type: 'expression',
       formulae: rule.formulae || [],
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
@@ -3214,7 +5882,7 @@ function convertExpressionRule(baseRule: any, rule: any): any {
 /**
  * 转换 Top10 规则
  */
-function convertTop10Rule(baseRule: any, rule: any): any {
+function convertTop10Rule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   return {
     ...baseRule,
     rule: {
@@ -3222,8 +5890,7 @@ function convertTop10Rule(baseRule: any, rule: any): any {
       rank: rule.rank || 10,
       percent: rule.percent || false,
       bottom: rule.bottom || false,
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
@@ -3231,7 +5898,11 @@ function convertTop10Rule(baseRule: any, rule: any): any {
 /**
  * 转换高于/低于平均值规则
  */
-function convertAboveAverageRule(baseRule: any, rule: any): any {
+function convertAboveAverageRule(
+  baseRule: any,
+  rule: any,
+  styleContext: WorkbookStyleContext,
+): any {
   return {
     ...baseRule,
     rule: {
@@ -3239,25 +5910,26 @@ function convertAboveAverageRule(baseRule: any, rule: any): any {
       aboveAverage: rule.aboveAverage !== false, // 默认 true（高于平均值）
       equalAverage: rule.equalAverage || false,
       stdDev: rule.stdDev, // 标准差
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
 
 /**
  * 转换文本规则
+ * ExcelJS 不保留 text 属性，从公式中的字符串常量取回（如 NOT(ISERROR(SEARCH("abc",A1)))）；
+ * 包含空值、错误等规则的 type 为 containsText，operator 区分具体条件
  */
-function convertTextRule(baseRule: any, rule: any): any {
+function convertTextRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
+  const literal = rule.formulae?.[0]?.match(/"((?:[^"]|"")*)"/)?.[1];
   return {
     ...baseRule,
     rule: {
       type: rule.type,
-      text: rule.text,
+      text: rule.text ?? literal?.replace(/""/g, '"'),
       operator: rule.operator,
       formulae: rule.formulae || [],
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
@@ -3265,13 +5937,27 @@ function convertTextRule(baseRule: any, rule: any): any {
 /**
  * 转换重复值/唯一值规则
  */
-function convertDuplicateRule(baseRule: any, rule: any): any {
+function convertDuplicateRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
   return {
     ...baseRule,
     rule: {
       type: rule.type,
-      style: rule.style || {},
-      dxfId: rule.dxfId,
+      style: convertDxfStyle(rule.style, styleContext),
+    },
+  };
+}
+
+/**
+ * 转换发生日期规则
+ */
+function convertTimePeriodRule(baseRule: any, rule: any, styleContext: WorkbookStyleContext): any {
+  return {
+    ...baseRule,
+    rule: {
+      type: 'timePeriod',
+      timePeriod: rule.timePeriod,
+      formulae: rule.formulae || [],
+      style: convertDxfStyle(rule.style, styleContext),
     },
   };
 }
@@ -3435,12 +6121,12 @@ function parseNumFormat(numFmt: string): any {
 
 /**
  * 增强版 CSV 导入函数
- * @param file - CSV 文件对象
+ * @param file - CSV 文件对象或文件内容
  * @param options - 导入选项
  * @returns IWorkbookData
  */
 export async function importCsv(
-  file: File | Blob,
+  file: File | Blob | ArrayBuffer,
   options: {
     delimiter?: string; // 分隔符，默认自动检测
     encoding?: string; // 编码，默认 UTF-8
@@ -3448,6 +6134,7 @@ export async function importCsv(
     sheetName?: string; // 工作表名称
     skipEmptyLines?: boolean; // 跳过空行，默认 true
     trimValues?: boolean; // 修剪单元格值的空白，默认 true
+    diagnostics?: ImportDiagnostic[]; // 诊断信息（编码回退时记录）
   } = {},
 ): Promise<IWorkbookData> {
   const {
@@ -3457,19 +6144,18 @@ export async function importCsv(
     sheetName = 'Sheet1',
     skipEmptyLines = true,
     trimValues = true,
+    diagnostics,
   } = options;
 
   try {
     // 读取文件内容，支持多种编码
+    const arrayBuffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
     let text: string;
     try {
-      const arrayBuffer = await file.arrayBuffer();
       const decoder = new TextDecoder(encoding);
       text = decoder.decode(arrayBuffer);
     } catch (encodingError) {
       // 如果指定编码失败，尝试其他常见编码
-      console.warn(`编码 ${encoding} 失败，尝试其他编码`);
-      const arrayBuffer = await file.arrayBuffer();
       const fallbackEncodings = ['UTF-8', 'GBK', 'GB2312', 'ISO-8859-1'];
       let decoded = false;
 
@@ -3478,6 +6164,12 @@ export async function importCsv(
           const decoder = new TextDecoder(enc);
           text = decoder.decode(arrayBuffer);
           decoded = true;
+          diagnostics?.push({
+            severity: 'warning',
+            code: 'ENCODING_FALLBACK',
+            sheetName,
+            message: `编码 ${encoding} 无法使用，已改用 ${enc} 解码`,
+          });
           break;
         } catch (e) {
           continue;
@@ -3485,7 +6177,10 @@ export async function importCsv(
       }
 
       if (!decoded) {
-        throw new Error('无法解码文件内容');
+        throw new EncodingError(`无法解码文件内容（编码: ${encoding}）`, {
+          encoding,
+          cause: encodingError,
+        });
       }
     }
 
@@ -3573,8 +6268,10 @@ export async function importCsv(
 
     return getWorkbookDataBySheets([sheet]);
   } catch (error) {
-    console.error('CSV 导入失败:', error);
-    throw new Error(`CSV 导入失败: ${error.message}`);
+    if (error instanceof ImportError) {
+      throw error;
+    }
+    throw new CorruptFileError(`CSV 导入失败: ${getErrorMessage(error)}`, { cause: error });
   }
 }
 
@@ -3772,7 +6469,7 @@ function convertCellType(value: string): any {
  * @param date JavaScript Date 对象
  * @returns Excel 序列号
  */
-function dateToExcelSerial(date: Date): number {
+export function dateToExcelSerial(date: Date): number {
   // Excel 的日期起点是 1899-12-30（因为 Excel 错误地认为 1900 是闰年）
   const excelEpoch = new Date(Date.UTC(1899, 11, 30));
   const msPerDay = 24 * 60 * 60 * 1000;
@@ -3799,17 +6496,9 @@ function excelSerialToDate(serial: number): Date | null {
   const excelEpoch = new Date(Date.UTC(1899, 11, 30));
   const msPerDay = 24 * 60 * 60 * 1000;
 
-  try {
-    const date = new Date(excelEpoch.getTime() + serial * msPerDay);
-    // 验证日期是否有效
-    if (date instanceof Date && !isNaN(date.getTime())) {
-      return date;
-    }
-  } catch (error) {
-    console.warn('Excel 序列号转换日期失败:', error, '序列号:', serial);
-  }
-
-  return null;
+  const date = new Date(excelEpoch.getTime() + serial * msPerDay);
+  // 验证日期是否有效（超出 Date 范围时为 Invalid Date）
+  return isNaN(date.getTime()) ? null : date;
 }
 
 /**
@@ -3817,7 +6506,7 @@ function excelSerialToDate(serial: number): Date | null {
  * @param dateStr 日期字符串，如 "2026/1/7", "2026-01-07", "2026年1月7日" 等
  * @returns Date 对象，如果解析失败返回 null
  */
-function parseDateString(dateStr: string): Date | null {
+export function parseDateString(dateStr: string): Date | null {
   if (!dateStr || typeof dateStr !== 'string') {
     return null;
   }
@@ -4182,7 +6871,6 @@ async function insertImagesAfterImport(
       result.success++;
       onProgress?.(i + 1, images.length, image);
     } catch (error) {
-      console.warn(`插入图片 ${i + 1} 失败:`, error);
       result.failed++;
       result.errors.push({
         image,
@@ -4227,8 +6915,7 @@ async function insertFloatingImages(
         img.offsetY || 0,
       );
       result.success++;
-    } catch (error) {
-      console.warn('插入浮动图片失败:', error);
+    } catch {
       result.failed++;
     }
   }
@@ -4261,8 +6948,7 @@ async function insertCellImages(
       } else {
         result.failed++;
       }
-    } catch (error) {
-      console.warn(`插入单元格图片失败 (${img.cellAddress}):`, error);
+    } catch {
       result.failed++;
     }
   }
@@ -4284,14 +6970,73 @@ export interface ImageInsertOptions {
   onProgress?: (current: number, total: number) => void;
 }
 
+/**
+ * 导入阶段
+ * - loading：读取并解析文件
+ * - sheet：逐个工作表转换单元格
+ * - charts / pivotTables / sorts：解析 xlsx 包中的图表、透视表、排序
+ * - done：导入完成
+ */
+export type ImportProgressPhase = 'loading' | 'sheet' | 'charts' | 'pivotTables' | 'sorts' | 'done';
+
+/**
+ * 导入进度
+ */
+export interface ImportProgress {
+  /** 当前阶段 */
+  phase: ImportProgressPhase;
+  /** 当前工作表索引（0-based，仅 sheet 阶段） */
+  sheetIndex?: number;
+  /** 当前工作表名称（仅 sheet 阶段） */
+  sheetName?: string;
+  /** 当前工作表已处理行数（仅 sheet 阶段） */
+  rowsProcessed?: number;
+  /** 当前工作表总行数（仅 sheet 阶段） */
+  totalRows?: number;
+}
+
 /**
  * 文件导入选项
  */
 export interface FileImportOptions {
   /** 是否包含图片（默认 true） */
   includeImages?: boolean;
+  /**
+   * 是否在 Web Worker 中执行导入（默认 false）
+   * 大文件解析不再阻塞 UI 线程；不支持 Worker 的环境自动回退到主线程
+   * 也可以传入 Worker 实例或创建函数，见 ImportWorkerOption
+   */
+  worker?: ImportWorkerOption;
+  /** 进度回调，覆盖文件加载、逐表单元格转换、图表、透视表、排序各阶段 */
+  onProgress?: (progress: ImportProgress) => void;
+  /**
+   * 取消信号
+   * 在工作表之间、行分块之间检查，触发后以 ImportAbortedError 拒绝
+   */
+  signal?: AbortSignal;
+  /**
+   * 显式指定文件格式，跳过内容识别
+   * 未指定时按文件内容识别（ZIP → xlsx，CFB → xls，文本 → csv）
+   */
+  format?: ImportFileFormat;
+  /**
+   * 文件名，用于工作簿名称和空文件的格式判断
+   * 传入 File 时默认取 file.name；Blob / ArrayBuffer / Uint8Array 没有文件名，可通过此项指定
+   */
+  fileName?: string;
+  /**
+   * 是否将条件格式写入 workbookData.resources（SHEET_CONDITIONAL_FORMATTING_PLUGIN，默认 false）
+   * 启用后 univerAPI.createWorkbook(workbookData) 即可还原条件格式，并随工作簿快照保存，
+   * 无需再调用 addConditionalFormatsToWorkbook；无法转换的规则仍保留在 conditionalFormats 中
+   */
+  conditionalFormatsAsResource?: boolean;
 }
 
+/**
+ * 导入源：File、Blob（如 fetch 响应、拖放数据）或二进制内容
+ */
+export type ImportSource = File | Blob | ArrayBuffer | Uint8Array;
+
 /**
  * 文件导入结果
  */
@@ -4302,7 +7047,7 @@ export interface FileImportResult {
   images: ImportedImage[];
   /**
    * 条件格式数据，按 sheetId 分组
-   * 需要在工作簿创建后通过 Facade API 添加
+   * 需要在工作簿创建后通过 Facade API 添加；conditionalFormatsAsResource 时仅包含未能写入资源的规则
    */
   conditionalFormats: Record<string, ImportedConditionalFormat[]>;
   /**
@@ -4325,12 +7070,28 @@ export interface FileImportResult {
    * 需要在工作簿创建后通过 Facade API 添加
    */
   pivotTables: ImportedPivotTable[];
+  /**
+   * 定义名称（命名区域）列表，包括工作表级名称、隐藏名称和打印区域等内置名称
+   * 需要在工作簿创建后通过 addDefinedNamesToWorkbook 添加
+   */
+  definedNames: ImportedDefinedName[];
+  /**
+   * 表格（ListObject）列表
+   * 表格样式、筛选按钮和结构化引用已在导入时写入工作簿，这里仅提供表格结构信息
+   */
+  tables: ImportedTable[];
+  /**
+   * 诊断信息
+   * 记录导入过程中被跳过、降级或解析失败的内容，可用于向用户展示
+   */
+  diagnostics: ImportDiagnostic[];
 }
 
 /**
  * 统一的文件导入接口
  *
- * 支持 Excel (.xlsx, .xls) 和 CSV (.csv) 文件
+ * 支持 Excel (.xlsx, .xls) 和 CSV (.csv) 文件。文件格式按内容识别，不依赖扩展名，
+ * 也可以通过 options.format 显式指定。
  *
  * @example
  * ```ts
@@ -4348,27 +7109,57 @@ export interface FileImportResult {
  * }
  * ```
  *
- * @param file 文件对象
+ * @param file 文件对象、Blob 或文件内容（ArrayBuffer / Uint8Array）
  * @param options 导入选项
  * @returns 导入结果，包含 workbookData、images 和 insertImages 方法
+ * @throws {UnsupportedFormatError} 文件格式不支持
+ * @throws {EncryptedFileError} 文件已加密
+ * @throws {EncodingError} CSV 文件无法解码
+ * @throws {CorruptFileError} 文件已损坏或无法解析
+ * @throws {ImportAbortedError} 导入被取消
  */
 export async function importFile(
-  file: File,
+  file: ImportSource,
   options: FileImportOptions = {},
 ): Promise<FileImportResult> {
-  const { includeImages = true } = options;
+  const {
+    includeImages = true,
+    worker = false,
+    onProgress,
+    signal,
+    format,
+    conditionalFormatsAsResource,
+  } = options;
+  throwIfAborted(signal);
 
-  // 获取文件类型
-  const fileExt = file.name.split('.').pop()?.toLowerCase();
-  if (!fileExt || !['xlsx', 'xls', 'csv'].includes(fileExt)) {
-    throw new Error(`不支持的文件格式: ${fileExt}`);
+  // Worker 模式：整个导入流程在 Worker 中执行
+  const diagnostics: ImportDiagnostic[] = [];
+  if (worker) {
+    if (isWorkerSupported()) {
+      return runImportInWorker(file, options);
+    }
+    diagnostics.push({
+      severity: 'info',
+      code: 'WORKER_FALLBACK',
+      message: '当前环境不支持 Web Worker，已回退到主线程导入',
+    });
   }
 
-  const fileType = fileExt as 'xlsx' | 'xls' | 'csv';
+  // 按内容识别文件类型
+  const fileName = options.fileName ?? (file as Partial<File>).name ?? '';
+  const arrayBuffer = await readImportSource(file);
+  throwIfAborted(signal);
+  const fileType = resolveImportFormat(new Uint8Array(arrayBuffer), fileName, format, diagnostics);
 
   // 使用统一的内部函数处理文件导入
-  const result = await handleFileImport(file, fileType, includeImages);
+  const result = await handleFileImport(arrayBuffer, fileName, fileType, includeImages, {
+    onProgress,
+    signal,
+    conditionalFormatsAsResource,
+  });
+  onProgress?.({ phase: 'done' });
   const { workbookData, images, conditionalFormats, filters, sorts, charts, pivotTables } = result;
+  diagnostics.push(...result.diagnostics);
 
   // 返回结果
   return {
@@ -4379,298 +7170,504 @@ export async function importFile(
     sorts,
     charts,
     pivotTables,
+    definedNames: result.definedNames,
+    tables: result.tables,
+    diagnostics,
   };
 }
 
+/**
+ * 在 Web Worker 中导入文件（等同于 importFile(file, { ...options, worker: true })）
+ *
+ * ExcelJS 解析、图表/透视表/排序解析和图片编码全部在 Worker 中完成，
+ * 返回的 FileImportResult 为可结构化克隆的纯数据。
+ *
+ * @example
+ * ```ts
+ * const result = await importFileInWorker(file);
+ *
+ * // 打包工具无法自动处理 worker 地址时，可自行创建（以 Vite 为例）
+ * import ImportWorker from 'univer-file-import/worker?worker';
+ * const result = await importFileInWorker(file, { worker: () => new ImportWorker() });
+ * ```
+ *
+ * @param file 文件对象、Blob 或文件内容（ArrayBuffer / Uint8Array）
+ * @param options 导入选项
+ */
+export async function importFileInWorker(
+  file: ImportSource,
+  options: FileImportOptions = {},
+): Promise<FileImportResult> {
+  return importFile(file, { ...options, worker: options.worker || true });
+}
+
+/**
+ * importBuffer 选项
+ */
+export type BufferImportOptions = Omit<FileImportOptions, 'worker'>;
+
+/**
+ * 从二进制内容导入（适用于 Node.js 服务端）
+ *
+ * 不依赖 File、Blob、btoa 等浏览器 API，Node.js 18+ 中可直接使用，
+ * 返回与 importFile 相同的 FileImportResult（图片为 base64 data URL）。
+ *
+ * @example
+ * ```ts
+ * import { readFile } from 'node:fs/promises';
+ *
+ * const buffer = await readFile('report.xlsx');
+ * const { workbookData } = await importBuffer(buffer, { fileName: 'report.xlsx' });
+ * ```
+ *
+ * @param buffer 文件内容（ArrayBuffer、Uint8Array 或 Node.js Buffer）
+ * @param options 导入选项，fileName 用于工作簿名称，format 可显式指定格式
+ */
+export async function importBuffer(
+  buffer: ArrayBuffer | Uint8Array,
+  options: BufferImportOptions = {},
+): Promise<FileImportResult> {
+  return importFile(buffer, { ...options, worker: false });
+}
+
 /**
  * 添加条件格式到工作簿
  * 使用 Univer Facade API (FWorksheet.addConditionalFormattingRule)
  * @param univerAPI Univer API 实例
  * @param conditionalFormats 条件格式数据，按 sheetId 分组
+ * @returns 每条规则的添加结果
  */
 export async function addConditionalFormatsToWorkbook(
   univerAPI: any,
   conditionalFormats: Record<string, ImportedConditionalFormat[]>,
-): Promise<void> {
+): Promise<WorkbookItemResult[]> {
+  const results: WorkbookItemResult[] = [];
   const fWorkbook = univerAPI.getActiveWorkbook();
-  if (!fWorkbook) {
-    console.warn('[fileImport] 无法获取活动工作簿');
-    return;
-  }
 
   for (const [sheetId, rules] of Object.entries(conditionalFormats)) {
     // 根据 sheetId 获取工作表
-    const fWorksheet = fWorkbook.getSheetBySheetId(sheetId);
-    if (!fWorksheet) {
-      continue;
-    }
+    const fWorksheet = fWorkbook?.getSheetBySheetId(sheetId);
+
+    rules.forEach((cfRule, index) => {
+      const item = { id: `${sheetId}#${index}`, sheetId, range: cfRule.ranges?.join(',') };
+      if (!fWorkbook) {
+        results.push({ ...item, success: false, message: '无法获取活动工作簿' });
+      } else if (!fWorksheet) {
+        results.push({ ...item, success: false, message: `未找到工作表: ${sheetId}` });
+      }
+    });
+    if (!fWorksheet) continue;
 
-    for (const cfRule of rules) {
+    for (let index = 0; index < rules.length; index++) {
+      const cfRule = rules[index];
+      const item = { id: `${sheetId}#${index}`, sheetId, range: cfRule.ranges?.join(',') };
       try {
         await addSingleConditionalFormat(fWorksheet, cfRule);
+        results.push({ ...item, success: true });
       } catch (err) {
-        console.error(`[fileImport] 添加条件格式失败:`, err, cfRule);
+        results.push({ ...item, success: false, message: getErrorMessage(err) });
       }
     }
   }
-}
 
-/**
- * 添加单个条件格式规则
- * @internal
- */
-/**
- * 将列字母转换为数字（1-based，用于范围裁剪）
- * A=1, B=2, ..., Z=26, AA=27, ...
- */
-function colToNum1Based(col: string): number {
-  let num = 0;
-  for (let i = 0; i < col.length; i++) {
-    num = num * 26 + (col.charCodeAt(i) - 64);
-  }
-  return num;
+  return results;
 }
 
+/** 单元格值规则运算符 -> 比较符号 */
+const CELL_IS_COMPARATORS: Record<string, string> = {
+  equal: '=',
+  notEqual: '<>',
+  greaterThan: '>',
+  greaterThanOrEqual: '>=',
+  lessThan: '<',
+  lessThanOrEqual: '<=',
+};
+
+/** 文本规则运算符（ExcelJS）-> Univer CFTextOperator */
+const TEXT_RULE_OPERATORS: Record<string, string> = {
+  containsText: 'containsText',
+  notContains: 'notContainsText',
+  beginsWith: 'beginsWith',
+  endsWith: 'endsWith',
+};
+
+/** 不需要文本的文本规则运算符（ExcelJS 与 Univer 同名） */
+const BLANK_ERROR_OPERATORS = [
+  'containsBlanks',
+  'notContainsBlanks',
+  'containsErrors',
+  'notContainsErrors',
+];
+
 /**
- * 解析 A1 格式的范围字符串并裁剪到工作表边界内
- * @param rangeStr A1 格式的范围字符串（如 "A1:B10" 或 "K88:XFD90"）
- * @param maxRows 工作表最大行数
- * @param maxCols 工作表最大列数
- * @returns 裁剪后的范围字符串，如果范围完全超出边界则返回 null
+ * 转换突出显示规则为 Univer 规则配置（IHighlightCell）
+ * 操作数为数值时使用数值条件，其余（单元格引用、公式、文本）改写为等价的自定义公式；
+ * 公式中的相对引用以规则首个范围的左上角单元格为基准，与 Excel 一致
+ * @param rule 转换后的突出显示规则（config.rule）
+ * @param topLeft 首个范围的左上角单元格（如 B2）
+ * @returns Univer 规则配置
  */
-function clipRangeToBounds(rangeStr: string, maxRows: number, maxCols: number): string | null {
-  if (!rangeStr || typeof rangeStr !== 'string') {
-    return null;
+function toUniverHighlightCellRule(rule: any, topLeft: string): any {
+  if (!rule) {
+    throw new Error('突出显示规则缺少条件');
   }
+  const formulae: string[] = rule.formulae || [];
+  const base = { type: 'highlightCell', style: rule.style || {} };
 
-  // 解析范围字符串：A1:B10 或 A1（单个单元格）
-  const rangeMatch = rangeStr.match(/^([A-Z]+)(\d+)(:([A-Z]+)(\d+))?$/i);
-  if (!rangeMatch) {
-    return null;
-  }
+  switch (rule.type) {
+    case 'cellIs': {
+      const comparator = CELL_IS_COMPARATORS[rule.operator];
+      const isRange = rule.operator === 'between' || rule.operator === 'notBetween';
+      if (!comparator && !isRange) {
+        throw new Error(`不支持的单元格值运算符: ${rule.operator}`);
+      }
+      const numbers = formulae.map((formula) => Number(formula));
+      const numeric =
+        formulae.length > 0 && numbers.every((n, i) => formulae[i] !== '' && isFinite(n));
+      const text = formulae[0]?.match(/^"((?:[^"]|"")*)"$/)?.[1];
+      if (numeric) {
+        const value = isRange ? [Math.min(...numbers), Math.max(...numbers)] : numbers[0];
+        return { ...base, subType: 'number', operator: rule.operator, value };
+      }
+      if (rule.operator === 'equal' && text !== undefined) {
+        return { ...base, subType: 'text', operator: 'equal', value: text.replace(/""/g, '"') };
+      }
+      if (isRange) {
+        const [first, second] = formulae;
+        const between = `AND(${topLeft}>=MIN(${first},${second}),${topLeft}<=MAX(${first},${second}))`;
+        const value = rule.operator === 'between' ? `=${between}` : `=NOT(${between})`;
+        return { ...base, subType: 'formula', value };
+      }
+      return { ...base, subType: 'formula', value: `=${topLeft}${comparator}(${formulae[0]})` };
+    }
 
-  const startColStr = rangeMatch[1].toUpperCase();
-  let startRow = parseInt(rangeMatch[2], 10);
-  const endColStr = (rangeMatch[4] || startColStr).toUpperCase();
-  let endRow = parseInt(rangeMatch[5] || rangeMatch[2], 10);
+    case 'expression':
+      if (!formulae[0]) {
+        throw new Error('公式规则缺少公式');
+      }
+      return { ...base, subType: 'formula', value: `=${formulae[0].replace(/^=/, '')}` };
 
-  // 转换为数字索引（1-based）
-  let startCol = colToNum1Based(startColStr);
-  let endCol = colToNum1Based(endColStr);
+    case 'top10':
+      return {
+        ...base,
+        subType: 'rank',
+        isBottom: !!rule.bottom,
+        isPercent: !!rule.percent,
+        value: rule.rank ?? 10,
+      };
 
-  // 裁剪到边界内
-  startRow = Math.max(1, Math.min(startRow, maxRows));
-  endRow = Math.max(1, Math.min(endRow, maxRows));
-  startCol = Math.max(1, Math.min(startCol, maxCols));
-  endCol = Math.max(1, Math.min(endCol, maxCols));
+    case 'aboveAverage':
+      // ExcelJS 不保留 equalAverage、stdDev，按严格高于/低于平均值处理
+      return {
+        ...base,
+        subType: 'average',
+        operator: rule.aboveAverage === false ? 'lessThan' : 'greaterThan',
+      };
 
-  // 如果裁剪后范围无效，返回 null
-  if (startRow > endRow || startCol > endCol) {
-    return null;
-  }
+    case 'containsText':
+    case 'notContainsText':
+    case 'beginsWith':
+    case 'endsWith': {
+      if (BLANK_ERROR_OPERATORS.includes(rule.operator)) {
+        return { ...base, subType: 'text', operator: rule.operator, value: '' };
+      }
+      const operator = TEXT_RULE_OPERATORS[rule.operator];
+      if (operator && rule.text !== undefined) {
+        return { ...base, subType: 'text', operator, value: rule.text };
+      }
+      if (formulae[0]) {
+        // 无法取回文本时使用 Excel 保存的等价公式
+        return { ...base, subType: 'formula', value: `=${formulae[0]}` };
+      }
+      throw new Error(`不支持的文本规则: ${rule.operator}`);
+    }
 
-  // 如果范围被裁剪，记录警告
-  const originalEndCol = colToNum1Based(endColStr);
-  if (originalEndCol > maxCols) {
-    console.warn(
-      `[fileImport] 条件格式范围 ${rangeStr} 的列超出边界（最大列: ${maxCols}），已裁剪到 ${numToCol(
-        endCol,
-      )}${endRow}`,
-    );
-  }
+    case 'duplicateValues':
+    case 'uniqueValues':
+      return { ...base, subType: rule.type };
 
-  // 返回裁剪后的范围字符串
-  if (startRow === endRow && startCol === endCol) {
-    // 单个单元格
-    return `${numToCol(startCol)}${startRow}`;
-  } else {
-    // 范围
-    return `${numToCol(startCol)}${startRow}:${numToCol(endCol)}${endRow}`;
+    case 'timePeriod':
+      if (!rule.timePeriod) {
+        throw new Error('发生日期规则缺少日期范围');
+      }
+      return { ...base, subType: 'timePeriod', operator: rule.timePeriod };
+
+    default:
+      throw new Error(`不支持的突出显示规则: ${rule.type}`);
   }
 }
 
-async function addSingleConditionalFormat(
-  fWorksheet: any,
-  cfRule: ImportedConditionalFormat,
-): Promise<void> {
-  const { type, ranges, config } = cfRule;
-  if (!ranges || ranges.length === 0) return;
+/**
+ * 转换为 Univer 条件格式规则（IConditionFormattingRule）
+ * 与条件格式构建器 build() 的结果结构一致，Facade 添加和写入 resources 共用
+ * @param cfRule 导入的条件格式
+ * @param ranges 应用范围（已裁剪到工作表边界内）
+ * @returns Univer 条件格式规则
+ */
+function toUniverConditionalFormatRule(cfRule: ImportedConditionalFormat, ranges: any[]): any {
+  const { type, config } = cfRule;
+  let rule: any;
 
-  // 获取工作表的最大行数和列数
-  const maxRows = fWorksheet.getMaxRows?.() || 1000;
-  const maxCols = fWorksheet.getMaxColumns?.() || 1000;
+  switch (type) {
+    case 'dataBar':
+      rule = {
+        type: 'dataBar',
+        isShowValue: config.showValue !== false,
+        config: {
+          min: config.minValue || { type: 'min' },
+          max: config.maxValue || { type: 'max' },
+          positiveColor: config.positiveColor || '#638EC6',
+          nativeColor: config.negativeColor || '#FF0000',
+          isGradient: config.gradient !== false,
+        },
+      };
+      break;
 
-  // 验证并裁剪所有范围到工作表边界内
-  const validRanges = ranges
-    .map((r: string) => {
-      const clippedRange = clipRangeToBounds(r, maxRows, maxCols);
-      if (!clippedRange) {
-        console.warn(`[fileImport] 条件格式范围 ${r} 超出工作表边界或无效，已跳过`);
-        return null;
+    case 'colorScale':
+      if (!Array.isArray(config.colorScale)) {
+        throw new Error('色阶规则缺少颜色配置');
       }
-      return clippedRange;
-    })
-    .filter((r): r is string => r !== null);
+      rule = {
+        type: 'colorScale',
+        config: config.colorScale.map((cs: any, index: number) => ({
+          index,
+          color: cs.color,
+          value: cs.value || { type: 'num', value: 0 },
+        })),
+      };
+      break;
 
-  if (validRanges.length === 0) {
-    console.warn(`[fileImport] 条件格式规则没有有效范围`);
-    return;
-  }
+    case 'iconSet': {
+      const iconType = config.iconSet || '3Arrows';
+      rule = {
+        type: 'iconSet',
+        isShowValue: config.showValue !== false,
+        config:
+          config.icons?.map((icon: any, index: number) => ({
+            iconType,
+            iconId: String(index),
+            operator: icon.operator || 'greaterThanOrEqual',
+            value: icon.value || { type: 'num', value: 0 },
+          })) || [],
+      };
+      break;
+    }
 
-  // 获取第一个有效范围作为主范围
-  const primaryRange = validRanges[0];
-  let fRange: any = null;
-  try {
-    fRange = fWorksheet.getRange(primaryRange);
-  } catch (error) {
-    console.warn(`[fileImport] 无法获取范围: ${primaryRange}`, error);
-    return;
-  }
+    case 'highlightCell': {
+      const { startRow, startColumn } = ranges[0];
+      const topLeft = `${columnToLetters(startColumn)}${startRow + 1}`;
+      rule = toUniverHighlightCellRule(config.rule, topLeft);
+      break;
+    }
 
-  if (!fRange) {
-    console.warn(`[fileImport] 无法获取范围: ${primaryRange}`);
-    return;
+    default:
+      // 其他类型暂不支持
+      throw new Error(`不支持的条件格式类型: ${type}`);
   }
 
-  // 创建条件格式构建器
-  const builder = fWorksheet.newConditionalFormattingRule();
-  if (!builder) {
-    console.warn('[fileImport] 无法创建条件格式构建器');
-    return;
-  }
+  return { cfId: nanoid(8), ranges, stopIfTrue: !!config.stopIfTrue, rule };
+}
+
+/**
+ * 裁剪条件格式范围到工作表边界内
+ * @param ranges 范围（A1 格式）
+ * @param maxRows 最大行数
+ * @param maxCols 最大列数
+ * @returns 裁剪后的范围（0-based）；全部无效时抛出错误
+ */
+function clipConditionalFormatRanges(
+  ranges: string[],
+  maxRows: number,
+  maxCols: number,
+): A1Range[] {
+  if (!ranges || ranges.length === 0) {
+    throw new Error('条件格式规则没有范围');
+  }
+  // 单个范围超出边界时仅跳过该范围
+  const clipped = parseA1References(ranges.join(' '))
+    .map((range) => clipA1Range(range, maxRows, maxCols))
+    .filter((range): range is A1Range => range !== null);
+  if (clipped.length === 0) {
+    throw new Error(`条件格式范围超出工作表边界或无效: ${ranges.join(',')}`);
+  }
+  return clipped;
+}
+
+/**
+ * 构建条件格式资源（SHEET_CONDITIONAL_FORMATTING_PLUGIN）
+ * 资源结构为 { [sheetId]: IConditionFormattingRule[] }，按优先级从高到低排列
+ * @param workbookData 工作簿数据（用于裁剪范围）
+ * @param conditionalFormats 条件格式，按 sheetId 分组；写入资源的规则从中移除
+ * @param diagnostics 诊断信息收集器，无法转换的规则保留在 conditionalFormats 中并记录诊断
+ * @returns 资源数据；没有可写入的规则时返回 null
+ */
+function buildConditionalFormattingResource(
+  workbookData: IWorkbookData,
+  conditionalFormats: Record<string, ImportedConditionalFormat[]>,
+  diagnostics: ImportDiagnostic[],
+): Record<string, any[]> | null {
+  const resource: Record<string, any[]> = {};
 
-  // 设置范围 - 将所有有效范围转换为 IRange 格式
-  const rangeObjects = validRanges
-    .map((r: string) => {
+  for (const [sheetId, rules] of Object.entries(conditionalFormats)) {
+    const sheet = workbookData.sheets[sheetId];
+    const remaining: ImportedConditionalFormat[] = [];
+    const getPriority = (cfRule: ImportedConditionalFormat) =>
+      cfRule.priority ?? cfRule.config?.priority ?? 0;
+    const sorted = [...rules].sort((a, b) => getPriority(a) - getPriority(b));
+    for (const cfRule of sorted) {
       try {
-        const range = fWorksheet.getRange(r);
-        return range ? range.getRange() : null;
+        const ranges = clipConditionalFormatRanges(
+          cfRule.ranges,
+          sheet?.rowCount || DEFAULT_ROW_COUNT,
+          sheet?.columnCount || DEFAULT_COLUMN_COUNT,
+        );
+        (resource[sheetId] ||= []).push(toUniverConditionalFormatRule(cfRule, ranges));
       } catch (error) {
-        console.warn(`[fileImport] 获取范围失败: ${r}`, error);
-        return null;
+        remaining.push(cfRule);
+        diagnostics.push({
+          severity: 'warning',
+          code: 'CONDITIONAL_FORMAT_FAILED',
+          sheetName: sheet?.name,
+          sheetId,
+          range: cfRule.ranges?.join(','),
+          message: `条件格式未写入工作簿资源: ${getErrorMessage(error)}`,
+        });
       }
-    })
-    .filter(Boolean);
-
-  if (rangeObjects.length === 0) {
-    console.warn('[fileImport] 无法将范围转换为 IRange 格式');
-    return;
+    }
+    if (remaining.length > 0) {
+      conditionalFormats[sheetId] = remaining;
+    } else {
+      delete conditionalFormats[sheetId];
+    }
   }
 
-  // 根据类型设置规则并添加
-  let ruleBuilder: any = null;
-
-  switch (type) {
-    case 'dataBar':
-      // setDataBar 参数格式：{ min, max, positiveColor, nativeColor, isGradient?, isShowValue? }
-      ruleBuilder = builder.setDataBar({
-        positiveColor: config.positiveColor || '#638EC6',
-        nativeColor: config.negativeColor || '#FF0000',
-        isGradient: config.gradient !== false,
-        isShowValue: config.showValue !== false,
-        min: config.minValue || { type: 'min' },
-        max: config.maxValue || { type: 'max' },
-      });
-      break;
+  return Object.keys(resource).length > 0 ? resource : null;
+}
 
-    case 'colorScale':
-      if (config.colorScale && Array.isArray(config.colorScale)) {
-        // setColorScale 参数格式：[{ index, color, value: { type, value? } }]
-        const colorScaleConfig = config.colorScale.map((cs: any, index: number) => ({
-          index,
-          color: cs.color,
-          value: cs.value || { type: 'num', value: 0 },
-        }));
-        ruleBuilder = builder.setColorScale(colorScaleConfig);
-      }
-      break;
+/**
+ * 添加单个条件格式规则
+ * @internal
+ */
+async function addSingleConditionalFormat(
+  fWorksheet: any,
+  cfRule: ImportedConditionalFormat,
+): Promise<void> {
+  // 获取工作表的最大行数和列数，裁剪范围到工作表边界内
+  const maxRows = fWorksheet.getMaxRows?.() || 1000;
+  const maxCols = fWorksheet.getMaxColumns?.() || 1000;
+  const ranges = clipConditionalFormatRanges(cfRule.ranges, maxRows, maxCols);
 
-    case 'iconSet':
-      // setIconSet 参数格式：{ iconConfigs: [...], isShowValue }
-      const iconType = config.iconSet || '3Arrows';
-      ruleBuilder = builder.setIconSet({
-        isShowValue: config.showValue !== false,
-        iconConfigs:
-          config.icons?.map((icon: any, index: number) => ({
-            iconType,
-            iconId: String(index),
-            operator: icon.operator || 'greaterThanOrEqual',
-            value: icon.value || { type: 'num', value: 0 },
-          })) || [],
-      });
-      break;
+  fWorksheet.addConditionalFormattingRule(toUniverConditionalFormatRule(cfRule, ranges));
+}
 
-    default:
-      // 其他类型暂不支持
-      console.warn(`[fileImport] 不支持的条件格式类型: ${type}`);
-      return;
+/**
+ * 转换为 Univer 筛选条件（IFilterColumn）
+ * @param column 筛选列条件
+ * @param colId 列号（工作表中的绝对列索引）
+ * @returns Univer 筛选条件；包含 Univer 不支持的条件时返回 null
+ */
+function toUniverFilterColumn(column: ImportedFilterColumn, colId: number): any {
+  if (getUnsupportedFilterCriteria(column).length > 0) return null;
+
+  if (column.custom?.conditions.length) {
+    return {
+      colId,
+      customFilters: {
+        ...(column.custom.and ? { and: 1 } : {}),
+        customFilters: column.custom.conditions.slice(0, 2).map(({ operator, value }) => ({
+          val: value !== '' && !isNaN(Number(value)) ? Number(value) : value,
+          // Univer 中省略 operator 即为等于
+          ...(operator !== 'equal' ? { operator } : {}),
+        })),
+      },
+    };
   }
 
-  // 如果没有成功创建 ruleBuilder，则退出
-  if (!ruleBuilder) {
-    console.warn('[fileImport] 无法创建条件格式规则构建器');
-    return;
+  if (column.values || column.blank) {
+    return {
+      colId,
+      filters: {
+        ...(column.blank ? { blank: true } : {}),
+        filters: column.values || [],
+      },
+    };
   }
 
-  // 设置范围并构建规则
-  ruleBuilder.setRanges(rangeObjects);
-  const rule = ruleBuilder.build();
+  return null;
+}
 
-  if (rule) {
-    fWorksheet.addConditionalFormattingRule(rule);
-    console.log(`[fileImport] 已添加 ${type} 条件格式规则，范围: ${validRanges.join(', ')}`);
+/**
+ * 显示指定的行（连续的行合并为一次调用）
+ */
+function showRowsInRuns(fWorksheet: any, rows: number[]): void {
+  let start = 0;
+  for (let i = 1; i <= rows.length; i++) {
+    if (i < rows.length && rows[i] === rows[i - 1] + 1) continue;
+    fWorksheet.showRows(rows[start], i - start);
+    start = i;
   }
 }
 
 /**
  * 添加筛选器到工作簿
- * 使用 Univer Facade API (FRange.createFilter)
+ * 使用 Univer Facade API (FRange.createFilter / FFilter.setColumnFilterCriteria)
+ *
+ * 导入时被筛选隐藏的行（hiddenRows）如果同样被 Univer 的筛选条件隐藏，会取消行隐藏、改由筛选器控制，
+ * 这样清除筛选后这些行可以正常显示；条件不受支持的行保持隐藏。
+ *
  * @param univerAPI Univer API 实例
  * @param filters 筛选器数据，按 sheetId 分组
+ * @returns 每个筛选器的添加结果
  */
 export async function addFiltersToWorkbook(
   univerAPI: any,
   filters: Record<string, ImportedFilter>,
-): Promise<void> {
+): Promise<WorkbookItemResult[]> {
+  const results: WorkbookItemResult[] = [];
   const fWorkbook = univerAPI.getActiveWorkbook();
-  if (!fWorkbook) {
-    return;
-  }
-
-  let successCount = 0;
-  const totalCount = Object.keys(filters).length;
 
   for (const [sheetId, filterInfo] of Object.entries(filters)) {
+    const item = { id: sheetId, sheetId, range: filterInfo.range };
+    if (!fWorkbook) {
+      results.push({ ...item, success: false, message: '无法获取活动工作簿' });
+      continue;
+    }
     const targetSheet = fWorkbook.getSheetBySheetId(sheetId);
     if (!targetSheet) {
+      results.push({ ...item, success: false, message: `未找到工作表: ${sheetId}` });
       continue;
     }
 
     try {
       let { range } = filterInfo;
       if (!range) {
+        results.push({ ...item, success: false, message: '筛选器没有范围' });
         continue;
       }
 
       // 如果筛选范围只有一行（如 A1:DY1），需要扩展到实际数据区域
-      const rangeMatch = range.match(/^([A-Z]+)(\d+):([A-Z]+)(\d+)$/);
-      if (rangeMatch) {
-        const [, startCol, startRow, endCol, endRow] = rangeMatch;
-        if (startRow === endRow) {
-          const maxRow = targetSheet.getMaxRows?.() || 1000;
-          range = `${startCol}${startRow}:${endCol}${Math.min(maxRow, 10000)}`;
-        }
+      const filterRange = parseA1Reference(range);
+      if (!filterRange) {
+        results.push({ ...item, success: false, message: `无效的筛选范围: ${range}` });
+        continue;
       }
+      if (filterRange.startRow === filterRange.endRow) {
+        const maxRow = targetSheet.getMaxRows?.() || 1000;
+        filterRange.endRow = Math.max(filterRange.startRow, Math.min(maxRow, 10000) - 1);
+      }
+      range = formatA1Range(filterRange);
 
       // 按照官方文档：先激活工作表，然后使用 getActiveSheet()
       fWorkbook.setActiveSheet(targetSheet);
       const fWorksheet = fWorkbook.getActiveSheet();
       if (!fWorksheet) {
+        results.push({ ...item, success: false, message: '无法激活工作表' });
         continue;
       }
 
       const fRange = fWorksheet.getRange(range);
       if (!fRange) {
+        results.push({ ...item, success: false, message: `无法获取范围: ${range}` });
         continue;
       }
 
@@ -4684,17 +7681,35 @@ export async function addFiltersToWorkbook(
         }
       }
 
-      if (fFilter) {
-        successCount++;
+      if (!fFilter) {
+        results.push({ ...item, success: false, message: '创建筛选器失败' });
+        continue;
+      }
+
+      // 应用列筛选条件
+      for (const column of filterInfo.columns || []) {
+        const criteria = toUniverFilterColumn(column, filterRange.startColumn + column.column);
+        if (criteria) {
+          fFilter.setColumnFilterCriteria(criteria.colId, criteria);
+        }
+      }
+
+      // 被筛选条件隐藏的行改由筛选器控制
+      if (filterInfo.hiddenRows?.length) {
+        const filteredOut = new Set<number>(fFilter.getFilteredOutRows());
+        showRowsInRuns(
+          fWorksheet,
+          filterInfo.hiddenRows.filter((row) => filteredOut.has(row)),
+        );
       }
+
+      results.push({ ...item, success: true });
     } catch (err) {
-      console.error(`[fileImport] 添加筛选器失败:`, err);
+      results.push({ ...item, success: false, message: getErrorMessage(err) });
     }
   }
 
-  if (successCount > 0) {
-    console.log(`[fileImport] 筛选器导入完成: ${successCount}/${totalCount}`);
-  }
+  return results;
 }
 
 /**
@@ -4729,47 +7744,333 @@ const EXCEL_TO_UNIVER_CHART_TYPE: Record<string, string> = {
   unknown: 'Column', // 默认使用柱状图
 };
 
+/** 导入的坐标轴 -> Univer 图表配置中的坐标轴键、标题键 */
+const CHART_AXIS_OPTION_KEYS = [
+  ['category', 'xAxis', 'xAxisTitle'],
+  ['value', 'yAxis', 'yAxisTitle'],
+  ['secondaryValue', 'yRightAxis', 'rightYAxisTitle'],
+] as const;
+
+/** 组合图中系列类型 -> Univer ChartType 名称（系列只支持折线、柱形、面积） */
+const CHART_COMBO_SERIES_TYPES: Partial<Record<ImportedChartType, string>> = {
+  line: 'Line',
+  column: 'Column',
+  bar: 'Column',
+  stackedBar: 'Column',
+  percentStackedBar: 'Column',
+  area: 'Area',
+  stackedArea: 'Area',
+  percentStackedArea: 'Area',
+};
+
+/** Excel 数据点标记 -> Univer LinePointShape */
+const CHART_MARKER_SHAPES: Record<string, string> = {
+  circle: 'circle',
+  dot: 'circle',
+  square: 'square',
+  diamond: 'diamond',
+  triangle: 'triangle',
+  none: 'none',
+};
+
+/** Excel 数据标签位置 -> Univer SeriesLabelPosition */
+const CHART_LABEL_POSITIONS: Record<string, string> = {
+  t: 'top',
+  b: 'bottom',
+  l: 'left',
+  r: 'right',
+  outEnd: 'outside',
+  inEnd: 'inside',
+  inBase: 'inside',
+  ctr: 'inside',
+  bestFit: 'auto',
+};
+
+/** Univer LabelContentType（位掩码） */
+const CHART_LABEL_CONTENT = {
+  categoryName: 2,
+  seriesName: 4,
+  value: 8,
+  percentage: 16,
+};
+
+/** 等待图表渲染出系列数据的最长时间（毫秒） */
+const CHART_SERIES_TIMEOUT = 3000;
+
+/**
+ * 设置坐标轴标题、显示、范围、逆序和网格线
+ * @returns 未能应用的设置
+ */
+function applyChartAxes(chartBuilder: any, axes: ImportedChartAxes | undefined): string[] {
+  const failed = new Set<string>();
+  for (const [key, axisKey, titleKey] of CHART_AXIS_OPTION_KEYS) {
+    const axis = axes?.[key];
+    if (!axis) continue;
+    if (axis.title) chartBuilder.setOptions(`${titleKey}.content`, axis.title);
+    chartBuilder.setOptions(`${axisKey}.lineVisible`, axis.visible);
+    chartBuilder.setOptions(`${axisKey}.label.visible`, axis.visible);
+    chartBuilder.setOptions(`${axisKey}.gridLine.visible`, axis.majorGridlines);
+    // 次值轴不支持逆序
+    if (axis.reverse && key !== 'secondaryValue') {
+      chartBuilder.setOptions(`${axisKey}.reverse`, true);
+    }
+    if (axis.min !== undefined) chartBuilder.setOptions(`${axisKey}.min`, axis.min);
+    if (axis.max !== undefined) chartBuilder.setOptions(`${axisKey}.max`, axis.max);
+    // Univer 坐标轴不支持数字格式和刻度单位
+    if (axis.numberFormat) failed.add('坐标轴数字格式');
+    if (axis.majorUnit !== undefined) failed.add('坐标轴刻度单位');
+  }
+  return [...failed];
+}
+
+/**
+ * 转换为 Univer 系列样式（ISeriesStyle）
+ * @param item 导入的系列
+ * @param combo 是否为组合图（需设置系列类型）
+ * @param chartTypes univerAPI.Enum.ChartType
+ */
+function toUniverSeriesStyle(
+  item: ImportedChartSeries,
+  combo: boolean,
+  chartTypes: Record<string, number>,
+): Record<string, any> {
+  const style: Record<string, any> = {};
+  if (item.color) style.color = item.color;
+  if (item.lineWidth !== undefined || item.dashType) {
+    style.border = {
+      ...(item.lineWidth !== undefined && { width: item.lineWidth }),
+      ...(item.dashType && { dashType: item.dashType }),
+    };
+  }
+  if (item.secondaryAxis) style.rightYAxis = true;
+  if (combo) {
+    const chartType = chartTypes[CHART_COMBO_SERIES_TYPES[item.chartType] ?? ''];
+    if (chartType !== undefined) style.chartType = chartType;
+  }
+  const shape = item.marker ? CHART_MARKER_SHAPES[item.marker] : undefined;
+  if (shape || item.markerSize !== undefined) {
+    style.point = {
+      ...(shape && { shape }),
+      ...(item.markerSize !== undefined && { size: item.markerSize }),
+    };
+  }
+  const labels = item.dataLabels;
+  if (labels) {
+    style.label = {
+      visible: true,
+      contentType:
+        (labels.showCategoryName ? CHART_LABEL_CONTENT.categoryName : 0) |
+        (labels.showSeriesName ? CHART_LABEL_CONTENT.seriesName : 0) |
+        (labels.showValue ? CHART_LABEL_CONTENT.value : 0) |
+        (labels.showPercent ? CHART_LABEL_CONTENT.percentage : 0),
+      ...(labels.position &&
+        CHART_LABEL_POSITIONS[labels.position] && {
+          position: CHART_LABEL_POSITIONS[labels.position],
+        }),
+    };
+  }
+  return style;
+}
+
+/**
+ * 按系列设置颜色、线型、标记、数据标签和次坐标轴
+ * 系列样式以渲染后的系列序号为键，需要等待图表渲染完成后再更新图表
+ * @returns 是否已应用（等待超时或无法获取系列数据时返回 false）
+ */
+async function applyChartSeriesStyles(
+  univerAPI: any,
+  fWorksheet: any,
+  fChart: any,
+  chart: ImportedChart,
+): Promise<boolean> {
+  const series = chart.series ?? [];
+  let seriesData: Array<{ index: number | string; name?: string }> = [];
+  for (let waited = 0; waited <= CHART_SERIES_TIMEOUT; waited += 100) {
+    seriesData = fChart?.getSeriesData?.() ?? [];
+    if (seriesData.length > 0) break;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  if (seriesData.length === 0) return false;
+
+  const chartTypes = univerAPI.Enum?.ChartType ?? {};
+  const combo = chart.chartType === 'combo';
+  const chartBuilder = fWorksheet.newChart(fChart);
+  seriesData.forEach((data, position) => {
+    // 系列数一致时按顺序对应，否则按名称匹配
+    const item =
+      seriesData.length === series.length
+        ? series[position]
+        : series.find((s) => s.name !== undefined && s.name === data.name);
+    if (item) chartBuilder.setSeriesStyle(data.index, toUniverSeriesStyle(item, combo, chartTypes));
+  });
+  fWorksheet.updateChart(chartBuilder.build());
+  return true;
+}
+
+/** 数据源无法表示为单个区域时，图表数据写入的隐藏工作表名称 */
+const CHART_DATA_SHEET_NAME = '_ChartData';
+
+/**
+ * 按系列引用和缓存值生成图表数据：第一列为分类，每个系列一列，首行为系列名称
+ * 引用的工作表存在时写入引用原数据的公式，缓存值作为公式计算前的值
+ * @param chart 图表
+ * @param hasSheet 判断工作表是否存在
+ * @returns 没有系列数据时返回 null
+ */
+function buildChartHelperCells(
+  chart: ImportedChart,
+  hasSheet: (name: string) => boolean,
+): ICellData[][] | null {
+  const series = chart.series ?? [];
+  const parseRef = (ref: string | undefined) => {
+    const range = ref ? parseA1Reference(ref) : null;
+    return range?.sheetName !== undefined && hasSheet(range.sheetName) ? range : null;
+  };
+  // 引用中第 index 个单元格（引用为单行或单列）
+  const refFormula = (ref: string | undefined, index: number): string | undefined => {
+    const range = parseRef(ref);
+    if (!range) return undefined;
+    const width = range.endColumn - range.startColumn + 1;
+    const height = range.endRow - range.startRow + 1;
+    if ((width > 1 && height > 1) || index >= width * height) return undefined;
+    const column = width > 1 ? range.startColumn + index : range.startColumn;
+    const row = height > 1 ? range.startRow + index : range.startRow;
+    const cell = { startRow: row, endRow: row, startColumn: column, endColumn: column };
+    return `=${formatA1Range(cell, { absolute: true, sheetName: range.sheetName })}`;
+  };
+  const refLength = (ref: string | undefined) => {
+    const range = parseRef(ref);
+    return range
+      ? (range.endColumn - range.startColumn + 1) * (range.endRow - range.startRow + 1)
+      : 0;
+  };
+  const toCell = (value: string | number | null | undefined, formula?: string): ICellData => {
+    const cell: ICellData = {};
+    if (value !== null && value !== undefined) cell.v = value;
+    if (formula) cell.f = formula;
+    return cell;
+  };
+
+  // Excel 中所有系列共用第一个系列的分类
+  const categorySeries = series.find((item) => item.categoriesRef || item.categories);
+  const count = Math.max(
+    0,
+    ...series.map((item) => Math.max(item.values?.length ?? 0, refLength(item.valuesRef))),
+  );
+  if (count === 0) return null;
+
+  const rows: ICellData[][] = [
+    [
+      {},
+      ...series.map((item, index) =>
+        toCell(item.name ?? `Series${index + 1}`, refFormula(item.nameRef, 0)),
+      ),
+    ],
+  ];
+  for (let i = 0; i < count; i++) {
+    const category = categorySeries
+      ? toCell(categorySeries.categories?.[i], refFormula(categorySeries.categoriesRef, i))
+      : toCell(String(i + 1));
+    rows.push([
+      category,
+      ...series.map((item) => toCell(item.values?.[i], refFormula(item.valuesRef, i))),
+    ]);
+  }
+  return rows;
+}
+
+/**
+ * 将数据源无法表示为单个区域（或数据源工作表不存在）的图表数据写入隐藏的辅助工作表
+ * @returns 图表 ID -> 辅助数据区域
+ */
+function writeChartHelperData(
+  fWorkbook: any,
+  charts: Record<string, ImportedChart[]>,
+): Map<string, { sheetName: string; range: string }> {
+  const ranges = new Map<string, { sheetName: string; range: string }>();
+  const hasSheet = (name: string) => !!fWorkbook.getSheetByName(name);
+  const blocks: Array<{ chartId: string; cells: ICellData[][] }> = [];
+  for (const chart of Object.values(charts).flat()) {
+    if (chart.dataRange && (!chart.dataSheetName || hasSheet(chart.dataSheetName))) continue;
+    const cells = buildChartHelperCells(chart, hasSheet);
+    if (cells) blocks.push({ chartId: chart.chartId, cells });
+  }
+  if (blocks.length === 0) return ranges;
+
+  let sheetName = CHART_DATA_SHEET_NAME;
+  for (let i = 2; hasSheet(sheetName); i++) {
+    sheetName = `${CHART_DATA_SHEET_NAME}${i}`;
+  }
+  // 各图表的数据纵向排列，之间空一行
+  const rowCount = blocks.reduce((sum, block) => sum + block.cells.length + 1, 0);
+  const columnCount = Math.max(...blocks.map((block) => block.cells[0].length));
+  const helperSheet = fWorkbook.create(sheetName, rowCount, columnCount);
+  let row = 0;
+  for (const { chartId, cells } of blocks) {
+    const width = cells[0].length;
+    helperSheet.getRange(row, 0, cells.length, width).setValues(cells);
+    ranges.set(chartId, {
+      sheetName,
+      range: formatA1Range({
+        startRow: row,
+        endRow: row + cells.length - 1,
+        startColumn: 0,
+        endColumn: width - 1,
+      }),
+    });
+    row += cells.length + 1;
+  }
+  helperSheet.hideSheet();
+  return ranges;
+}
+
 /**
  * 添加图表到工作簿
  * 使用 Univer Facade API (FWorksheet.newChart / insertChart)
  * @param univerAPI Univer API 实例
  * @param charts 图表数据，按 sheetId 分组
+ * @returns 每个图表的添加结果
  */
 export async function addChartsToWorkbook(
   univerAPI: any,
   charts: Record<string, ImportedChart[]>,
-): Promise<void> {
+): Promise<WorkbookItemResult[]> {
+  const results: WorkbookItemResult[] = [];
   const fWorkbook = univerAPI.getActiveWorkbook();
-  if (!fWorkbook) {
-    return;
-  }
-
-  let successCount = 0;
-  let totalCount = 0;
+  const helperRanges = fWorkbook ? writeChartHelperData(fWorkbook, charts) : new Map();
 
   for (const [sheetId, chartList] of Object.entries(charts)) {
     if (!chartList || chartList.length === 0) continue;
-    totalCount += chartList.length;
-
-    const targetSheet = fWorkbook.getSheetBySheetId(sheetId);
-    if (!targetSheet) {
-      continue;
-    }
 
-    // 按照官方文档：先激活工作表，然后使用 getActiveSheet()
-    fWorkbook.setActiveSheet(targetSheet);
-    const fWorksheet = fWorkbook.getActiveSheet();
-    if (!fWorksheet) {
-      continue;
+    const targetSheet = fWorkbook?.getSheetBySheetId(sheetId);
+    if (targetSheet) {
+      // 按照官方文档：先激活工作表，然后使用 getActiveSheet()
+      fWorkbook.setActiveSheet(targetSheet);
     }
+    const fWorksheet = targetSheet ? fWorkbook.getActiveSheet() : null;
 
     for (const chartInfo of chartList) {
+      // 数据源不是单个区域的图表使用辅助工作表中的数据
+      const helper = helperRanges.get(chartInfo.chartId);
+      const sourceSheetName = helper ? helper.sheetName : chartInfo.dataSheetName;
+      const sourceRange = helper ? helper.range : chartInfo.dataRange;
+      const item = {
+        id: chartInfo.chartId,
+        sheetId,
+        range: sourceSheetName ? `${quoteSheetName(sourceSheetName)}!${sourceRange}` : sourceRange,
+      };
+      if (!fWorksheet) {
+        const message = fWorkbook ? `未找到工作表: ${sheetId}` : '无法获取活动工作簿';
+        results.push({ ...item, success: false, message });
+        continue;
+      }
+
       try {
-        const { chartType, dataRange, position, size, title, dataSheetName } = chartInfo;
+        const { chartType, position, size, title, series, axes, legendPosition } = chartInfo;
 
         // 如果没有数据范围，跳过
-        if (!dataRange) {
-          console.warn(`[fileImport] 图表没有数据范围，跳过:`, chartInfo.chartId);
+        if (!sourceRange) {
+          results.push({ ...item, success: false, message: '图表没有数据范围' });
           continue;
         }
 
@@ -4778,14 +8079,18 @@ export async function addChartsToWorkbook(
         const univerChartType = univerAPI.Enum?.ChartType?.[univerChartTypeName];
 
         if (univerChartType === undefined) {
-          console.warn(`[fileImport] 未找到图表类型: ${univerChartTypeName}`);
+          results.push({
+            ...item,
+            success: false,
+            message: `未找到图表类型: ${univerChartTypeName}`,
+          });
           continue;
         }
 
         // 创建图表构建器
         const chartBuilder = fWorksheet.newChart();
         if (!chartBuilder) {
-          console.warn('[fileImport] 无法创建图表构建器');
+          results.push({ ...item, success: false, message: '无法创建图表构建器' });
           continue;
         }
 
@@ -4794,8 +8099,7 @@ export async function addChartsToWorkbook(
 
         // 设置数据范围
         // 如果数据源在不同的工作表，需要添加工作表名称前缀
-        const fullRange = dataSheetName ? `'${dataSheetName}'!${dataRange}` : dataRange;
-        chartBuilder.addRange(fullRange);
+        chartBuilder.addRange(item.range);
 
         // 设置位置
         chartBuilder.setPosition(
@@ -4814,20 +8118,51 @@ export async function addChartsToWorkbook(
           chartBuilder.setOptions?.('title', { content: title });
         }
 
+        // 图例位置
+        if (legendPosition) {
+          chartBuilder.setOptions(
+            'legend.position',
+            legendPosition === 'none' ? 'hide' : legendPosition,
+          );
+        }
+
+        // 平滑线为图表级设置，所有折线系列均平滑时启用
+        const lineSeries = (series ?? []).filter((s) => s.chartType === 'line');
+        if (lineSeries.length > 0 && lineSeries.every((s) => s.smooth)) {
+          chartBuilder.setOptions('area.lineStyle', 'smooth');
+        }
+
+        // 坐标轴标题、范围、网格线
+        const failedSettings = applyChartAxes(chartBuilder, axes);
+        if (series?.some((s) => s.dataLabels?.numberFormat)) {
+          failedSettings.push('数据标签数字格式');
+        }
+
         // 构建并插入图表
         const chartBuildInfo = chartBuilder.build();
-        await fWorksheet.insertChart(chartBuildInfo);
+        const fChart = await fWorksheet.insertChart(chartBuildInfo);
+
+        // 系列颜色、数据标签、次坐标轴等在图表渲染后设置
+        if (
+          series &&
+          series.length > 0 &&
+          !(await applyChartSeriesStyles(univerAPI, fWorksheet, fChart, chartInfo))
+        ) {
+          failedSettings.push('系列样式');
+        }
 
-        successCount++;
+        results.push(
+          failedSettings.length > 0
+            ? { ...item, success: true, message: `部分设置未能应用：${failedSettings.join('、')}` }
+            : { ...item, success: true },
+        );
       } catch (err) {
-        console.error(`[fileImport] 添加图表失败:`, err);
+        results.push({ ...item, success: false, message: getErrorMessage(err) });
       }
     }
   }
 
-  if (successCount > 0) {
-    console.log(`[fileImport] 图表导入完成: ${successCount}/${totalCount}`);
-  }
+  return results;
 }
 
 /**
@@ -4859,29 +8194,238 @@ export async function addImagesToWorkbook(
   });
 }
 
+/** 设置透视表字段数字格式的 mutation（Facade API 未提供对应方法） */
+const SET_PIVOT_FORMAT_MUTATION_ID = 'sheet.mutation.set-pivot-format';
+/** 设置透视表选项（合并单元格、样式选项）的 mutation */
+const SET_PIVOT_OPTION_MUTATION_ID = 'sheet.mutation.set-pivot-option';
+
+/**
+ * 透视表项在 Univer 中的标签（手动筛选按标签匹配）
+ */
+function toPivotItemLabel(value: ImportedPivotItemValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+/**
+ * 字段添加完成后应用 Excel 透视表的字段和布局设置
+ * 包括值字段汇总方式、名称、数字格式，标签字段排序、项筛选，"Σ 数值" 位置和样式选项
+ * @returns 未能应用的设置
+ */
+async function applyPivotTableSettings(
+  univerAPI: any,
+  fPivotTable: any,
+  pivotTable: ImportedPivotTable,
+): Promise<string[]> {
+  const { fields, cacheFields = [], pivotFields = [], dataFields = [], layout } = pivotTable;
+  const { PivotTableFiledAreaEnum, PivotSubtotalTypeEnum, PivotDataFieldSortOperatorEnum } =
+    univerAPI.Enum;
+  const target = {
+    unitId: fPivotTable.unitId,
+    subUnitId: fPivotTable.subUnitId,
+    pivotTableId: fPivotTable.getPivotTableId(),
+  };
+  const failed: string[] = [];
+  const run = async (setting: string, action: () => Promise<boolean> | boolean) => {
+    try {
+      if ((await action()) === false) failed.push(setting);
+    } catch {
+      failed.push(setting);
+    }
+  };
+
+  // 值字段：汇总方式、名称、数字格式
+  const valueFieldIds: string[] =
+    fPivotTable.getFieldIdsByArea(PivotTableFiledAreaEnum.Value) ?? [];
+  for (let i = 0; i < dataFields.length; i++) {
+    const fieldId = valueFieldIds[i];
+    if (!fieldId) continue;
+    const { subtotal, name, numberFormat } = dataFields[i];
+    const label = name ?? cacheFields[dataFields[i].field]?.name ?? String(dataFields[i].field);
+    const subtotalType = PivotSubtotalTypeEnum?.[subtotal];
+    if (subtotalType !== undefined) {
+      await run(`${label} 汇总方式`, () => fPivotTable.setSubtotalType(fieldId, subtotalType));
+    }
+    if (name) {
+      await run(`${label} 名称`, () => fPivotTable.renameField(fieldId, name));
+    }
+    if (numberFormat) {
+      await run(`${label} 数字格式`, () =>
+        univerAPI.executeCommand(SET_PIVOT_FORMAT_MUTATION_ID, {
+          ...target,
+          fieldId,
+          format: numberFormat,
+        }),
+      );
+    }
+  }
+
+  // 标签字段：名称、数字格式、排序、项筛选
+  const labelAreas: Array<[number, number[]]> = [
+    [PivotTableFiledAreaEnum.Row, fields.rowFields],
+    [PivotTableFiledAreaEnum.Column, fields.colFields],
+    [PivotTableFiledAreaEnum.Filter, fields.filterFields],
+  ];
+  for (const [area, fieldIndexes] of labelAreas) {
+    const fieldIds: string[] = fPivotTable.getFieldIdsByArea(area) ?? [];
+    for (let i = 0; i < fieldIndexes.length; i++) {
+      const fieldId = fieldIds[i];
+      const pivotField = pivotFields[fieldIndexes[i]];
+      const cacheField = cacheFields[fieldIndexes[i]];
+      if (!fieldId || !pivotField) continue;
+      const label = pivotField.name ?? cacheField?.name ?? String(fieldIndexes[i]);
+
+      if (pivotField.name) {
+        await run(`${label} 名称`, () => fPivotTable.renameField(fieldId, pivotField.name));
+      }
+      if (pivotField.numberFormat) {
+        await run(`${label} 数字格式`, () =>
+          univerAPI.executeCommand(SET_PIVOT_FORMAT_MUTATION_ID, {
+            ...target,
+            fieldId,
+            format: pivotField.numberFormat,
+          }),
+        );
+      }
+      if (pivotField.sortType) {
+        const type =
+          pivotField.sortType === 'ascending'
+            ? PivotDataFieldSortOperatorEnum.ascending
+            : PivotDataFieldSortOperatorEnum.descending;
+        // 按值字段排序（总计列的值），否则按标签排序
+        const baseFieldId =
+          pivotField.sortByDataField !== undefined
+            ? valueFieldIds[pivotField.sortByDataField]
+            : undefined;
+        await run(`${label} 排序`, () =>
+          fPivotTable.setLabelSort(
+            fieldId,
+            baseFieldId ? { type, baseFieldId, sortItems: [] } : { type },
+          ),
+        );
+      }
+
+      // 筛选字段选中单个项，或隐藏了部分项
+      let visibleItems: ImportedPivotItemValue[] | null = null;
+      if (pivotField.selectedItem !== undefined) {
+        visibleItems = [pivotField.selectedItem];
+      } else if (pivotField.hiddenItems && cacheField) {
+        const hidden = new Set(pivotField.hiddenItems);
+        visibleItems = cacheField.items.filter((item) => !hidden.has(item));
+      }
+      if (visibleItems) {
+        const items = visibleItems.map((item) => toPivotItemLabel(item));
+        await run(`${label} 筛选`, () => fPivotTable.setLabelManualFilter(fieldId, items));
+      }
+    }
+  }
+
+  if (layout) {
+    // 多个值字段时 "Σ 数值" 的位置
+    const { PivotTableValuePositionEnum } = univerAPI.Enum;
+    if (dataFields.length > 1 && PivotTableValuePositionEnum) {
+      const position =
+        layout.valuePosition === 'row'
+          ? PivotTableValuePositionEnum.Row
+          : PivotTableValuePositionEnum.Column;
+      await run('数值位置', () => fPivotTable.updateValuePosition(position, layout.valueIndex));
+    }
+
+    await run('样式选项', () =>
+      univerAPI.executeCommand(SET_PIVOT_OPTION_MUTATION_ID, {
+        ...target,
+        options: {
+          mergeItems: layout.mergeItems,
+          showRowHeaders: layout.showRowHeaders,
+          showColHeaders: layout.showColHeaders,
+          showRowStripes: layout.showRowStripes,
+          showColStripes: layout.showColStripes,
+          showLastColumn: layout.showLastColumn,
+        },
+      }),
+    );
+  }
+
+  return failed;
+}
+
 /**
  * 添加透视表到工作簿
  * 使用 Univer Facade API (FWorkbook.addPivotTable)
+ * 按 Excel 中的字段区域添加字段，并还原值字段汇总方式、名称、数字格式，标签字段排序、项筛选，
+ * "Σ 数值" 位置和样式选项；值显示方式、报表布局、总计等 Univer 不支持的设置在导入诊断中说明
+ *
+ * 导入的工作表中保留着 Excel 保存的透视表计算结果。添加透视表前会清空目标区域，
+ * 重建失败（数据源缺失、未加载透视表插件等）时写回清空前的单元格值和样式，透视表以静态单元格显示。
+ *
  * @param univerAPI Univer API 实例
  * @param pivotTables 透视表数据列表
+ * @param options.staticFallback 重建失败时是否保留为静态单元格，默认 true
+ * @param options.staticIfUnsupported 含 Univer 不支持设置的透视表是否直接保留为静态单元格（不重建），默认 false
+ * @returns 每个透视表的添加结果；保留为静态单元格的透视表 success 为 false
  */
 export async function addPivotTablesToWorkbook(
   univerAPI: any,
   pivotTables: ImportedPivotTable[],
-): Promise<void> {
+  options: { staticFallback?: boolean; staticIfUnsupported?: boolean } = {},
+): Promise<WorkbookItemResult[]> {
   if (!pivotTables || pivotTables.length === 0) {
-    return;
+    return [];
   }
 
   const fWorkbook = univerAPI.getActiveWorkbook();
   if (!fWorkbook) {
-    return;
+    return pivotTables.map((pivotTable) => ({
+      id: pivotTable.pivotTableId,
+      sheetId: pivotTable.sheetId,
+      success: false,
+      message: '无法获取活动工作簿',
+    }));
   }
 
+  const { staticFallback = true, staticIfUnsupported = false } = options;
   const unitId = fWorkbook.getId();
-  let successCount = 0;
+  const results: WorkbookItemResult[] = [];
 
   for (const pivotTable of pivotTables) {
+    const item = { id: pivotTable.pivotTableId, sheetId: pivotTable.sheetId };
+    const { unsupportedSettings = [] } = pivotTable;
+    if (staticIfUnsupported && unsupportedSettings.length > 0) {
+      results.push({
+        ...item,
+        success: false,
+        message: `透视表含 Univer 不支持的设置（${unsupportedSettings.join('、')}），已保留为静态单元格`,
+      });
+      continue;
+    }
+
+    let fPivotTable: any = null;
+    // 目标区域是否已清空；清空前的单元格（Excel 保存的计算结果）快照，重建失败时写回
+    let cleared = false;
+    let snapshot: { range: any; cellDatas: any[][] } | null = null;
+    // 添加成功但未完全应用的内容（清空目标区域失败、个别字段设置未应用）
+    const warnings: string[] = [];
+    const toStatic = async (reason: string): Promise<WorkbookItemResult> => {
+      if (!cleared) {
+        return { ...item, success: false, message: `${reason}，已保留为静态单元格` };
+      }
+      if (!snapshot) {
+        return { ...item, success: false, message: reason };
+      }
+      try {
+        if (fPivotTable) await fPivotTable.remove?.();
+        snapshot.range.setValues(snapshot.cellDatas.map((row) => row.map((cell) => cell ?? {})));
+        return { ...item, success: false, message: `${reason}，已保留为静态单元格` };
+      } catch (restoreError) {
+        return {
+          ...item,
+          success: false,
+          message: `${reason}；恢复静态单元格失败: ${getErrorMessage(restoreError)}`,
+        };
+      }
+    };
+
     try {
       const { sheetId, sourceRange, anchorCell, fields, name } = pivotTable;
 
@@ -4894,8 +8438,8 @@ export async function addPivotTablesToWorkbook(
         sourceSheet = fWorkbook.getSheetByName(sourceRange.sheetName);
       }
       if (!sourceSheet) {
-        console.warn(
-          `[fileImport] 未找到数据源工作表: sheetId=${sourceRange.sheetId}, sheetName=${sourceRange.sheetName}`,
+        results.push(
+          await toStatic(`未找到数据源工作表: ${sourceRange.sheetName ?? sourceRange.sheetId}`),
         );
         continue;
       }
@@ -4905,7 +8449,16 @@ export async function addPivotTablesToWorkbook(
       // 获取透视表所在工作表
       const targetSheet = fWorkbook.getSheetBySheetId(sheetId);
       if (!targetSheet) {
-        console.warn(`[fileImport] 未找到透视表目标工作表: ${sheetId}`);
+        results.push({ ...item, success: false, message: `未找到透视表目标工作表: ${sheetId}` });
+        continue;
+      }
+
+      // 获取 PositionTypeEnum
+      const PositionTypeEnum = univerAPI.Enum?.PositionTypeEnum;
+      const PivotTableFiledAreaEnum = univerAPI.Enum?.PivotTableFiledAreaEnum;
+
+      if (!PositionTypeEnum || !PivotTableFiledAreaEnum) {
+        results.push(await toStatic('未找到透视表相关枚举类型，请确保已加载透视表插件'));
         continue;
       }
       const targetSheetId = targetSheet.getSheetId();
@@ -4965,6 +8518,11 @@ export async function addPivotTablesToWorkbook(
         // 使用 getRange 获取范围对象
         const clearRange = targetSheet.getRange(clearStartRow, clearStartCol, numRows, numCols);
         if (clearRange) {
+          if (staticFallback) {
+            snapshot = { range: clearRange, cellDatas: clearRange.getCellDatas() };
+          }
+          cleared = true;
+
           // 方法1: 使用 setValues 清空值
           const emptyValues = Array(numRows)
             .fill(null)
@@ -5002,47 +8560,39 @@ export async function addPivotTablesToWorkbook(
             }
           } catch (cellClearError) {
             // 清空格式失败不影响整体流程
-            console.warn('[fileImport] 清空单元格格式失败:', cellClearError);
+            warnings.push(`清空目标区域格式失败: ${getErrorMessage(cellClearError)}`);
           }
         }
       } catch (clearError) {
-        console.warn(`[fileImport] 清空透视表目标区域失败: ${clearError.message}`, {
-          clearStartRow,
-          clearStartCol,
-          clearEndRow,
-          clearEndCol,
-        });
         // 清空失败不影响后续操作，但可能会弹出确认对话框
-      }
-
-      // 获取 PositionTypeEnum
-      const PositionTypeEnum = univerAPI.Enum?.PositionTypeEnum;
-      const PivotTableFiledAreaEnum = univerAPI.Enum?.PivotTableFiledAreaEnum;
-
-      if (!PositionTypeEnum || !PivotTableFiledAreaEnum) {
-        console.warn('[fileImport] 未找到透视表相关枚举类型，请确保已加载透视表插件');
-        continue;
+        const clearRange = `${getCellAddress(clearStartRow, clearStartCol)}:${getCellAddress(clearEndRow, clearEndCol)}`;
+        warnings.push(`清空目标区域 ${clearRange} 失败: ${getErrorMessage(clearError)}`);
       }
 
       // 使用 Existing 模式，放在现有工作表中
       const positionType = PositionTypeEnum.Existing || 'existing';
 
       // 创建透视表
-      let fPivotTable: any = null;
       try {
         fPivotTable = await fWorkbook.addPivotTable(sourceInfo, positionType, anchorCellInfo);
       } catch (addError) {
+        results.push(await toStatic(getErrorMessage(addError)));
         continue;
       }
 
       // 如果返回 null，透视表可能已创建但 API 没有返回对象
       if (!fPivotTable) {
-        successCount++;
+        results.push(
+          warnings.length > 0
+            ? { ...item, success: true, message: warnings.join('；') }
+            : { ...item, success: true },
+        );
         continue;
       }
 
       // 需要等待透视表渲染完成后再添加字段
       // 使用 Promise 包装事件监听
+      let failedSettings: string[] = [];
       await new Promise<void>((resolve, reject) => {
         let listenerDisposable: any = null;
 
@@ -5094,6 +8644,9 @@ export async function addPivotTablesToWorkbook(
                   );
                 }
 
+                // 汇总方式、排序、筛选等设置
+                failedSettings = await applyPivotTableSettings(univerAPI, fPivotTable, pivotTable);
+
                 resolve();
               }
             } catch (err) {
@@ -5105,60 +8658,103 @@ export async function addPivotTablesToWorkbook(
         );
       });
 
-      successCount++;
+      if (failedSettings.length > 0) {
+        warnings.push(`部分设置未能应用：${failedSettings.join('、')}`);
+      }
+      results.push(
+        warnings.length > 0
+          ? { ...item, success: true, message: warnings.join('；') }
+          : { ...item, success: true },
+      );
     } catch (err) {
-      console.error(`[fileImport] 添加透视表失败:`, err);
+      results.push(await toStatic(getErrorMessage(err)));
     }
   }
 
-  if (successCount > 0) {
-    console.log(`[fileImport] 透视表导入完成: ${successCount}/${pivotTables.length}`);
-  }
+  return results;
 }
 
+/**
+ * 排序状态在工作表自定义元数据（IWorksheetData.custom）中的键
+ */
+export const SORT_STATE_METADATA_KEY = 'sortState';
+
 /**
  * 使用 Univer Facade API 向 workbook 添加排序
- * 注意：Univer 的 sort API 是立即应用排序，而不是保存排序状态
- * 导入时会按照原 Excel 的排序配置重新执行排序
+ *
+ * Excel 保存的数据已经是排序后的顺序，Univer 也没有保存排序状态的模型，因此默认只把排序状态
+ * 写入工作表自定义元数据（`custom.sortState`，FWorksheet.setCustomMetadata），不修改单元格。
+ * `applySort` 为 true 时按排序条件重新排序（FRange.sort），仅支持按值排序。
  *
  * @param univerAPI FUniver 实例
  * @param sorts 按 sheetId 组织的排序信息 Record<string, ImportedSort>
+ * @param options.applySort 是否重新排序数据，默认 false
+ * @returns 每个排序的添加结果
  */
 export async function addSortsToWorkbook(
   univerAPI: any,
   sorts: Record<string, ImportedSort>,
-): Promise<void> {
+  options: { applySort?: boolean } = {},
+): Promise<WorkbookItemResult[]> {
   if (!univerAPI || !sorts || Object.keys(sorts).length === 0) {
-    return;
+    return [];
   }
 
+  const { applySort = false } = options;
+  const results: WorkbookItemResult[] = [];
   const workbook = univerAPI.getActiveWorkbook();
-  if (!workbook) {
-    console.warn('[fileImport] 无法获取活动 workbook');
-    return;
-  }
-
-  let successCount = 0;
 
   for (const [sheetId, sortInfo] of Object.entries(sorts)) {
+    const item = { id: sheetId, sheetId, range: sortInfo.range };
+    if (!workbook) {
+      results.push({ ...item, success: false, message: '无法获取活动工作簿' });
+      continue;
+    }
+
     try {
       // 通过 sheetId 获取工作表
       const fWorksheet = workbook.getSheetBySheetId(sheetId);
       if (!fWorksheet) {
-        console.warn(`[fileImport] 未找到工作表: ${sheetId}`);
+        results.push({ ...item, success: false, message: `未找到工作表: ${sheetId}` });
         continue;
       }
 
       // 解析排序范围
       const rangeStr = sortInfo.range;
       if (!rangeStr || sortInfo.conditions.length === 0) {
+        results.push({ ...item, success: false, message: '排序没有范围或排序条件' });
+        continue;
+      }
+
+      // 只记录排序状态
+      if (!applySort) {
+        fWorksheet.setCustomMetadata({
+          ...(fWorksheet.getCustomMetadata() || {}),
+          [SORT_STATE_METADATA_KEY]: sortInfo,
+        });
+        results.push({ ...item, success: true });
+        continue;
+      }
+
+      // FRange.sort 只支持按列、按值排序
+      const unsupported =
+        sortInfo.columnSort ||
+        sortInfo.conditions.some(
+          (cond) => (cond.sortBy && cond.sortBy !== 'value') || cond.customList,
+        );
+      if (unsupported) {
+        results.push({
+          ...item,
+          success: false,
+          message: 'Univer 仅支持按值排序，不支持按颜色、图标、自定义序列排序和按行排序',
+        });
         continue;
       }
 
       // 获取 FRange 对象
       const fRange = fWorksheet.getRange(rangeStr);
       if (!fRange) {
-        console.warn(`[fileImport] 无法获取范围: ${rangeStr}`);
+        results.push({ ...item, success: false, message: `无法获取范围: ${rangeStr}` });
         continue;
       }
 
@@ -5174,13 +8770,67 @@ export async function addSortsToWorkbook(
 
       // 应用排序
       await fRange.sort(sortCriteria);
-      successCount++;
+      results.push({ ...item, success: true });
     } catch (err) {
-      console.error(`[fileImport] 添加排序失败:`, err);
+      results.push({ ...item, success: false, message: getErrorMessage(err) });
     }
   }
 
-  if (successCount > 0) {
-    console.log(`[fileImport] 排序导入完成: ${successCount}/${Object.keys(sorts).length}`);
-  }
-}
\ No newline at end of file
+  return results;
+}
+
+/**
+ * Univer 工作簿级定义名称的作用域值（同 @univerjs/sheets 的 SCOPE_WORKBOOK_VALUE_DEFINED_NAME）
+ */
+const WORKBOOK_SCOPE_DEFINED_NAME = 'AllDefaultSheets';
+
+/**
+ * 添加定义名称到工作簿
+ * 使用 Univer Facade API (univerAPI.newDefinedName + FWorkbook.insertDefinedNameBuilder)
+ *
+ * @param univerAPI Univer API 实例
+ * @param definedNames 定义名称列表
+ * @param options.includeBuiltIn 是否添加 Excel 内置名称（打印区域、筛选区域等），默认 false；
+ *   跳过的内置名称不出现在返回结果中
+ * @returns 每个定义名称的添加结果
+ */
+export async function addDefinedNamesToWorkbook(
+  univerAPI: any,
+  definedNames: ImportedDefinedName[],
+  options: { includeBuiltIn?: boolean } = {},
+): Promise<WorkbookItemResult[]> {
+  const { includeBuiltIn = false } = options;
+  const targets = (definedNames || []).filter((item) => includeBuiltIn || !item.builtIn);
+  const fWorkbook = univerAPI?.getActiveWorkbook();
+
+  return targets.map((definedName) => {
+    const item = { id: definedName.name, sheetId: definedName.sheetId ?? '' };
+    if (!fWorkbook) {
+      return { ...item, success: false, message: '无法获取活动工作簿' };
+    }
+    if (definedName.sheetId && !fWorkbook.getSheetBySheetId(definedName.sheetId)) {
+      return { ...item, success: false, message: `未找到工作表: ${definedName.sheetId}` };
+    }
+
+    try {
+      const { formulaOrRefString } = definedName;
+      const builder = univerAPI.newDefinedName().setName(definedName.name);
+      if (formulaOrRefString.startsWith('=')) {
+        builder.setFormula(formulaOrRefString.slice(1));
+      } else {
+        builder.setRef(formulaOrRefString);
+      }
+      builder.setHidden(definedName.hidden);
+      if (definedName.comment) {
+        builder.setComment(definedName.comment);
+      }
+
+      const param = builder.build();
+      param.localSheetId = definedName.sheetId || WORKBOOK_SCOPE_DEFINED_NAME;
+      fWorkbook.insertDefinedNameBuilder(param);
+      return { ...item, success: true };
+    } catch (err) {
+      return { ...item, success: false, message: getErrorMessage(err) };
+    }
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * 文件格式识别
+ * 纯函数，无副作用
+ *
+ * 按文件内容判断格式，不依赖扩展名（重命名的文件、没有文件名的 Blob 也能正确识别）：
+ * - ZIP 签名：OOXML 工作簿（.xlsx / .xlsm 等）
+ * - CFB 签名：Excel 97-2003（.xls）；加密的 .xlsx 同样是 CFB 容器，由 xls 读取器识别并报错
+ * - 文本特征：CSV / TSV
+ * - 标记文本：HTML / XML（部分系统导出的 .xls 实为网页表格或 XML 表格），需单独识别并拒绝
+ */
+
+import { isCfb } from './cfbReader';
+
+/**
+ * 支持导入的文件格式
+ */
+export type ImportFileFormat = 'xlsx' | 'xls' | 'csv';
+
+/** 支持的扩展名（含常见别名） */
+const EXTENSION_FORMATS: Record<string, ImportFileFormat> = {
+  xlsx: 'xlsx',
+  xlsm: 'xlsx',
+  xls: 'xls',
+  csv: 'csv',
+  tsv: 'csv',
+};
+
+/** ZIP 本地文件头 / 空 ZIP 的中央目录结束标记 */
+const ZIP_SIGNATURES = [
+  [0x50, 0x4b, 0x03, 0x04],
+  [0x50, 0x4b, 0x05, 0x06],
+];
+
+/** 文本检测采样长度 */
+const TEXT_SAMPLE_SIZE = 8192;
+
+/** 文本中允许的控制字符比例上限 */
+const MAX_CONTROL_CHAR_RATIO = 0.02;
+
+/** 标记文本检测采样长度 */
+const MARKUP_SAMPLE_SIZE = 1024;
+
+/** HTML 文档的开头（网页表格导出的 .xls 常以 <table> 或 <meta> 开头） */
+const HTML_START = /^<(?:!doctype\s+html|html|head|body|table|meta)\b/;
+
+function startsWith(data: Uint8Array, signature: number[]): boolean {
+  if (data.length < signature.length) return false;
+  return signature.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * 判断内容是否为文本
+ * 带 UTF-16 BOM 视为文本；否则出现 NUL 或控制字符过多即视为二进制
+ */
+function looksLikeText(data: Uint8Array): boolean {
+  if (startsWith(data, [0xff, 0xfe]) || startsWith(data, [0xfe, 0xff])) {
+    return true;
+  }
+
+  const length = Math.min(data.length, TEXT_SAMPLE_SIZE);
+  let controlChars = 0;
+  for (let i = 0; i < length; i++) {
+    const byte = data[i];
+    if (byte === 0) return false;
+    // 允许制表符、换行、换页、回车
+    if (
+      (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) ||
+      byte === 0x7f
+    ) {
+      controlChars++;
+    }
+  }
+  return controlChars <= length * MAX_CONTROL_CHAR_RATIO;
+}
+
+/**
+ * 按文件内容识别格式
+ * @param data 文件内容
+ * @returns 识别出的格式；无法识别（如其他二进制文件）或内容为空时返回 null
+ */
+export function sniffFileFormat(data: Uint8Array): ImportFileFormat | null {
+  if (data.length === 0) return null;
+  if (ZIP_SIGNATURES.some((signature) => startsWith(data, signature))) return 'xlsx';
+  if (isCfb(data)) return 'xls';
+  if (looksLikeText(data)) return 'csv';
+  return null;
+}
+
+/**
+ * 识别 HTML / XML 标记文本
+ * 跳过 BOM 和前导空白后检查开头的标签；XML 声明之后是 <html> 的按 HTML 处理
+ * @param data 文件内容
+ * @returns 'html' 或 'xml'；不是标记文本时返回 null
+ */
+export function sniffMarkupFormat(data: Uint8Array): 'html' | 'xml' | null {
+  const sample = data.subarray(0, MARKUP_SAMPLE_SIZE);
+  let encoding = 'utf-8';
+  if (startsWith(sample, [0xff, 0xfe])) encoding = 'utf-16le';
+  else if (startsWith(sample, [0xfe, 0xff])) encoding = 'utf-16be';
+  // TextDecoder 默认去掉 BOM，截断的多字节字符替换为 U+FFFD
+  const text = new TextDecoder(encoding).decode(sample).trimStart().toLowerCase();
+  if (HTML_START.test(text)) return 'html';
+  if (text.startsWith('<?xml')) {
+    return /<html\b/.test(text) ? 'html' : 'xml';
+  }
+  return null;
+}
+
+/**
+ * 按文件名扩展名推断格式
+ * @param fileName 文件名
+ * @returns 推断出的格式；没有扩展名或扩展名不支持时返回 null
+ */
+export function getFormatFromFileName(fileName: string | undefined): ImportFileFormat | null {
+  const dot = fileName?.lastIndexOf('.') ?? -1;
+  if (!fileName || dot < 0) return null;
+  return EXTENSION_FORMATS[fileName.slice(dot + 1).toLowerCase()] ?? null;
+}
@@ -0,0 +1,169 @@
+/**
+ * Worker 导入（主线程侧）
+ *
+ * 把文件发送给导入 Worker（importWorker.ts）执行完整导入流程，避免大文件解析阻塞 UI 线程。
+ * 默认每次导入创建一个 Worker，完成后立即销毁；传入 Worker 实例时复用且不销毁。
+ */
+
+import type {
+  FileImportOptions,
+  FileImportResult,
+  ImportProgress,
+  ImportSource,
+} from './fileImport';
+import {
+  ImportAbortedError,
+  WorkerUnavailableError,
+  restoreImportError,
+  type SerializedError,
+} from './errors';
+
+/**
+ * worker 选项
+ * - true：使用内置导入 Worker（dist/importWorker.js，仅 ES 模块构建可用）
+ * - Worker：复用传入的 Worker 实例（需加载 importWorker 脚本）
+ * - () => Worker：自定义 Worker 创建方式（如打包工具需要显式引用 worker 地址）
+ */
+export type ImportWorkerOption = boolean | Worker | (() => Worker);
+
+/**
+ * 主线程发给 Worker 的消息
+ * onProgress / signal 无法跨线程传递，分别以 reportProgress 标记和 abort 消息代替
+ */
+export type ImportWorkerRequest =
+  | {
+      type: 'import';
+      id: number;
+      file: ImportSource;
+      options: Omit<FileImportOptions, 'worker' | 'onProgress' | 'signal'>;
+      reportProgress: boolean;
+    }
+  | { type: 'abort'; id: number };
+
+/**
+ * Worker 发回主线程的消息
+ */
+export type ImportWorkerResponse =
+  | { type: 'progress'; id: number; progress: ImportProgress }
+  | { type: 'result'; id: number; result: FileImportResult }
+  | { type: 'error'; id: number; error: SerializedError };
+
+let requestId = 0;
+
+// 构建格式（构建时注入，cjs / esm）
+declare const BUILD_FORMAT: string;
+
+/**
+ * 是否为 CommonJS 构建
+ */
+function isCommonJsBuild(): boolean {
+  try {
+    return BUILD_FORMAT === 'cjs';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 当前环境是否支持 Web Worker
+ */
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+function createWorker(option: ImportWorkerOption): { worker: Worker; owned: boolean } {
+  if (typeof option === 'function') {
+    return { worker: option(), owned: true };
+  }
+  if (typeof option === 'object' && option !== null) {
+    return { worker: option, owned: false };
+  }
+  // 内置 Worker 只输出 ES 模块；CommonJS 构建中 import.meta 不可用，无法定位 Worker 脚本
+  if (isCommonJsBuild() || !import.meta.url) {
+    throw new WorkerUnavailableError(
+      'CommonJS 构建不支持内置导入 Worker，请通过 worker 选项传入 Worker 实例或创建函数',
+    );
+  }
+  return {
+    worker: new Worker(new URL('./importWorker.js', import.meta.url), { type: 'module' }),
+    owned: true,
+  };
+}
+
+/**
+ * 在 Worker 中执行导入
+ * @param file 文件对象、Blob 或文件内容（会被结构化克隆到 Worker，不转移所有权）
+ * @param options 导入选项（worker 字段不会发送给 Worker）
+ */
+export function runImportInWorker(
+  file: ImportSource,
+  options: FileImportOptions,
+): Promise<FileImportResult> {
+  const { worker: workerOption = true, onProgress, signal, ...workerOptions } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new ImportAbortedError(signal.reason));
+  }
+
+  let created: { worker: Worker; owned: boolean };
+  try {
+    created = createWorker(workerOption);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const { worker, owned } = created;
+  const id = ++requestId;
+
+  return new Promise<FileImportResult>((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      if (owned) worker.terminate();
+    };
+
+    const onMessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const data = event.data;
+      if (!data || data.id !== id) return;
+      if (data.type === 'progress') {
+        onProgress?.(data.progress);
+        return;
+      }
+      cleanup();
+      if (data.type === 'result') {
+        resolve(data.result);
+      } else if (data.error.name === 'ImportAbortedError') {
+        reject(new ImportAbortedError(signal?.reason));
+      } else {
+        reject(restoreImportError(data.error));
+      }
+    };
+
+    const onError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(`导入 Worker 运行失败: ${event.message}`));
+    };
+
+    // 自建的 Worker 直接销毁；复用的 Worker 通知其中止当前任务
+    const onAbort = () => {
+      if (!owned) {
+        const abortRequest: ImportWorkerRequest = { type: 'abort', id };
+        worker.postMessage(abortRequest);
+      }
+      cleanup();
+      reject(new ImportAbortedError(signal?.reason));
+    };
+
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+
+    const request: ImportWorkerRequest = {
+      type: 'import',
+      id,
+      file,
+      options: workerOptions,
+      reportProgress: !!onProgress,
+    };
+    worker.postMessage(request);
+  });
+}
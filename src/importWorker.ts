@@ -0,0 +1,71 @@
+/**
+ * 导入 Worker 入口
+ *
+ * 在 Web Worker 中执行完整的 importFile 流程（ExcelJS 解析、图表/透视表/排序解析、
+ * 图片 base64 编码），结果通过 postMessage 发回主线程。
+ * 由 importFileInWorker 创建，构建产物为 dist/importWorker.js。
+ */
+
+import { importFile } from './fileImport';
+import { serializeError } from './errors';
+import type { ImportWorkerRequest, ImportWorkerResponse } from './importInWorker';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<ImportWorkerRequest>) => void) | null;
+  postMessage: (message: ImportWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+// 进行中的导入任务，用于响应 abort 消息
+const controllers = new Map<number, AbortController>();
+
+/**
+ * 收集结果中可转移的 ArrayBuffer（图片、工作簿数据中的二进制内容）
+ * 随结果一起转移给主线程，避免结构化克隆复制一份
+ */
+function collectTransferables(value: unknown): Transferable[] {
+  const buffers = new Set<ArrayBuffer>();
+  const visited = new Set<object>();
+  const stack: unknown[] = [value];
+  while (stack.length > 0) {
+    const item = stack.pop();
+    if (typeof item !== 'object' || item === null || visited.has(item)) continue;
+    visited.add(item);
+    if (item instanceof ArrayBuffer) {
+      buffers.add(item);
+    } else if (ArrayBuffer.isView(item)) {
+      if (item.buffer instanceof ArrayBuffer) buffers.add(item.buffer);
+    } else {
+      // 逐个压栈，避免大对象（如数万行的 cellData）展开参数超出调用栈限制
+      for (const child of Object.values(item)) stack.push(child);
+    }
+  }
+  return [...buffers];
+}
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type === 'abort') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, file, options, reportProgress } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    // worker 内部始终在当前线程执行，避免再次创建 worker
+    const result = await importFile(file, {
+      ...options,
+      worker: false,
+      signal: controller.signal,
+      onProgress: reportProgress
+        ? (progress) => ctx.postMessage({ type: 'progress', id, progress })
+        : undefined,
+    });
+    ctx.postMessage({ type: 'result', id, result }, collectTransferables(result));
+  } catch (error) {
+    ctx.postMessage({ type: 'error', id, error: serializeError(error) });
+  } finally {
+    controllers.delete(id);
+  }
+};
@@ -7,6 +7,8 @@
 // 主要导入功能
 export {
   importFile,
+  importFileInWorker,
+  importBuffer,
   ImageType,
   // 添加功能到工作簿的函数
   addConditionalFormatsToWorkbook,
@@ -15,17 +17,74 @@ export {
   addChartsToWorkbook,
   addPivotTablesToWorkbook,
   addImagesToWorkbook,
+  addDefinedNamesToWorkbook,
+  SORT_STATE_METADATA_KEY,
   // 类型导出
   type ImportedImage,
   type ImportedConditionalFormat,
   type ImportedFilter,
+  type ImportedFilterColumn,
+  type ImportedFilterOperator,
+  type ImportedFilterDateGrouping,
   type ImportedSort,
+  type ImportedSortCondition,
+  type ImportedSortBy,
   type ImportedChart,
+  type ImportedChartType,
+  type ImportedChartSeries,
+  type ImportedChartAxis,
+  type ImportedChartAxes,
+  type ImportedChartDataLabels,
   type ImportedPivotTable,
+  type ImportedPivotCacheField,
+  type ImportedPivotField,
+  type ImportedPivotDataField,
+  type ImportedPivotLayout,
+  type ImportedPivotSubtotal,
+  type ImportedPivotShowDataAs,
+  type ImportedPivotItemValue,
+  type ImportedDefinedName,
+  type ImportedTable,
+  type ImportedTableColumn,
   type ImageInsertOptions,
   type FileImportOptions,
+  type BufferImportOptions,
   type FileImportResult,
+  type ImportProgress,
+  type ImportProgressPhase,
+  type ImportSource,
+  type ImportDiagnostic,
+  type ImportDiagnosticCode,
+  type ImportDiagnosticSeverity,
+  type WorkbookItemResult,
 } from './fileImport';
+export {
+  ImportError,
+  UnsupportedFormatError,
+  CorruptFileError,
+  EncryptedFileError,
+  EncodingError,
+  ImportAbortedError,
+  WorkerUnavailableError,
+  ExportError,
+  SheetNotFoundError,
+  type ImportErrorCode,
+  type ImportErrorOptions,
+  type ExportErrorCode,
+} from './errors';
+export { isWorkerSupported, type ImportWorkerOption } from './importInWorker';
+export { sniffFileFormat, type ImportFileFormat } from './formatSniffer';
+
+// 导出功能
+export {
+  exportWorkbookToXlsx,
+  exportSheetToCsv,
+  type WorkbookExportExtras,
+  type XlsxExportResult,
+  type ExportDiagnostic,
+  type ExportDiagnosticCode,
+  type CsvExportOptions,
+} from './fileExport';
 
 // 工作簿辅助函数
 export {
@@ -0,0 +1,758 @@
+/**
+ * Excel 数字格式渲染
+ * 纯函数，无副作用
+ *
+ * 按数字格式（numFmt / IStyleData.n.pattern）计算数值的显示文本：
+ * - 分节：正数;负数;零;文本，以及条件分节（[>=100]0;[<0]...）
+ * - 数字：0 # ? 占位符、千分位、缩放逗号（0.0,, 以百万为单位）、百分比、科学计数、分数
+ * - 日期时间：y m d h s、AM/PM（A/P、上午/下午）、星期（ddd/dddd、aaa/aaaa）、
+ *   秒的小数部分（ss.000）、经过时间（[h]:mm、[mm]:ss）
+ * - 文本：引号、反斜杠转义、_x 占位空格、[$¥-804] 货币符号；颜色和 * 填充不影响文本
+ */
+
+/** 格式中的单个元素 */
+type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; char: '0' | '#' | '?' }
+  | { type: 'point' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'slash' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'general' }
+  | { type: 'text' }
+  | { type: 'date'; unit: 'y' | 'm' | 'd' | 'h' | 's' | 'a'; width: number }
+  | { type: 'elapsed'; unit: 'h' | 'm' | 's'; width: number }
+  | { type: 'ampm'; am: string; pm: string };
+
+/** 条件分节的条件 */
+interface FormatCondition {
+  operator: string;
+  value: number;
+}
+
+/** 格式分节 */
+interface FormatSection {
+  tokens: FormatToken[];
+  condition?: FormatCondition;
+  /** 是否为日期时间分节 */
+  isDate: boolean;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+const WEEKDAY_NAMES_ZH = ['日', '一', '二', '三', '四', '五', '六'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 随系统区域设置显示的内置格式
+ * 内置格式 14（文件中记录为 mm-dd-yy）在 Excel 中显示为系统短日期，这里按中文区域的 yyyy/m/d
+ */
+const LOCALE_NUM_FORMATS: Record<string, string> = {
+  'mm-dd-yy': 'yyyy/m/d',
+};
+
+/** 解析结果缓存（同一工作表中的格式通常只有少数几种） */
+const sectionCache = new Map<string, FormatSection[]>();
+
+/**
+ * 解析方括号中的内容（经过时间、货币符号、条件；颜色等其他内容忽略）
+ */
+function parseBracket(
+  content: string,
+  tokens: FormatToken[],
+  section: { condition?: FormatCondition },
+): void {
+  const elapsed = content.match(/^(h+|m+|s+)$/i);
+  if (elapsed) {
+    const unit = elapsed[1][0].toLowerCase() as 'h' | 'm' | 's';
+    tokens.push({ type: 'elapsed', unit, width: elapsed[1].length });
+    return;
+  }
+  if (content.startsWith('$')) {
+    // [$¥-804]：- 之前为货币符号，之后为区域代码
+    const symbol = content.slice(1).split('-')[0];
+    if (symbol) tokens.push({ type: 'literal', text: symbol });
+    return;
+  }
+  const condition = content.match(/^(<=|>=|<>|<|>|=)\s*(-?[\d.]+)$/);
+  if (condition) {
+    section.condition = { operator: condition[1], value: Number(condition[2]) };
+  }
+}
+
+/**
+ * 将格式拆分为分节并解析每个分节的元素
+ */
+function parseFormat(pattern: string): FormatSection[] {
+  const cached = sectionCache.get(pattern);
+  if (cached) return cached;
+
+  const sections: FormatSection[] = [];
+  let current: FormatSection = { tokens: [], isDate: false };
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const rest = pattern.slice(i);
+
+    if (char === ';') {
+      sections.push(current);
+      current = { tokens: [], isDate: false };
+      i++;
+    } else if (char === '"') {
+      const end = pattern.indexOf('"', i + 1);
+      const text = end < 0 ? pattern.slice(i + 1) : pattern.slice(i + 1, end);
+      current.tokens.push({ type: 'literal', text });
+      i = end < 0 ? pattern.length : end + 1;
+    } else if (char === '\\') {
+      current.tokens.push({ type: 'literal', text: pattern[i + 1] ?? '' });
+      i += 2;
+    } else if (char === '_') {
+      // _x：占位与字符 x 同宽的空白
+      current.tokens.push({ type: 'literal', text: ' ' });
+      i += 2;
+    } else if (char === '*') {
+      // *x：用字符 x 填充列宽，文本中忽略
+      i += 2;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end < 0) break;
+      parseBracket(pattern.slice(i + 1, end), current.tokens, current);
+      i = end + 1;
+    } else if (/^General/i.test(rest)) {
+      current.tokens.push({ type: 'general' });
+      i += 7;
+    } else if (/^AM\/PM/i.test(rest)) {
+      current.tokens.push({ type: 'ampm', am: 'AM', pm: 'PM' });
+      i += 5;
+    } else if (/^A\/P/i.test(rest)) {
+      current.tokens.push({
+        type: 'ampm',
+        am: rest[0] === 'a' ? 'a' : 'A',
+        pm: rest[2] === 'p' ? 'p' : 'P',
+      });
+      i += 3;
+    } else if (rest.startsWith('上午/下午')) {
+      current.tokens.push({ type: 'ampm', am: '上午', pm: '下午' });
+      i += 5;
+    } else if (/^E[+-]/i.test(rest)) {
+      current.tokens.push({ type: 'exponent', sign: rest[1] as '+' | '-' });
+      i += 2;
+    } else if (/[ymdhse]/i.test(char) || (/a/i.test(char) && /^a{3}/i.test(rest))) {
+      // 连续的同一字母组成一个日期元素；e 表示四位年份
+      let end = i;
+      while (end < pattern.length && pattern[end].toLowerCase() === char.toLowerCase()) end++;
+      const letter = char.toLowerCase();
+      const unit = (letter === 'e' ? 'y' : letter) as 'y' | 'm' | 'd' | 'h' | 's' | 'a';
+      current.tokens.push({ type: 'date', unit, width: letter === 'e' ? 4 : end - i });
+      i = end;
+    } else if (char === '0' || char === '#' || char === '?') {
+      current.tokens.push({ type: 'digit', char });
+      i++;
+    } else if (char === '.') {
+      current.tokens.push({ type: 'point' });
+      i++;
+    } else if (char === ',') {
+      current.tokens.push({ type: 'comma' });
+      i++;
+    } else if (char === '%') {
+      current.tokens.push({ type: 'percent' });
+      i++;
+    } else if (char === '/') {
+      current.tokens.push({ type: 'slash' });
+      i++;
+    } else if (char === '@') {
+      current.tokens.push({ type: 'text' });
+      i++;
+    } else {
+      current.tokens.push({ type: 'literal', text: char });
+      i++;
+    }
+  }
+  sections.push(current);
+
+  for (const section of sections) {
+    section.isDate = section.tokens.some(
+      (token) => token.type === 'date' || token.type === 'elapsed' || token.type === 'ampm',
+    );
+  }
+  sectionCache.set(pattern, sections);
+  return sections;
+}
+
+function matchesCondition(value: number, condition: FormatCondition): boolean {
+  switch (condition.operator) {
+    case '<':
+      return value < condition.value;
+    case '<=':
+      return value <= condition.value;
+    case '>':
+      return value > condition.value;
+    case '>=':
+      return value >= condition.value;
+    case '=':
+      return value === condition.value;
+    case '<>':
+      return value !== condition.value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 按数值选择分节
+ * @returns 分节及是否由分节自身表示负号（负数分节按绝对值显示）
+ */
+function selectSection(
+  sections: FormatSection[],
+  value: number,
+): { section: FormatSection; absolute: boolean } {
+  // 多个分节时，最后一个含 @ 的分节是文本分节
+  const last = sections[sections.length - 1];
+  const numberSections =
+    sections.length > 1 && last.tokens.some((token) => token.type === 'text')
+      ? sections.slice(0, -1)
+      : sections;
+
+  if (numberSections.some((section) => section.condition)) {
+    for (const section of numberSections.slice(0, 2)) {
+      if (!section.condition || matchesCondition(value, section.condition)) {
+        return { section, absolute: false };
+      }
+    }
+    return { section: numberSections[Math.min(2, numberSections.length - 1)], absolute: false };
+  }
+
+  if (value < 0 && numberSections.length >= 2) {
+    return { section: numberSections[1], absolute: true };
+  }
+  if (value === 0 && numberSections.length >= 3) {
+    return { section: numberSections[2], absolute: false };
+  }
+  return { section: numberSections[0], absolute: false };
+}
+
+/**
+ * 通用格式（General）：最多 11 位有效数字，过大或过小时使用科学计数
+ */
+function formatGeneral(value: number): string {
+  if (Number.isInteger(value) && Math.abs(value) < 1e11) return String(value);
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs >= 1e11 || abs < 1e-9)) {
+    const [mantissa, exponent] = value.toExponential(5).split('e');
+    const sign = exponent.startsWith('-') ? '-' : '+';
+    const digits = exponent.replace(/^[+-]/, '').padStart(2, '0');
+    return `${String(Number(mantissa))}E${sign}${digits}`;
+  }
+  return String(Number(value.toPrecision(10)));
+}
+
+/**
+ * 四舍五入到指定小数位（先修正二进制误差，1.005 -> 1.01）
+ */
+function toFixedRounded(value: number, decimals: number): string {
+  const factor = 10 ** decimals;
+  const shifted = value * factor;
+  if (!Number.isFinite(shifted) || Math.abs(shifted) >= 1e15) {
+    return value.toFixed(decimals);
+  }
+  return (Math.round(Number(shifted.toPrecision(15))) / factor).toFixed(decimals);
+}
+
+/**
+ * 输出整数部分的占位符
+ * 数字右对齐到占位符，多出的高位数字放在第一个占位符上；不足时 0 补零、? 补空格、# 省略
+ */
+function renderIntegerDigits(
+  placeholders: Array<'0' | '#' | '?'>,
+  digits: string,
+  thousands: boolean,
+): string[] {
+  const output = placeholders.map((char, index) => {
+    const digitIndex = digits.length - (placeholders.length - index);
+    if (index === 0 && digitIndex >= 0) return digits.slice(0, digitIndex + 1);
+    if (digitIndex >= 0) return digits[digitIndex];
+    return char === '0' ? '0' : char === '?' ? ' ' : '';
+  });
+  if (!thousands) return output;
+
+  // 从右向左每三位插入千分位
+  let count = 0;
+  for (let index = output.length - 1; index >= 0; index--) {
+    let text = '';
+    for (let k = output[index].length - 1; k >= 0; k--) {
+      const char = output[index][k];
+      if (/\d/.test(char)) {
+        text = (count > 0 && count % 3 === 0 ? `${char},` : char) + text;
+        count++;
+      } else {
+        text = char + text;
+      }
+    }
+    output[index] = text;
+  }
+  return output;
+}
+
+/**
+ * 输出小数部分的占位符：末尾的 0 按占位符补零、补空格或省略
+ */
+function renderFractionDigits(placeholders: Array<'0' | '#' | '?'>, digits: string): string[] {
+  const lastSignificant = digits.replace(/0+$/, '').length - 1;
+  return placeholders.map((char, index) => {
+    if (index <= lastSignificant) return digits[index];
+    return char === '0' ? '0' : char === '?' ? ' ' : '';
+  });
+}
+
+/**
+ * 求不超过最大分母的最佳近似分数
+ */
+function approximateFraction(value: number, maxDenominator: number): [number, number] {
+  let best: [number, number] = [Math.round(value), 1];
+  let bestError = Math.abs(value - best[0]);
+  for (let denominator = 2; denominator <= maxDenominator && bestError > 1e-12; denominator++) {
+    const numerator = Math.round(value * denominator);
+    const error = Math.abs(value - numerator / denominator);
+    if (error < bestError - 1e-12) {
+      best = [numerator, denominator];
+      bestError = error;
+    }
+  }
+  return best;
+}
+
+/**
+ * 渲染分数格式（# ?/?、# ??/16、?/?）
+ */
+function renderFraction(tokens: FormatToken[], value: number, slashIndex: number): string {
+  // 分子：紧邻 / 之前的占位符；整数部分：分子之前（以文本分隔）的占位符
+  let numeratorStart = slashIndex;
+  while (numeratorStart > 0 && tokens[numeratorStart - 1].type === 'digit') numeratorStart--;
+  const hasInteger = tokens.slice(0, numeratorStart).some((token) => token.type === 'digit');
+
+  // 分母：占位符个数决定最大分母；以 1~9 开头的数字为固定分母
+  let denominatorEnd = slashIndex + 1;
+  let denominatorText = '';
+  while (denominatorEnd < tokens.length) {
+    const token = tokens[denominatorEnd];
+    if (token.type === 'digit') denominatorText += token.char;
+    else if (token.type === 'literal' && /^\d$/.test(token.text)) denominatorText += token.text;
+    else break;
+    denominatorEnd++;
+  }
+  const fixedDenominator = /^[1-9]\d*$/.test(denominatorText) ? Number(denominatorText) : 0;
+
+  const whole = hasInteger ? Math.floor(value) : 0;
+  let [numerator, denominator] = fixedDenominator
+    ? [Math.round((value - whole) * fixedDenominator), fixedDenominator]
+    : approximateFraction(value - whole, 10 ** Math.max(denominatorText.length, 1) - 1);
+  let integer = whole;
+  if (hasInteger && numerator === denominator) {
+    integer++;
+    numerator = 0;
+  }
+
+  const pad = (text: string, placeholders: string) =>
+    text.padStart(placeholders.length, placeholders.includes('?') ? ' ' : '');
+  const numeratorPlaceholders = tokens
+    .slice(numeratorStart, slashIndex)
+    .map((token) => (token as { char: string }).char)
+    .join('');
+
+  let output = '';
+  for (let index = 0; index < numeratorStart; index++) {
+    const token = tokens[index];
+    if (token.type === 'literal') output += token.text;
+    else if (token.type === 'digit') {
+      // 整数部分只输出一次，其余占位符忽略；整数为 0 且有分数时按占位符决定是否显示
+      const isFirst = tokens.findIndex((t) => t.type === 'digit') === index;
+      const hideZero = integer === 0 && numerator !== 0 && token.char !== '0';
+      if (isFirst && !hideZero) output += String(integer);
+    }
+  }
+  if (numerator === 0 && hasInteger) {
+    // 没有分数部分时只显示整数（去掉整数与分数之间的分隔文本）
+    return output.trimEnd();
+  }
+  output += `${pad(String(numerator), numeratorPlaceholders)}/${denominator}`;
+  for (const token of tokens.slice(denominatorEnd)) {
+    if (token.type === 'literal') output += token.text;
+  }
+  return output;
+}
+
+/**
+ * 渲染数字分节
+ */
+function renderNumber(section: FormatSection, value: number, showMinus: boolean): string {
+  const { tokens } = section;
+  const negative = showMinus && value < 0;
+  const abs = Math.abs(value);
+
+  const hasDigits = tokens.some((token) => token.type === 'digit');
+  if (!hasDigits) {
+    // 没有占位符：只有文本（如 "-"）或通用格式（General "kg"）
+    const text = tokens
+      .map((token) => {
+        if (token.type === 'literal') return token.text;
+        if (token.type === 'general') return formatGeneral(abs);
+        if (token.type === 'percent') return '%';
+        if (token.type === 'point') return '.';
+        if (token.type === 'comma') return ',';
+        if (token.type === 'slash') return '/';
+        return '';
+      })
+      .join('');
+    return (negative ? '-' : '') + text;
+  }
+
+  const percentCount = tokens.filter((token) => token.type === 'percent').length;
+  const scaled = abs * 100 ** percentCount;
+
+  const slashIndex = tokens.findIndex((token) => token.type === 'slash');
+  if (slashIndex > 0 && tokens[slashIndex - 1].type === 'digit') {
+    return (negative ? '-' : '') + renderFraction(tokens, scaled, slashIndex);
+  }
+
+  const exponentIndex = tokens.findIndex((token) => token.type === 'exponent');
+  const mantissaEnd = exponentIndex < 0 ? tokens.length : exponentIndex;
+  const pointIndex = tokens.findIndex(
+    (token, index) => token.type === 'point' && index < mantissaEnd,
+  );
+  const integerEnd = pointIndex < 0 ? mantissaEnd : pointIndex;
+
+  // 逗号：位于整数占位符之间为千分位；跟在最后一个占位符之后为缩放（每个除以 1000）
+  let thousands = false;
+  let scaleCount = 0;
+  // 不直接输出的逗号（千分位由 renderIntegerDigits 插入）
+  const hiddenCommas = new Set<number>();
+  tokens.forEach((token, index) => {
+    if (token.type !== 'comma' || index >= mantissaEnd) return;
+    const hasDigitBefore = tokens.slice(0, index).some((t) => t.type === 'digit');
+    let next = index + 1;
+    while (next < tokens.length && tokens[next].type === 'comma') next++;
+    const nextIsDigit = next < mantissaEnd && tokens[next].type === 'digit';
+    if (hasDigitBefore && nextIsDigit && index < integerEnd) {
+      thousands = true;
+      hiddenCommas.add(index);
+    } else if (hasDigitBefore && !nextIsDigit) {
+      scaleCount++;
+      hiddenCommas.add(index);
+    }
+  });
+
+  const placeholders = (start: number, end: number) =>
+    tokens
+      .slice(start, end)
+      .filter((token): token is { type: 'digit'; char: '0' | '#' | '?' } => token.type === 'digit')
+      .map((token) => token.char);
+  const integerPlaceholders = placeholders(0, integerEnd);
+  const fractionPlaceholders = pointIndex < 0 ? [] : placeholders(pointIndex + 1, mantissaEnd);
+
+  let number = scaled / 1000 ** scaleCount;
+  let exponent = 0;
+  if (exponentIndex >= 0 && number !== 0) {
+    const integerDigits = Math.max(integerPlaceholders.length, 1);
+    // 整数部分以 # 开头且有多位时为工程计数法（指数为位数的倍数）
+    const engineering = integerDigits > 1 && integerPlaceholders[0] === '#';
+    exponent = Math.floor(Math.log10(number));
+    exponent = engineering
+      ? Math.floor(exponent / integerDigits) * integerDigits
+      : exponent - (integerDigits - 1);
+    number /= 10 ** exponent;
+    if (
+      !engineering &&
+      Number(toFixedRounded(number, fractionPlaceholders.length)) >= 10 ** integerDigits
+    ) {
+      exponent++;
+      number /= 10;
+    }
+  }
+
+  const fixed = toFixedRounded(number, fractionPlaceholders.length);
+  if (/e/i.test(fixed)) return (negative ? '-' : '') + formatGeneral(abs);
+  let [integerText, fractionText = ''] = fixed.split('.');
+  if (integerText === '0' && !integerPlaceholders.includes('0')) integerText = '';
+
+  const integerOutput = renderIntegerDigits(integerPlaceholders, integerText, thousands);
+  const fractionOutput = renderFractionDigits(fractionPlaceholders, fractionText);
+  const exponentPlaceholders =
+    exponentIndex < 0 ? [] : placeholders(exponentIndex + 1, tokens.length);
+  const exponentText = String(Math.abs(exponent)).padStart(
+    exponentPlaceholders.filter((char) => char === '0').length,
+    '0',
+  );
+
+  let output = '';
+  let integerIndex = 0;
+  let fractionIndex = 0;
+  let exponentWritten = false;
+  tokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'literal':
+        output += token.text;
+        break;
+      case 'digit':
+        if (index < integerEnd) {
+          output += integerOutput[integerIndex++];
+        } else if (index < mantissaEnd) {
+          output += fractionOutput[fractionIndex++];
+        } else if (!exponentWritten) {
+          output += exponentText;
+          exponentWritten = true;
+        }
+        break;
+      case 'point':
+        // 没有整数占位符时整数部分写在小数点前
+        if (index === pointIndex && integerPlaceholders.length === 0) output += integerText;
+        output += '.';
+        break;
+      case 'comma':
+        if (!hiddenCommas.has(index)) output += ',';
+        break;
+      case 'percent':
+        output += '%';
+        break;
+      case 'exponent':
+        output += `E${exponent < 0 ? '-' : token.sign === '+' ? '+' : ''}`;
+        break;
+      case 'general':
+        output += formatGeneral(abs);
+        break;
+      case 'slash':
+        output += '/';
+        break;
+      default:
+        break;
+    }
+  });
+
+  // 四舍五入后为 0 时 Excel 仍显示负号（-0.001 按 0.00 显示为 -0.00）
+  return negative ? `-${output}` : output;
+}
+
+/**
+ * Excel 序列号的日期部分（1900 日期系统，保留 Excel 把 1900 年视为闰年的错误）
+ */
+function serialToDateParts(days: number): {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+} {
+  const weekday = (((days - 1) % 7) + 7) % 7;
+  if (days === 0) return { year: 1900, month: 1, day: 0, weekday };
+  if (days === 60) return { year: 1900, month: 2, day: 29, weekday };
+  // 1900-03-01 之前的序列号比实际日期多一天
+  const date = new Date(Date.UTC(1899, 11, days < 60 ? 31 : 30) + days * MS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday,
+  };
+}
+
+/**
+ * 日期元素中的 m/mm 表示分钟还是月份：紧跟小时之后或紧接秒之前为分钟
+ */
+function isMinuteToken(tokens: FormatToken[], index: number): boolean {
+  const isTimeToken = (token: FormatToken | undefined, unit: 'h' | 's') =>
+    !!token && (token.type === 'date' || token.type === 'elapsed') && token.unit === unit;
+  const findDateToken = (from: number, step: number) => {
+    for (let i = from; i >= 0 && i < tokens.length; i += step) {
+      if (tokens[i].type === 'date' || tokens[i].type === 'elapsed') return tokens[i];
+    }
+    return undefined;
+  };
+  return (
+    isTimeToken(findDateToken(index - 1, -1), 'h') || isTimeToken(findDateToken(index + 1, 1), 's')
+  );
+}
+
+/**
+ * 渲染日期时间分节
+ */
+function renderDate(section: FormatSection, serial: number): string {
+  const { tokens } = section;
+
+  // 秒的小数部分：秒之后的 .0 / .00 / .000
+  let subsecondDigits = 0;
+  let subsecondIndex = -1;
+  tokens.forEach((token, index) => {
+    if (token.type !== 'point' || subsecondIndex >= 0) return;
+    const previous = tokens[index - 1];
+    if (
+      !previous ||
+      (previous.type !== 'date' && previous.type !== 'elapsed') ||
+      previous.unit !== 's'
+    ) {
+      return;
+    }
+    let next = index + 1;
+    while (next < tokens.length && tokens[next].type === 'digit') next++;
+    subsecondIndex = index;
+    subsecondDigits = Math.min(next - index - 1, 3);
+  });
+
+  // 按显示精度取整，避免 0.99999 秒显示为 59 秒
+  const unitsPerSecond = 10 ** subsecondDigits;
+  const unitsPerDay = 86400 * unitsPerSecond;
+  const totalUnits = Math.round(serial * unitsPerDay);
+  const days = Math.floor(totalUnits / unitsPerDay);
+  const timeUnits = totalUnits - days * unitsPerDay;
+  const totalSeconds = Math.floor(timeUnits / unitsPerSecond);
+  const subsecond = timeUnits % unitsPerSecond;
+  const { year, month, day, weekday } = serialToDateParts(days);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = totalSeconds % 60;
+
+  const hasAmPm = tokens.some((token) => token.type === 'ampm');
+  const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+  let output = '';
+  let skipDigitsUntil = -1;
+  tokens.forEach((token, index) => {
+    if (index <= skipDigitsUntil) return;
+    switch (token.type) {
+      case 'literal':
+        output += token.text;
+        break;
+      case 'date': {
+        const { unit, width } = token;
+        if (unit === 'y') {
+          output += width <= 2 ? pad(year % 100, 2) : String(year);
+        } else if (unit === 'm') {
+          if (width <= 2 && isMinuteToken(tokens, index)) output += pad(minutes, width);
+          else if (width <= 2) output += pad(month, width);
+          else if (width === 3) output += MONTH_NAMES[month - 1].slice(0, 3);
+          else if (width === 4) output += MONTH_NAMES[month - 1];
+          else output += MONTH_NAMES[month - 1][0];
+        } else if (unit === 'd') {
+          if (width <= 2) output += pad(day, width);
+          else if (width === 3) output += WEEKDAY_NAMES[weekday].slice(0, 3);
+          else output += WEEKDAY_NAMES[weekday];
+        } else if (unit === 'a') {
+          output += width === 3 ? WEEKDAY_NAMES_ZH[weekday] : `星期${WEEKDAY_NAMES_ZH[weekday]}`;
+        } else if (unit === 'h') {
+          const hour = hasAmPm ? hours % 12 || 12 : hours;
+          output += pad(hour, Math.min(width, 2));
+        } else {
+          output += pad(seconds, Math.min(width, 2));
+        }
+        break;
+      }
+      case 'elapsed': {
+        const divisor = token.unit === 'h' ? 3600 : token.unit === 'm' ? 60 : 1;
+        output += pad(Math.floor((days * 86400 + totalSeconds) / divisor), token.width);
+        break;
+      }
+      case 'ampm':
+        output += hours < 12 ? token.am : token.pm;
+        break;
+      case 'point':
+        if (index === subsecondIndex) {
+          output += subsecondDigits > 0 ? `.${pad(subsecond, subsecondDigits)}` : '.';
+          skipDigitsUntil = index + subsecondDigits;
+        } else {
+          output += '.';
+        }
+        break;
+      case 'digit':
+        output += token.char;
+        break;
+      case 'comma':
+        output += ',';
+        break;
+      case 'percent':
+        output += '%';
+        break;
+      case 'slash':
+        output += '/';
+        break;
+      default:
+        break;
+    }
+  });
+  return output;
+}
+
+/**
+ * 按 Excel 数字格式计算数值的显示文本
+ * @param value 数值（日期时间为 Excel 序列号）
+ * @param pattern 数字格式，如 "#,##0.00"、"yyyy-mm-dd hh:mm"、"0.0,,\"M\""
+ * @returns 显示文本；负数的日期时间或无法表示的数值按通用格式显示
+ */
+export function formatNumberWithPattern(value: number, pattern: string): string {
+  if (!Number.isFinite(value)) return String(value);
+  if (!pattern || pattern === 'General') return formatGeneral(value);
+
+  const { section, absolute } = selectSection(
+    parseFormat(LOCALE_NUM_FORMATS[pattern] ?? pattern),
+    value,
+  );
+  if (section.tokens.length === 0) return '';
+  if (section.isDate) {
+    // Excel 中负数日期显示为 ####，这里按通用格式显示
+    const serial = absolute ? Math.abs(value) : value;
+    return serial < 0 ? formatGeneral(value) : renderDate(section, serial);
+  }
+  if (
+    section.tokens.some((token) => token.type === 'text') &&
+    section.tokens.every((token) => token.type === 'text' || token.type === 'literal')
+  ) {
+    // 只有文本分节（@）时数值原样显示
+    return section.tokens
+      .map((token) => (token.type === 'literal' ? token.text : formatGeneral(value)))
+      .join('');
+  }
+  return renderNumber(section, absolute ? Math.abs(value) : value, !absolute);
+}
+
+/**
+ * 按 Excel 数字格式显示日期
+ * 日期按 UTC 分量解读（与 ExcelJS 读出的日期一致：序列号按 UTC 换算为 Date）
+ * @param date 日期
+ * @param pattern 日期格式，如 "yyyy/m/d"、"m/d/yyyy h:mm AM/PM"
+ * @returns 显示文本；日期无效时返回空字符串
+ */
+export function formatDateWithPattern(date: Date, pattern: string): string {
+  if (isNaN(date.getTime())) return '';
+  const utc = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds(),
+  );
+  let serial = (utc - Date.UTC(1899, 11, 30)) / MS_PER_DAY;
+  // 1900-03-01 之前的日期按 Excel 的序列号（多算了 1900-02-29）
+  if (serial < 61) serial -= 1;
+  return formatNumberWithPattern(serial, pattern);
+}
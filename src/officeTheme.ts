@@ -0,0 +1,169 @@
+/**
+ * Office 主题（xl/theme/theme1.xml）解析
+ * 纯函数，无副作用
+ *
+ * 样式中的主题颜色（theme="4" tint="0.4"）和主题字体（+mn-lt、scheme="minor"）按工作簿的主题解析：
+ * - 颜色方案 <a:clrScheme>：dk1、lt1、dk2、lt2、accent1~6、hlink、folHlink
+ * - 字体方案 <a:fontScheme>：标题字体（majorFont）和正文字体（minorFont）
+ *
+ * 主题部件缺失或不完整时，缺少的部分使用默认 Office 主题（Office 2013+）。
+ */
+
+import { getXmlAttr } from './xlsxPackage';
+
+/**
+ * 主题字体
+ */
+export interface ThemeFont {
+  /** 西文字体 */
+  latin: string;
+  /** 东亚文字字体（未设置时为简体中文脚本字体） */
+  eastAsian?: string;
+  /** 复杂文种字体 */
+  complexScript?: string;
+}
+
+/**
+ * 工作簿主题
+ */
+export interface WorkbookTheme {
+  /**
+   * 主题颜色（6 位 hex，不含 #），按样式中的 theme 索引排列：
+   * 0 lt1、1 dk1、2 lt2、3 dk2、4~9 accent1~6、10 hlink、11 folHlink
+   */
+  colors: string[];
+  /** 标题字体（+mj-lt、scheme="major"） */
+  majorFont: ThemeFont;
+  /** 正文字体（+mn-lt、scheme="minor"） */
+  minorFont: ThemeFont;
+}
+
+/** 默认 Office 主题（Office 2013+） */
+export const DEFAULT_THEME: WorkbookTheme = {
+  colors: [
+    'FFFFFF', // lt1 - 白色
+    '000000', // dk1 - 黑色
+    'E7E6E6', // lt2 - 浅灰
+    '44546A', // dk2 - 深蓝灰
+    '4472C4', // accent1 - 蓝色
+    'ED7D31', // accent2 - 橙色
+    'A5A5A5', // accent3 - 灰色
+    'FFC000', // accent4 - 金色
+    '5B9BD5', // accent5 - 浅蓝
+    '70AD47', // accent6 - 绿色
+    '0563C1', // hlink - 超链接
+    '954F72', // folHlink - 已访问的超链接
+  ],
+  majorFont: { latin: 'Calibri Light', eastAsian: '等线 Light' },
+  minorFont: { latin: 'Calibri', eastAsian: '等线' },
+};
+
+/** 颜色方案元素 -> 主题颜色索引（样式中 lt 与 dk 的顺序和方案中相反） */
+const SCHEME_COLOR_INDEXES: Record<string, number> = {
+  lt1: 0,
+  dk1: 1,
+  lt2: 2,
+  dk2: 3,
+  accent1: 4,
+  accent2: 5,
+  accent3: 6,
+  accent4: 7,
+  accent5: 8,
+  accent6: 9,
+  hlink: 10,
+  folHlink: 11,
+};
+
+/** 系统颜色缺少 lastClr 时的取值 */
+const SYSTEM_COLORS: Record<string, string> = {
+  windowText: '000000',
+  window: 'FFFFFF',
+};
+
+/**
+ * 解析颜色方案中的单个颜色（<a:srgbClr val="..."/>、<a:sysClr val="window" lastClr="..."/>）
+ */
+function parseSchemeColor(xml: string): string | null {
+  const tag = xml.match(/<a:(?:srgbClr|sysClr)\b[^>]*>/)?.[0];
+  if (!tag) return null;
+  const hex = tag.startsWith('<a:srgbClr')
+    ? getXmlAttr(tag, 'val')
+    : (getXmlAttr(tag, 'lastClr') ?? SYSTEM_COLORS[getXmlAttr(tag, 'val') || '']);
+  return hex && /^[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : null;
+}
+
+/**
+ * 解析字体方案中的字体（<a:majorFont>、<a:minorFont>）
+ */
+function parseThemeFont(xml: string | undefined, fallback: ThemeFont): ThemeFont {
+  if (!xml) return fallback;
+  const readTypeface = (pattern: RegExp) => {
+    const tag = xml.match(pattern)?.[0];
+    return (tag && getXmlAttr(tag, 'typeface')) || undefined;
+  };
+  const font: ThemeFont = { latin: readTypeface(/<a:latin\b[^>]*>/) ?? fallback.latin };
+  // <a:ea> 通常为空，东亚字体按脚本单独列出
+  const eastAsian =
+    readTypeface(/<a:ea\b[^>]*>/) ?? readTypeface(/<a:font\b(?=[^>]*\sscript="Hans")[^>]*>/);
+  const complexScript = readTypeface(/<a:cs\b[^>]*>/);
+  if (eastAsian) font.eastAsian = eastAsian;
+  if (complexScript) font.complexScript = complexScript;
+  return font;
+}
+
+/**
+ * 解析主题部件
+ * @param themeXml theme1.xml 内容
+ * @returns 工作簿主题；内容为空时返回默认主题
+ */
+export function parseThemeXml(themeXml: string | null): WorkbookTheme {
+  if (!themeXml) return DEFAULT_THEME;
+
+  const colors = [...DEFAULT_THEME.colors];
+  const scheme = themeXml.match(/<a:clrScheme\b[^>]*>([\s\S]*?)<\/a:clrScheme>/)?.[1] || '';
+  for (const match of scheme.matchAll(/<a:(\w+)>([\s\S]*?)<\/a:\1>/g)) {
+    const index = SCHEME_COLOR_INDEXES[match[1]];
+    const color = parseSchemeColor(match[2]);
+    if (index !== undefined && color) colors[index] = color;
+  }
+
+  const fontScheme = themeXml.match(/<a:fontScheme\b[^>]*>([\s\S]*?)<\/a:fontScheme>/)?.[1] || '';
+  return {
+    colors,
+    majorFont: parseThemeFont(
+      fontScheme.match(/<a:majorFont>([\s\S]*?)<\/a:majorFont>/)?.[1],
+      DEFAULT_THEME.majorFont,
+    ),
+    minorFont: parseThemeFont(
+      fontScheme.match(/<a:minorFont>([\s\S]*?)<\/a:minorFont>/)?.[1],
+      DEFAULT_THEME.minorFont,
+    ),
+  };
+}
+
+/**
+ * 解析字体名称
+ * 主题字体引用（+mn-lt、+mj-ea 等）替换为主题中的字体；
+ * 只设置了 scheme 而没有字体名称时使用对应的主题西文字体
+ * @param theme 工作簿主题
+ * @param name 字体名称
+ * @param scheme 字体方案（major / minor）
+ * @returns 实际字体名称；无法确定时返回 undefined
+ */
+export function resolveThemeFont(
+  theme: WorkbookTheme,
+  name: string | undefined,
+  scheme?: string,
+): string | undefined {
+  const reference = name?.match(/^\+(mj|mn)-(lt|ea|cs)$/);
+  if (reference) {
+    const font = reference[1] === 'mj' ? theme.majorFont : theme.minorFont;
+    if (reference[2] === 'ea') return font.eastAsian || font.latin;
+    if (reference[2] === 'cs') return font.complexScript || font.latin;
+    return font.latin;
+  }
+  if (name) return name;
+  if (scheme === 'major') return theme.majorFont.latin;
+  if (scheme === 'minor') return theme.minorFont.latin;
+  return undefined;
+}
@@ -0,0 +1,349 @@
+/**
+ * Excel 表格结构化引用改写
+ * 纯函数，无副作用
+ *
+ * Univer 公式引擎不支持结构化引用，导入时改写为等价的 A1 引用：
+ * - Table1[Amount]、[Amount]：该列的数据区域（$C$2:$C$10）
+ * - Table1[[#All],[Amount]]、[#Headers]、[#Data]、[#Totals]：对应的行区域
+ * - [@Qty]、Table1[[#This Row],[Qty]]：公式所在行（$B5）
+ * - Table1[[Qty]:[Price]]：连续多列
+ * - Table1：整个数据区域
+ *
+ * 不带表格名的引用（[@Qty]）指向公式所在的表格；表格位于其他工作表时结果带工作表名。
+ */
+
+import { columnToLetters, quoteSheetName } from './a1Reference';
+
+/**
+ * 参与改写的表格
+ */
+export interface StructuredReferenceTable {
+  /** 表格名称（公式中使用的 displayName） */
+  name: string;
+  /** 所在工作表名称 */
+  sheetName: string;
+  /** 起始行（0-based，含标题行） */
+  startRow: number;
+  /** 起始列（0-based） */
+  startColumn: number;
+  /** 结束行（0-based，含汇总行） */
+  endRow: number;
+  /** 结束列（0-based） */
+  endColumn: number;
+  /** 标题行数（0 或 1） */
+  headerRowCount: number;
+  /** 汇总行数（0 或 1） */
+  totalsRowCount: number;
+  /** 列名（按表格列顺序） */
+  columns: string[];
+}
+
+/**
+ * 公式所在单元格
+ */
+export interface StructuredReferenceCell {
+  /** 工作表名称 */
+  sheetName: string;
+  /** 行（0-based） */
+  row: number;
+  /** 列（0-based） */
+  column: number;
+}
+
+/**
+ * 改写结果
+ */
+export interface StructuredReferenceResult {
+  /** 改写后的公式 */
+  formula: string;
+  /** 无法解析的结构化引用（未知的表格或列、引用的行不存在），公式中保留原文 */
+  unresolved: string[];
+}
+
+/** 名称中允许的字符（表格名、函数名、单元格引用） */
+const NAME_CHAR = /[\p{L}\p{N}_.\\]/u;
+
+/**
+ * 结构化引用的组成部分
+ */
+interface ReferenceParts {
+  /** 行说明符（小写，如 #all、#this row） */
+  specifiers: string[];
+  /** 列名（0 个表示所有列，2 个表示列区域） */
+  columns: string[];
+}
+
+/**
+ * 将公式中的结构化引用改写为 A1 引用
+ * @param formula 公式（可带前导 =）
+ * @param tables 工作簿中的表格
+ * @param cell 公式所在单元格；定义名称等不在单元格中的公式不传，此时不支持 [@列名]，结果均带工作表名
+ * @returns 改写后的公式及无法解析的引用
+ */
+export function rewriteStructuredReferences(
+  formula: string,
+  tables: StructuredReferenceTable[],
+  cell?: StructuredReferenceCell,
+): StructuredReferenceResult {
+  const unresolved: string[] = [];
+  if (!formula || tables.length === 0) {
+    return { formula, unresolved };
+  }
+  const lowerFormula = formula.toLowerCase();
+  if (!formula.includes('[') && !tables.some((t) => lowerFormula.includes(t.name.toLowerCase()))) {
+    return { formula, unresolved };
+  }
+
+  const tableByName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+  const currentTable = cell
+    ? tables.find(
+        (table) =>
+          table.sheetName === cell.sheetName &&
+          cell.row >= table.startRow &&
+          cell.row <= table.endRow &&
+          cell.column >= table.startColumn &&
+          cell.column <= table.endColumn,
+      )
+    : undefined;
+
+  const replace = (text: string, ref: string | null) => {
+    if (ref) return ref;
+    unresolved.push(text);
+    return text;
+  };
+
+  let result = '';
+  let i = 0;
+  while (i < formula.length) {
+    const ch = formula[i];
+
+    // 字符串常量和带引号的工作表名原样保留
+    if (ch === '"' || ch === "'") {
+      const end = findQuoteEnd(formula, i);
+      result += formula.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (NAME_CHAR.test(ch)) {
+      let end = i;
+      while (end < formula.length && NAME_CHAR.test(formula[end])) end++;
+      const word = formula.slice(i, end);
+      const table = tableByName.get(word.toLowerCase());
+      // 后跟 ( 为函数，后跟 ! 为工作表名
+      if (table && formula[end] !== '(' && formula[end] !== '!') {
+        if (formula[end] === '[') {
+          const close = findClosingBracket(formula, end);
+          if (close > 0) {
+            const text = formula.slice(i, close + 1);
+            result += replace(text, resolveReference(table, formula.slice(end + 1, close), cell));
+            i = close + 1;
+            continue;
+          }
+        } else {
+          result += replace(word, resolveReference(table, '', cell));
+          i = end;
+          continue;
+        }
+      } else if (!table && formula[end] === '[') {
+        // 名称后紧跟 [ 只能是结构化引用，表格不存在
+        const close = findClosingBracket(formula, end);
+        if (close > 0) {
+          result += replace(formula.slice(i, close + 1), null);
+          i = close + 1;
+          continue;
+        }
+      }
+      result += word;
+      i = end;
+      continue;
+    }
+
+    if (ch === '[') {
+      const close = findClosingBracket(formula, i);
+      const inner = close > 0 ? formula.slice(i + 1, close) : '';
+      // 外部工作簿引用（[1]Sheet1!A1、[Book1.xlsx]Sheet1!A1）保持不变
+      const external = /^\d+$/.test(inner) || /^[\p{L}\p{N}_.]+!/u.test(formula.slice(close + 1));
+      if (close > 0 && !external) {
+        const text = formula.slice(i, close + 1);
+        result += replace(text, currentTable ? resolveReference(currentTable, inner, cell) : null);
+        i = close + 1;
+        continue;
+      }
+    }
+
+    result += ch;
+    i++;
+  }
+
+  return { formula: result, unresolved };
+}
+
+/**
+ * 查找引号结束位置（连续两个引号表示转义）
+ * @returns 结束引号之后的位置
+ */
+function findQuoteEnd(text: string, start: number): number {
+  const quote = text[start];
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === quote) {
+      if (text[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+/**
+ * 查找与 open 处 [ 匹配的 ]（列名中的 ' 用于转义下一个字符）
+ * @returns ] 的位置，未闭合时返回 -1
+ */
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") {
+      i++;
+    } else if (ch === '[') {
+      depth++;
+    } else if (ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 拆分方括号内的内容
+ * 支持 @Col、@[Col]、#All、Col、[#Headers],[Col]、[Col1]:[Col2] 等形式
+ */
+function parseReferenceParts(inner: string): ReferenceParts | null {
+  let text = inner.trim();
+  const specifiers: string[] = [];
+  if (text.startsWith('@')) {
+    specifiers.push('#this row');
+    text = text.slice(1).trim();
+  }
+
+  const tokens: string[] = [];
+  const separators: string[] = [];
+  if (text.startsWith('[')) {
+    let i = 0;
+    while (i < text.length) {
+      if (text[i] !== '[') return null;
+      const close = findClosingBracket(text, i);
+      if (close < 0) return null;
+      tokens.push(text.slice(i + 1, close));
+      i = close + 1;
+      while (text[i] === ' ') i++;
+      if (i >= text.length) break;
+      if (text[i] !== ',' && text[i] !== ':') return null;
+      separators.push(text[i]);
+      i++;
+      while (text[i] === ' ') i++;
+    }
+  } else if (text) {
+    tokens.push(text);
+  }
+
+  const columns: string[] = [];
+  tokens.forEach((token, index) => {
+    if (token.trim().startsWith('#')) {
+      specifiers.push(token.trim().toLowerCase());
+    } else {
+      // 列区域必须以 : 连接
+      if (columns.length === 1 && separators[index - 1] !== ':') {
+        columns.push('');
+      }
+      columns.push(token.replace(/'(.)/g, '$1'));
+    }
+  });
+  if (columns.length > 2 || columns.includes('')) return null;
+
+  return { specifiers, columns };
+}
+
+/**
+ * 解析方括号内的引用为 A1 引用
+ * @returns A1 引用，无法解析时返回 null
+ */
+function resolveReference(
+  table: StructuredReferenceTable,
+  inner: string,
+  cell?: StructuredReferenceCell,
+): string | null {
+  const parts = parseReferenceParts(inner);
+  if (!parts) return null;
+
+  const dataStart = table.startRow + table.headerRowCount;
+  const dataEnd = table.endRow - table.totalsRowCount;
+  const specifiers = parts.specifiers.length > 0 ? parts.specifiers : ['#data'];
+  const thisRow = specifiers.includes('#this row');
+  if (thisRow && (specifiers.length > 1 || !cell || cell.sheetName !== table.sheetName)) {
+    return null;
+  }
+
+  let startRow = Infinity;
+  let endRow = -Infinity;
+  for (const specifier of specifiers) {
+    let rows: [number, number];
+    switch (specifier) {
+      case '#all':
+        rows = [table.startRow, table.endRow];
+        break;
+      case '#data':
+        rows = [dataStart, dataEnd];
+        break;
+      case '#headers':
+        if (table.headerRowCount === 0) return null;
+        rows = [table.startRow, table.startRow];
+        break;
+      case '#totals':
+        if (table.totalsRowCount === 0) return null;
+        rows = [table.endRow, table.endRow];
+        break;
+      case '#this row':
+        rows = [cell!.row, cell!.row];
+        break;
+      default:
+        return null;
+    }
+    startRow = Math.min(startRow, rows[0]);
+    endRow = Math.max(endRow, rows[1]);
+  }
+  if (endRow < startRow) return null;
+
+  let startColumn = table.startColumn;
+  let endColumn = table.endColumn;
+  if (parts.columns.length > 0) {
+    const indexes = parts.columns.map((name) => findColumnIndex(table, name));
+    if (indexes.some((index) => index < 0)) return null;
+    startColumn = table.startColumn + Math.min(...indexes);
+    endColumn = table.startColumn + Math.max(...indexes);
+  }
+
+  const prefix =
+    !cell || cell.sheetName !== table.sheetName ? `${quoteSheetName(table.sheetName)}!` : '';
+  // 当前行引用只固定列，便于公式按行复制；其余引用固定行列
+  const rowPrefix = thisRow ? '' : '$';
+  const start = `$${columnToLetters(startColumn)}${rowPrefix}${startRow + 1}`;
+  const end = `$${columnToLetters(endColumn)}${rowPrefix}${endRow + 1}`;
+  return `${prefix}${start === end ? start : `${start}:${end}`}`;
+}
+
+/**
+ * 按名称查找列（不区分大小写）
+ */
+function findColumnIndex(table: StructuredReferenceTable, name: string): number {
+  const lowerName = name.toLowerCase();
+  const index = table.columns.findIndex((column) => column.toLowerCase() === lowerName);
+  if (index >= 0) return index;
+  const trimmed = lowerName.trim();
+  return table.columns.findIndex((column) => column.toLowerCase().trim() === trimmed);
+}
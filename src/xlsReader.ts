@@ -0,0 +1,1794 @@
+/**
+ * Excel 97-2003 (.xls, BIFF8) 读取
+ *
+ * 将 BIFF8 工作簿流解析为 ExcelJS 工作簿对象，之后即可复用 .xlsx 的转换流程
+ * （单元格、样式、合并单元格、公式、列宽、隐藏行列、冻结窗格）。
+ *
+ * 参考：[MS-XLS] Excel Binary File Format (.xls) Structure
+ */
+
+import type ExcelJS from 'exceljs';
+import { columnToLetters, quoteSheetName } from './a1Reference';
+import { readCfb, findCfbStream } from './cfbReader';
+import { CorruptFileError, EncryptedFileError, UnsupportedFormatError } from './errors';
+
+// ========== BIFF 记录类型 ==========
+const RT_FORMULA = 0x0006;
+const RT_EOF = 0x000a;
+const RT_EXTERNSHEET = 0x0017;
+const RT_NAME = 0x0018;
+const RT_EXTERNNAME = 0x0023;
+const RT_DATEMODE = 0x0022;
+const RT_FILEPASS = 0x002f;
+const RT_FONT = 0x0031;
+const RT_CONTINUE = 0x003c;
+const RT_PANE = 0x0041;
+const RT_COLINFO = 0x007d;
+const RT_BOUNDSHEET = 0x0085;
+const RT_PALETTE = 0x0092;
+const RT_MULRK = 0x00bd;
+const RT_MULBLANK = 0x00be;
+const RT_RSTRING = 0x00d6;
+const RT_XF = 0x00e0;
+const RT_MERGEDCELLS = 0x00e5;
+const RT_SST = 0x00fc;
+const RT_LABELSST = 0x00fd;
+const RT_SUPBOOK = 0x01ae;
+const RT_BLANK = 0x0201;
+const RT_NUMBER = 0x0203;
+const RT_LABEL = 0x0204;
+const RT_BOOLERR = 0x0205;
+const RT_STRING = 0x0207;
+const RT_ROW = 0x0208;
+const RT_BOF = 0x0809;
+const RT_ARRAY = 0x0221;
+const RT_WINDOW2 = 0x023e;
+const RT_RK = 0x027e;
+const RT_FORMAT = 0x041e;
+const RT_SHRFMLA = 0x04bc;
+
+// BOUNDSHEET 的工作表类型
+const SHEET_TYPE_WORKSHEET = 0;
+
+/** 单元格错误码 */
+const ERROR_CODES: Record<number, ExcelJS.CellErrorValue['error']> = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0f: '#VALUE!',
+  0x17: '#REF!',
+  0x1d: '#NAME?',
+  0x24: '#NUM!',
+  0x2a: '#N/A',
+};
+
+/**
+ * Excel 内置数字格式（与 ExcelJS 读取 .xlsx 时使用的映射保持一致）
+ */
+export const BUILTIN_NUM_FORMATS: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  5: '"$"#,##0_);\\("$"#,##0\\)',
+  6: '"$"#,##0_);[Red]\\("$"#,##0\\)',
+  7: '"$"#,##0.00_);\\("$"#,##0.00\\)',
+  8: '"$"#,##0.00_);[Red]\\("$"#,##0.00\\)',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'mm-dd-yy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yy "h":mm',
+  27: 'yyyy"年"m"月"',
+  28: 'm"月"d"日"',
+  29: 'm"月"d"日"',
+  30: 'm-d-yy',
+  31: 'yyyy"年"m"月"d"日"',
+  32: 'h"时"mm"分"',
+  33: 'h"时"mm"分"ss"秒"',
+  34: '上午/下午 h"时"mm"分"',
+  35: '上午/下午 h"时"mm"分"ss"秒"',
+  36: 'yyyy"年"m"月"',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00 ;(#,##0.00)',
+  40: '#,##0.00 ;[Red](#,##0.00)',
+  41: '_(* #,##0_);_(* \\(#,##0\\);_(* "-"_);_(@_)',
+  42: '_("$"* #,##0_);_("$"* \\(#,##0\\);_("$"* "-"_);_(@_)',
+  43: '_(* #,##0.00_);_(* \\(#,##0.00\\);_(* "-"??_);_(@_)',
+  44: '_("$"* #,##0.00_);_("$"* \\(#,##0.00\\);_("$"* "-"??_);_(@_)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+  50: 'yyyy"年"m"月"',
+  51: 'm"月"d"日"',
+  52: 'yyyy"年"m"月"',
+  53: 'm"月"d"日"',
+  54: 'm"月"d"日"',
+  55: '上午/下午 h"时"mm"分"',
+  56: '上午/下午 h"时"mm"分"ss"秒"',
+  57: 'yyyy"年"m"月"',
+  58: 'm"月"d"日"',
+};
+
+/**
+ * BIFF8 默认调色板（索引 0-63，RGB）
+ * 0-7 为固定颜色，8-63 可被 PALETTE 记录覆盖
+ * .xlsx 的 indexed 颜色使用同一调色板（可被 styles.xml 的 <indexedColors> 覆盖）
+ */
+export const XLS_DEFAULT_PALETTE: string[] = [
+  '000000',
+  'FFFFFF',
+  'FF0000',
+  '00FF00',
+  '0000FF',
+  'FFFF00',
+  'FF00FF',
+  '00FFFF',
+  '000000',
+  'FFFFFF',
+  'FF0000',
+  '00FF00',
+  '0000FF',
+  'FFFF00',
+  'FF00FF',
+  '00FFFF',
+  '800000',
+  '008000',
+  '000080',
+  '808000',
+  '800080',
+  '008080',
+  'C0C0C0',
+  '808080',
+  '9999FF',
+  '993366',
+  'FFFFCC',
+  'CCFFFF',
+  '660066',
+  'FF8080',
+  '0066CC',
+  'CCCCFF',
+  '000080',
+  'FF00FF',
+  'FFFF00',
+  '00FFFF',
+  '800080',
+  '800000',
+  '008080',
+  '0000FF',
+  '00CCFF',
+  'CCFFFF',
+  'CCFFCC',
+  'FFFF99',
+  '99CCFF',
+  'FF99CC',
+  'CC99FF',
+  'FFCC99',
+  '3366FF',
+  '33CCCC',
+  '99CC00',
+  'FFCC00',
+  'FF9900',
+  'FF6600',
+  '666699',
+  '969696',
+  '003366',
+  '339966',
+  '003300',
+  '333300',
+  '993300',
+  '993366',
+  '333399',
+  '333333',
+];
+
+const HORIZONTAL_ALIGNMENTS: Array<ExcelJS.Alignment['horizontal'] | undefined> = [
+  undefined, // general
+  'left',
+  'center',
+  'right',
+  'fill',
+  'justify',
+  'centerContinuous',
+  'distributed',
+];
+
+const VERTICAL_ALIGNMENTS: Array<ExcelJS.Alignment['vertical'] | undefined> = [
+  'top',
+  'middle',
+  undefined, // bottom（默认值，与 .xlsx 一致不显式设置）
+  'justify',
+  'distributed',
+];
+
+const BORDER_STYLES: Array<ExcelJS.BorderStyle | undefined> = [
+  undefined,
+  'thin',
+  'medium',
+  'dashed',
+  'dotted',
+  'thick',
+  'double',
+  'hair',
+  'mediumDashed',
+  'dashDot',
+  'mediumDashDot',
+  'dashDotDot',
+  'mediumDashDotDot',
+  'slantDashDot',
+];
+
+const FILL_PATTERNS: ExcelJS.FillPatterns[] = [
+  'none',
+  'solid',
+  'mediumGray',
+  'darkGray',
+  'lightGray',
+  'darkHorizontal',
+  'darkVertical',
+  'darkDown',
+  'darkUp',
+  'darkGrid',
+  'darkTrellis',
+  'lightHorizontal',
+  'lightVertical',
+  'lightDown',
+  'lightUp',
+  'lightGrid',
+  'lightTrellis',
+  'gray125',
+  'gray0625',
+];
+
+/** 内置名称（NAME 记录 fBuiltin 时名称为单个字符编码） */
+const BUILTIN_NAMES: Record<number, string> = {
+  0x00: 'Consolidate_Area',
+  0x01: 'Auto_Open',
+  0x02: 'Auto_Close',
+  0x03: 'Extract',
+  0x04: 'Database',
+  0x05: 'Criteria',
+  0x06: 'Print_Area',
+  0x07: 'Print_Titles',
+  0x08: 'Recorder',
+  0x09: 'Data_Form',
+  0x0a: 'Auto_Activate',
+  0x0b: 'Auto_Deactivate',
+  0x0c: 'Sheet_Title',
+  0x0d: '_FilterDatabase',
+};
+
+/**
+ * 内置函数表：iftab -> [函数名, 固定参数个数]
+ * 参数个数为 -1 表示变参函数（仅通过 PtgFuncVar 引用）
+ */
+const FUNCTIONS: Record<number, [string, number]> = {
+  0: ['COUNT', -1],
+  1: ['IF', -1],
+  2: ['ISNA', 1],
+  3: ['ISERROR', 1],
+  4: ['SUM', -1],
+  5: ['AVERAGE', -1],
+  6: ['MIN', -1],
+  7: ['MAX', -1],
+  8: ['ROW', -1],
+  9: ['COLUMN', -1],
+  10: ['NA', 0],
+  11: ['NPV', -1],
+  12: ['STDEV', -1],
+  13: ['DOLLAR', -1],
+  14: ['FIXED', -1],
+  15: ['SIN', 1],
+  16: ['COS', 1],
+  17: ['TAN', 1],
+  18: ['ATAN', 1],
+  19: ['PI', 0],
+  20: ['SQRT', 1],
+  21: ['EXP', 1],
+  22: ['LN', 1],
+  23: ['LOG10', 1],
+  24: ['ABS', 1],
+  25: ['INT', 1],
+  26: ['SIGN', 1],
+  27: ['ROUND', 2],
+  28: ['LOOKUP', -1],
+  29: ['INDEX', -1],
+  30: ['REPT', 2],
+  31: ['MID', 3],
+  32: ['LEN', 1],
+  33: ['VALUE', 1],
+  34: ['TRUE', 0],
+  35: ['FALSE', 0],
+  36: ['AND', -1],
+  37: ['OR', -1],
+  38: ['NOT', 1],
+  39: ['MOD', 2],
+  40: ['DCOUNT', 3],
+  41: ['DSUM', 3],
+  42: ['DAVERAGE', 3],
+  43: ['DMIN', 3],
+  44: ['DMAX', 3],
+  45: ['DSTDEV', 3],
+  46: ['VAR', -1],
+  47: ['DVAR', 3],
+  48: ['TEXT', 2],
+  49: ['LINEST', -1],
+  50: ['TREND', -1],
+  51: ['LOGEST', -1],
+  52: ['GROWTH', -1],
+  56: ['PV', -1],
+  57: ['FV', -1],
+  58: ['NPER', -1],
+  59: ['PMT', -1],
+  60: ['RATE', -1],
+  61: ['MIRR', 3],
+  62: ['IRR', -1],
+  63: ['RAND', 0],
+  64: ['MATCH', -1],
+  65: ['DATE', 3],
+  66: ['TIME', 3],
+  67: ['DAY', 1],
+  68: ['MONTH', 1],
+  69: ['YEAR', 1],
+  70: ['WEEKDAY', -1],
+  71: ['HOUR', 1],
+  72: ['MINUTE', 1],
+  73: ['SECOND', 1],
+  74: ['NOW', 0],
+  75: ['AREAS', 1],
+  76: ['ROWS', 1],
+  77: ['COLUMNS', 1],
+  78: ['OFFSET', -1],
+  82: ['SEARCH', -1],
+  83: ['TRANSPOSE', 1],
+  86: ['TYPE', 1],
+  97: ['ATAN2', 2],
+  98: ['ASIN', 1],
+  99: ['ACOS', 1],
+  100: ['CHOOSE', -1],
+  101: ['HLOOKUP', -1],
+  102: ['VLOOKUP', -1],
+  105: ['ISREF', 1],
+  109: ['LOG', -1],
+  111: ['CHAR', 1],
+  112: ['LOWER', 1],
+  113: ['UPPER', 1],
+  114: ['PROPER', 1],
+  115: ['LEFT', -1],
+  116: ['RIGHT', -1],
+  117: ['EXACT', 2],
+  118: ['TRIM', 1],
+  119: ['REPLACE', 4],
+  120: ['SUBSTITUTE', -1],
+  121: ['CODE', 1],
+  124: ['FIND', -1],
+  125: ['CELL', -1],
+  126: ['ISERR', 1],
+  127: ['ISTEXT', 1],
+  128: ['ISNUMBER', 1],
+  129: ['ISBLANK', 1],
+  130: ['T', 1],
+  131: ['N', 1],
+  140: ['DATEVALUE', 1],
+  141: ['TIMEVALUE', 1],
+  142: ['SLN', 3],
+  143: ['SYD', 4],
+  144: ['DDB', -1],
+  148: ['INDIRECT', -1],
+  162: ['CLEAN', 1],
+  163: ['MDETERM', 1],
+  164: ['MINVERSE', 1],
+  165: ['MMULT', 2],
+  167: ['IPMT', -1],
+  168: ['PPMT', -1],
+  169: ['COUNTA', -1],
+  183: ['PRODUCT', -1],
+  184: ['FACT', 1],
+  189: ['DPRODUCT', 3],
+  190: ['ISNONTEXT', 1],
+  193: ['STDEVP', -1],
+  194: ['VARP', -1],
+  195: ['DSTDEVP', 3],
+  196: ['DVARP', 3],
+  197: ['TRUNC', -1],
+  198: ['ISLOGICAL', 1],
+  199: ['DCOUNTA', 3],
+  204: ['USDOLLAR', -1],
+  205: ['FINDB', -1],
+  206: ['SEARCHB', -1],
+  207: ['REPLACEB', 4],
+  208: ['LEFTB', -1],
+  209: ['RIGHTB', -1],
+  210: ['MIDB', 3],
+  211: ['LENB', 1],
+  212: ['ROUNDUP', 2],
+  213: ['ROUNDDOWN', 2],
+  214: ['ASC', 1],
+  215: ['DBCS', 1],
+  216: ['RANK', -1],
+  219: ['ADDRESS', -1],
+  220: ['DAYS360', -1],
+  221: ['TODAY', 0],
+  222: ['VDB', -1],
+  227: ['MEDIAN', -1],
+  228: ['SUMPRODUCT', -1],
+  229: ['SINH', 1],
+  230: ['COSH', 1],
+  231: ['TANH', 1],
+  232: ['ASINH', 1],
+  233: ['ACOSH', 1],
+  234: ['ATANH', 1],
+  235: ['DGET', 3],
+  244: ['INFO', 1],
+  247: ['DB', -1],
+  252: ['FREQUENCY', 2],
+  261: ['ERROR.TYPE', 1],
+  269: ['AVEDEV', -1],
+  270: ['BETADIST', -1],
+  271: ['GAMMALN', 1],
+  272: ['BETAINV', -1],
+  273: ['BINOMDIST', 4],
+  274: ['CHIDIST', 2],
+  275: ['CHIINV', 2],
+  276: ['COMBIN', 2],
+  277: ['CONFIDENCE', 3],
+  278: ['CRITBINOM', 3],
+  279: ['EVEN', 1],
+  280: ['EXPONDIST', 3],
+  281: ['FDIST', 3],
+  282: ['FINV', 3],
+  283: ['FISHER', 1],
+  284: ['FISHERINV', 1],
+  285: ['FLOOR', 2],
+  286: ['GAMMADIST', 4],
+  287: ['GAMMAINV', 3],
+  288: ['CEILING', 2],
+  289: ['HYPGEOMDIST', 4],
+  290: ['LOGNORMDIST', 3],
+  291: ['LOGINV', 3],
+  292: ['NEGBINOMDIST', 3],
+  293: ['NORMDIST', 4],
+  294: ['NORMSDIST', 1],
+  295: ['NORMINV', 3],
+  296: ['NORMSINV', 1],
+  297: ['STANDARDIZE', 3],
+  298: ['ODD', 1],
+  299: ['PERMUT', 2],
+  300: ['POISSON', 3],
+  301: ['TDIST', 3],
+  302: ['WEIBULL', 4],
+  303: ['SUMXMY2', 2],
+  304: ['SUMX2MY2', 2],
+  305: ['SUMX2PY2', 2],
+  306: ['CHITEST', 2],
+  307: ['CORREL', 2],
+  308: ['COVAR', 2],
+  309: ['FORECAST', 3],
+  310: ['FTEST', 2],
+  311: ['INTERCEPT', 2],
+  312: ['PEARSON', 2],
+  313: ['RSQ', 2],
+  314: ['STEYX', 2],
+  315: ['SLOPE', 2],
+  316: ['TTEST', 4],
+  317: ['PROB', -1],
+  318: ['DEVSQ', -1],
+  319: ['GEOMEAN', -1],
+  320: ['HARMEAN', -1],
+  321: ['SUMSQ', -1],
+  322: ['KURT', -1],
+  323: ['SKEW', -1],
+  324: ['ZTEST', -1],
+  325: ['LARGE', 2],
+  326: ['SMALL', 2],
+  327: ['QUARTILE', 2],
+  328: ['PERCENTILE', 2],
+  329: ['PERCENTRANK', -1],
+  330: ['MODE', -1],
+  331: ['TRIMMEAN', 2],
+  332: ['TINV', 2],
+  336: ['CONCATENATE', -1],
+  337: ['POWER', 2],
+  342: ['RADIANS', 1],
+  343: ['DEGREES', 1],
+  344: ['SUBTOTAL', -1],
+  345: ['SUMIF', -1],
+  346: ['COUNTIF', 2],
+  347: ['COUNTBLANK', 1],
+  350: ['ISPMT', 4],
+  351: ['DATEDIF', 3],
+  352: ['DATESTRING', 1],
+  353: ['NUMBERSTRING', 2],
+  354: ['ROMAN', -1],
+  358: ['GETPIVOTDATA', -1],
+  359: ['HYPERLINK', -1],
+  360: ['PHONETIC', 1],
+  361: ['AVERAGEA', -1],
+  362: ['MAXA', -1],
+  363: ['MINA', -1],
+  364: ['STDEVPA', -1],
+  365: ['VARPA', -1],
+  366: ['STDEVA', -1],
+  367: ['VARA', -1],
+};
+
+// ========== 内部类型 ==========
+
+interface XlsBoundSheet {
+  name: string;
+  offset: number;
+  state: ExcelJS.WorksheetState;
+  type: number;
+}
+
+interface XlsFont {
+  name: string;
+  height: number;
+  italic: boolean;
+  strike: boolean;
+  color: number;
+  weight: number;
+  script: number;
+  underline: number;
+}
+
+interface XlsXf {
+  font: number;
+  format: number;
+  hAlign: number;
+  vAlign: number;
+  wrap: boolean;
+  rotation: number;
+  indent: number;
+  shrink: boolean;
+  borderLeft: number;
+  borderRight: number;
+  borderTop: number;
+  borderBottom: number;
+  colorLeft: number;
+  colorRight: number;
+  colorTop: number;
+  colorBottom: number;
+  pattern: number;
+  foreColor: number;
+  backColor: number;
+}
+
+interface XlsSupBook {
+  /** internal：当前工作簿；addin：加载项函数；external：外部工作簿 */
+  kind: 'internal' | 'addin' | 'external';
+  path: string;
+  sheetNames: string[];
+  externNames: string[];
+}
+
+interface XlsGlobals {
+  sheets: XlsBoundSheet[];
+  sst: string[];
+  fonts: XlsFont[];
+  formats: Map<number, string>;
+  xfs: XlsXf[];
+  palette: string[];
+  date1904: boolean;
+  names: string[];
+  externSheets: Array<{ supBook: number; first: number; last: number }>;
+  supBooks: XlsSupBook[];
+}
+
+interface BiffRecord {
+  type: number;
+  data: Uint8Array;
+  next: number;
+}
+
+/** 待解析的公式单元格（共享/数组公式需在整张表读完后解析） */
+interface PendingFormula {
+  row: number;
+  col: number;
+  rgce: Uint8Array;
+  extra: Uint8Array;
+  result: ExcelJS.CellFormulaValue['result'];
+}
+
+interface SharedFormula {
+  firstRow: number;
+  lastRow: number;
+  firstCol: number;
+  lastCol: number;
+  rgce: Uint8Array;
+  extra: Uint8Array;
+}
+
+// ========== 二进制读取 ==========
+
+function u16(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+function i16(data: Uint8Array, offset: number): number {
+  const value = u16(data, offset);
+  return value >= 0x8000 ? value - 0x10000 : value;
+}
+
+function u32(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16)) +
+    data[offset + 3] * 0x1000000
+  );
+}
+
+function f64(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset + offset, 8).getFloat64(0, true);
+}
+
+function readRecord(data: Uint8Array, offset: number): BiffRecord | null {
+  if (offset + 4 > data.length) return null;
+  const type = u16(data, offset);
+  const size = u16(data, offset + 2);
+  const start = offset + 4;
+  return {
+    type,
+    data: data.subarray(start, Math.min(start + size, data.length)),
+    next: start + size,
+  };
+}
+
+/**
+ * 读取字符（压缩为单字节或 UTF-16LE）
+ */
+function readChars(data: Uint8Array, offset: number, count: number, highByte: boolean): string {
+  let text = '';
+  if (highByte) {
+    for (let i = 0; i < count; i++) {
+      text += String.fromCharCode(u16(data, offset + i * 2));
+    }
+  } else {
+    for (let i = 0; i < count; i++) {
+      text += String.fromCharCode(data[offset + i]);
+    }
+  }
+  return text;
+}
+
+/**
+ * 读取 XLUnicodeString / ShortXLUnicodeString
+ * @param lengthSize 字符数字段的字节数（1 或 2）
+ */
+function readUnicodeString(
+  data: Uint8Array,
+  offset: number,
+  lengthSize: 1 | 2,
+): { text: string; size: number } {
+  const count = lengthSize === 1 ? data[offset] : u16(data, offset);
+  const flags = data[offset + lengthSize];
+  const highByte = (flags & 0x01) !== 0;
+  let pos = offset + lengthSize + 1;
+  let runs = 0;
+  let extSize = 0;
+  if (flags & 0x08) {
+    runs = u16(data, pos);
+    pos += 2;
+  }
+  if (flags & 0x04) {
+    extSize = u32(data, pos);
+    pos += 4;
+  }
+  const text = readChars(data, pos, count, highByte);
+  pos += count * (highByte ? 2 : 1) + runs * 4 + extSize;
+  return { text, size: pos - offset };
+}
+
+/**
+ * 跨 CONTINUE 记录的读取器
+ * 字符串被 CONTINUE 拆分时，新记录以一个字节的编码标志开头
+ */
+function createSegmentReader(segments: Uint8Array[]) {
+  let index = 0;
+  let pos = 0;
+
+  const advance = () => {
+    while (index < segments.length && pos >= segments[index].length) {
+      index++;
+      pos = 0;
+    }
+  };
+
+  const u8 = (): number => {
+    advance();
+    if (index >= segments.length) {
+      throw new CorruptFileError('BIFF 记录数据不完整');
+    }
+    return segments[index][pos++];
+  };
+
+  const u16r = (): number => u8() | (u8() << 8);
+  const u32r = (): number => u16r() + u16r() * 0x10000;
+
+  const skip = (count: number) => {
+    for (let i = 0; i < count; i++) u8();
+  };
+
+  /** 读取 XLUnicodeRichExtendedString（SST / STRING 记录） */
+  const string = (): string => {
+    const count = u16r();
+    const flags = u8();
+    let highByte = (flags & 0x01) !== 0;
+    const runs = flags & 0x08 ? u16r() : 0;
+    const extSize = flags & 0x04 ? u32r() : 0;
+    const codes: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (index < segments.length && pos >= segments[index].length) {
+        index++;
+        pos = 0;
+        highByte = (u8() & 0x01) !== 0;
+      }
+      codes.push(highByte ? u16r() : u8());
+    }
+    skip(runs * 4 + extSize);
+    let text = '';
+    for (let i = 0; i < codes.length; i += 4096) {
+      text += String.fromCharCode(...codes.slice(i, i + 4096));
+    }
+    return text;
+  };
+
+  return { u8, u16: u16r, u32: u32r, skip, string };
+}
+
+/**
+ * 读取紧随某条记录之后的 CONTINUE 记录
+ */
+function collectContinues(
+  stream: Uint8Array,
+  first: BiffRecord,
+): { segments: Uint8Array[]; next: number } {
+  const segments = [first.data];
+  let next = first.next;
+  let record = readRecord(stream, next);
+  while (record && record.type === RT_CONTINUE) {
+    segments.push(record.data);
+    next = record.next;
+    record = readRecord(stream, next);
+  }
+  return { segments, next };
+}
+
+// ========== 全局子流解析 ==========
+
+function parseGlobals(stream: Uint8Array): XlsGlobals {
+  const globals: XlsGlobals = {
+    sheets: [],
+    sst: [],
+    fonts: [],
+    formats: new Map(),
+    xfs: [],
+    palette: [...XLS_DEFAULT_PALETTE],
+    date1904: false,
+    names: [],
+    externSheets: [],
+    supBooks: [],
+  };
+
+  const bof = readRecord(stream, 0);
+  if (!bof || bof.type !== RT_BOF) {
+    throw new CorruptFileError('无效的 BIFF 工作簿流');
+  }
+  if (u16(bof.data, 0) !== 0x0600) {
+    throw new UnsupportedFormatError('仅支持 Excel 97-2003 (BIFF8) 格式的 .xls 文件', {
+      format: 'xls',
+    });
+  }
+
+  let offset = bof.next;
+  while (offset < stream.length) {
+    const record = readRecord(stream, offset);
+    if (!record) break;
+    const { type, data } = record;
+    offset = record.next;
+
+    switch (type) {
+      case RT_EOF:
+        offset = stream.length;
+        break;
+      case RT_FILEPASS:
+        throw new EncryptedFileError();
+      case RT_DATEMODE:
+        globals.date1904 = u16(data, 0) === 1;
+        break;
+      case RT_BOUNDSHEET: {
+        const visibility = data[4] & 0x03;
+        globals.sheets.push({
+          offset: u32(data, 0),
+          state: visibility === 1 ? 'hidden' : visibility === 2 ? 'veryHidden' : 'visible',
+          type: data[5],
+          name: readUnicodeString(data, 6, 1).text,
+        });
+        break;
+      }
+      case RT_FONT: {
+        const grbit = u16(data, 2);
+        globals.fonts.push({
+          height: u16(data, 0),
+          italic: (grbit & 0x02) !== 0,
+          strike: (grbit & 0x08) !== 0,
+          color: u16(data, 4),
+          weight: u16(data, 6),
+          script: u16(data, 8),
+          underline: data[10],
+          name: readUnicodeString(data, 14, 1).text,
+        });
+        break;
+      }
+      case RT_FORMAT:
+        globals.formats.set(u16(data, 0), readUnicodeString(data, 2, 2).text);
+        break;
+      case RT_XF:
+        globals.xfs.push(parseXf(data));
+        break;
+      case RT_PALETTE: {
+        const count = u16(data, 0);
+        for (let i = 0; i < count && i < 56; i++) {
+          const base = 2 + i * 4;
+          globals.palette[8 + i] = toHex(data[base], data[base + 1], data[base + 2]);
+        }
+        break;
+      }
+      case RT_SST: {
+        const { segments, next } = collectContinues(stream, record);
+        offset = next;
+        globals.sst = parseSst(segments);
+        break;
+      }
+      case RT_SUPBOOK:
+        globals.supBooks.push(parseSupBook(data));
+        break;
+      case RT_EXTERNNAME: {
+        const supBook = globals.supBooks[globals.supBooks.length - 1];
+        if (supBook) {
+          supBook.externNames.push(readUnicodeString(data, 6, 1).text);
+        }
+        break;
+      }
+      case RT_EXTERNSHEET: {
+        const { segments, next } = collectContinues(stream, record);
+        offset = next;
+        const reader = createSegmentReader(segments);
+        const count = reader.u16();
+        for (let i = 0; i < count; i++) {
+          globals.externSheets.push({
+            supBook: reader.u16(),
+            first: reader.u16(),
+            last: reader.u16(),
+          });
+        }
+        break;
+      }
+      case RT_NAME: {
+        // 只读取名称，供公式中的名称引用（PtgName）使用；定义名称本身的公式不导入
+        const flags = u16(data, 0);
+        const nameLength = data[3];
+        const highByte = (data[14] & 0x01) !== 0;
+        const builtin = (flags & 0x20) !== 0;
+        const name = readChars(data, 15, nameLength, highByte);
+        globals.names.push(builtin ? BUILTIN_NAMES[name.charCodeAt(0)] || name : name);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return globals;
+}
+
+function parseXf(data: Uint8Array): XlsXf {
+  const align = data[6];
+  const border1 = u32(data, 10);
+  const border2 = u32(data, 14);
+  const colors = u16(data, 18);
+  return {
+    font: u16(data, 0),
+    format: u16(data, 2),
+    hAlign: align & 0x07,
+    wrap: (align & 0x08) !== 0,
+    vAlign: (align >>> 4) & 0x07,
+    rotation: data[7],
+    indent: data[8] & 0x0f,
+    shrink: (data[8] & 0x10) !== 0,
+    borderLeft: border1 & 0x0f,
+    borderRight: (border1 >>> 4) & 0x0f,
+    borderTop: (border1 >>> 8) & 0x0f,
+    borderBottom: (border1 >>> 12) & 0x0f,
+    colorLeft: (border1 >>> 16) & 0x7f,
+    colorRight: (border1 >>> 23) & 0x7f,
+    colorTop: border2 & 0x7f,
+    colorBottom: (border2 >>> 7) & 0x7f,
+    pattern: (border2 >>> 26) & 0x3f,
+    foreColor: colors & 0x7f,
+    backColor: (colors >>> 7) & 0x7f,
+  };
+}
+
+function parseSst(segments: Uint8Array[]): string[] {
+  const reader = createSegmentReader(segments);
+  reader.u32(); // cstTotal
+  const uniqueCount = reader.u32();
+  const strings: string[] = [];
+  for (let i = 0; i < uniqueCount; i++) {
+    try {
+      strings.push(reader.string());
+    } catch {
+      // 数据截断时保留已读取的字符串
+      break;
+    }
+  }
+  return strings;
+}
+
+function parseSupBook(data: Uint8Array): XlsSupBook {
+  const sheetCount = u16(data, 0);
+  const marker = u16(data, 2);
+  if (marker === 0x0401) {
+    return { kind: 'internal', path: '', sheetNames: [], externNames: [] };
+  }
+  if (marker === 0x3a01) {
+    return { kind: 'addin', path: '', sheetNames: [], externNames: [] };
+  }
+  // 外部工作簿：文件路径 + 工作表名称列表
+  const path = readUnicodeString(data, 2, 2);
+  const sheetNames: string[] = [];
+  let pos = 2 + path.size;
+  for (let i = 0; i < sheetCount && pos < data.length; i++) {
+    const sheetName = readUnicodeString(data, pos, 2);
+    sheetNames.push(sheetName.text);
+    pos += sheetName.size;
+  }
+  // 路径以控制字符编码，保留文件名部分即可
+  const fileName =
+    path.text
+      .replace(/[\x00-\x1f]/g, '/')
+      .split('/')
+      .pop() || path.text;
+  return { kind: 'external', path: fileName, sheetNames, externNames: [] };
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return [r, g, b]
+    .map((x) => x.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+// ========== 样式转换 ==========
+
+/**
+ * 将调色板索引解析为 ExcelJS 颜色
+ */
+function resolveColor(globals: XlsGlobals, index: number): Partial<ExcelJS.Color> | undefined {
+  if (index < 64) {
+    return { argb: `FF${globals.palette[index]}` };
+  }
+  if (index === 64) {
+    // 系统前景色（窗口文本）
+    return { argb: 'FF000000' };
+  }
+  if (index === 65) {
+    // 系统背景色（窗口背景）
+    return { argb: 'FFFFFFFF' };
+  }
+  // 0x7FFF 等：自动颜色
+  return undefined;
+}
+
+function convertFont(globals: XlsGlobals, fontIndex: number): Partial<ExcelJS.Font> | undefined {
+  // 字体索引 4 不存在，之后的索引需要减一
+  const font = globals.fonts[fontIndex >= 4 ? fontIndex - 1 : fontIndex];
+  if (!font) return undefined;
+
+  const result: Partial<ExcelJS.Font> = {
+    name: font.name,
+    size: font.height / 20,
+  };
+  if (font.weight >= 700) result.bold = true;
+  if (font.italic) result.italic = true;
+  if (font.strike) result.strike = true;
+  if (font.underline === 0x01) result.underline = true;
+  else if (font.underline === 0x02) result.underline = 'double';
+  else if (font.underline === 0x21) result.underline = 'singleAccounting';
+  else if (font.underline === 0x22) result.underline = 'doubleAccounting';
+  if (font.script === 1) result.vertAlign = 'superscript';
+  else if (font.script === 2) result.vertAlign = 'subscript';
+  const color = resolveColor(globals, font.color);
+  if (color) result.color = color;
+  return result;
+}
+
+function convertXfStyle(globals: XlsGlobals, xf: XlsXf): Partial<ExcelJS.Style> {
+  const style: Partial<ExcelJS.Style> = {};
+
+  const font = convertFont(globals, xf.font);
+  if (font) style.font = font;
+
+  const numFmt = globals.formats.get(xf.format) ?? BUILTIN_NUM_FORMATS[xf.format];
+  if (numFmt && numFmt !== 'General') style.numFmt = numFmt;
+
+  const alignment: Partial<ExcelJS.Alignment> = {};
+  const horizontal = HORIZONTAL_ALIGNMENTS[xf.hAlign];
+  const vertical = VERTICAL_ALIGNMENTS[xf.vAlign];
+  if (horizontal) alignment.horizontal = horizontal;
+  if (vertical) alignment.vertical = vertical;
+  if (xf.wrap) alignment.wrapText = true;
+  if (xf.shrink) alignment.shrinkToFit = true;
+  if (xf.indent) alignment.indent = xf.indent;
+  if (xf.rotation === 255) {
+    alignment.textRotation = 'vertical';
+  } else if (xf.rotation > 0) {
+    // 91-180 表示顺时针旋转（负角度）
+    alignment.textRotation = xf.rotation > 90 ? 90 - xf.rotation : xf.rotation;
+  }
+  if (Object.keys(alignment).length > 0) style.alignment = alignment;
+
+  const border: Partial<ExcelJS.Borders> = {};
+  const sides: Array<
+    [keyof Pick<ExcelJS.Borders, 'top' | 'left' | 'bottom' | 'right'>, number, number]
+  > = [
+    ['top', xf.borderTop, xf.colorTop],
+    ['left', xf.borderLeft, xf.colorLeft],
+    ['bottom', xf.borderBottom, xf.colorBottom],
+    ['right', xf.borderRight, xf.colorRight],
+  ];
+  for (const [side, lineStyle, colorIndex] of sides) {
+    const borderStyle = BORDER_STYLES[lineStyle];
+    if (!borderStyle) continue;
+    border[side] = { style: borderStyle, color: resolveColor(globals, colorIndex) };
+  }
+  if (Object.keys(border).length > 0) style.border = border;
+
+  if (xf.pattern > 0 && FILL_PATTERNS[xf.pattern]) {
+    const fill: ExcelJS.FillPattern = { type: 'pattern', pattern: FILL_PATTERNS[xf.pattern] };
+    const foreColor = resolveColor(globals, xf.foreColor);
+    const backColor = resolveColor(globals, xf.backColor);
+    if (foreColor) fill.fgColor = foreColor;
+    if (backColor) fill.bgColor = backColor;
+    style.fill = fill;
+  }
+
+  return style;
+}
+
+/**
+ * 判断数字格式是否为日期格式（与 ExcelJS 读取 .xlsx 时的判断一致）
+ */
+function isDateNumFmt(numFmt: string | undefined): boolean {
+  if (!numFmt) return false;
+  const stripped = numFmt.replace(/\[[^\]]*]/g, '').replace(/"[^"]*"/g, '');
+  return /[ymdhMsb]+/.test(stripped);
+}
+
+/**
+ * Excel 序列号转 Date（与 ExcelJS 的 excelToDate 一致）
+ */
+function excelToDate(serial: number, date1904: boolean): Date {
+  return new Date(Math.round((serial - 25569 + (date1904 ? 1462 : 0)) * 24 * 3600 * 1000));
+}
+
+// ========== 公式反编译 ==========
+
+interface FormulaContext {
+  globals: XlsGlobals;
+  /** 当前单元格（用于相对引用） */
+  row: number;
+  col: number;
+  /** 是否为共享公式（Ref3d/Area3d 使用相对偏移） */
+  shared: boolean;
+}
+
+/**
+ * 解析引用中的行列（BIFF8：列字段高两位为相对标志）
+ */
+function decodeRef(
+  rowField: number,
+  colField: number,
+  ctx: FormulaContext,
+  relative: boolean,
+): { row: number; col: number; rowRel: boolean; colRel: boolean } {
+  const rowRel = (colField & 0x4000) !== 0;
+  const colRel = (colField & 0x8000) !== 0;
+  let row = rowField;
+  let col = colField & 0x3fff;
+  if (relative) {
+    if (rowRel) {
+      const offset = row >= 0x8000 ? row - 0x10000 : row;
+      row = (ctx.row + offset + 0x10000) & 0xffff;
+    }
+    if (colRel) {
+      const raw = col & 0xff;
+      const offset = raw >= 0x80 ? raw - 0x100 : raw;
+      col = (ctx.col + offset + 0x100) & 0xff;
+    }
+  }
+  return { row, col, rowRel, colRel };
+}
+
+function formatCell(ref: { row: number; col: number; rowRel: boolean; colRel: boolean }): string {
+  return `${ref.colRel ? '' : '$'}${columnToLetters(ref.col)}${ref.rowRel ? '' : '$'}${ref.row + 1}`;
+}
+
+function formatArea(
+  first: { row: number; col: number; rowRel: boolean; colRel: boolean },
+  last: { row: number; col: number; rowRel: boolean; colRel: boolean },
+): string {
+  // 整列：A:A
+  if (first.row === 0 && last.row === 0xffff) {
+    return `${first.colRel ? '' : '$'}${columnToLetters(first.col)}:${last.colRel ? '' : '$'}${columnToLetters(last.col)}`;
+  }
+  // 整行：1:1
+  if (first.col === 0 && last.col === 0xff) {
+    return `${first.rowRel ? '' : '$'}${first.row + 1}:${last.rowRel ? '' : '$'}${last.row + 1}`;
+  }
+  return `${formatCell(first)}:${formatCell(last)}`;
+}
+
+/**
+ * 通过 EXTERNSHEET 索引获取工作表前缀（含 "!"）
+ */
+function sheetPrefix(ctx: FormulaContext, ixti: number): string {
+  const xti = ctx.globals.externSheets[ixti];
+  if (!xti) return '#REF!';
+  const supBook = ctx.globals.supBooks[xti.supBook];
+  if (xti.first === 0xffff || xti.first === 0xfffe) return '#REF!';
+
+  if (!supBook || supBook.kind === 'internal') {
+    const first = ctx.globals.sheets[xti.first]?.name;
+    const last = ctx.globals.sheets[xti.last]?.name;
+    if (first === undefined) return '#REF!';
+    const name = last !== undefined && last !== first ? `${first}:${last}` : first;
+    return `${quoteSheetName(name)}!`;
+  }
+
+  const first = supBook.sheetNames[xti.first] ?? '';
+  return `${quoteSheetName(`[${supBook.path}]${first}`)}!`;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value) && Math.abs(value) < 1e15) return String(value);
+  return String(value).replace('e+', 'E+').replace('e-', 'E-');
+}
+
+function formatString(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * 将 BIFF8 解析后公式（RPN 形式的 Ptg 序列）反编译为 A1 公式文本
+ * 无法识别的 Ptg 会抛出异常，调用方应回退为只保留计算结果
+ */
+function decompileFormula(rgce: Uint8Array, extra: Uint8Array, ctx: FormulaContext): string {
+  const stack: string[] = [];
+  let pos = 0;
+  let extraPos = 0;
+
+  const pop = (): string => {
+    const value = stack.pop();
+    if (value === undefined) throw new Error('公式栈为空');
+    return value;
+  };
+  const popArgs = (count: number): string[] => {
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) args.unshift(pop());
+    return args;
+  };
+  const binary = (operator: string) => {
+    const right = pop();
+    const left = pop();
+    stack.push(`${left}${operator}${right}`);
+  };
+
+  while (pos < rgce.length) {
+    const ptg = rgce[pos++];
+    const base = ptg >= 0x20 ? (ptg & 0x1f) | 0x20 : ptg;
+
+    switch (base) {
+      case 0x01: // PtgExp（由调用方处理共享/数组公式）
+      case 0x02: // PtgTbl（模拟运算表）
+        throw new Error('不支持的公式引用');
+      case 0x03:
+        binary('+');
+        break;
+      case 0x04:
+        binary('-');
+        break;
+      case 0x05:
+        binary('*');
+        break;
+      case 0x06:
+        binary('/');
+        break;
+      case 0x07:
+        binary('^');
+        break;
+      case 0x08:
+        binary('&');
+        break;
+      case 0x09:
+        binary('<');
+        break;
+      case 0x0a:
+        binary('<=');
+        break;
+      case 0x0b:
+        binary('=');
+        break;
+      case 0x0c:
+        binary('>=');
+        break;
+      case 0x0d:
+        binary('>');
+        break;
+      case 0x0e:
+        binary('<>');
+        break;
+      case 0x0f:
+        binary(' ');
+        break;
+      case 0x10:
+        binary(',');
+        break;
+      case 0x11:
+        binary(':');
+        break;
+      case 0x12:
+        stack.push(`+${pop()}`);
+        break;
+      case 0x13:
+        stack.push(`-${pop()}`);
+        break;
+      case 0x14:
+        stack.push(`${pop()}%`);
+        break;
+      case 0x15:
+        stack.push(`(${pop()})`);
+        break;
+      case 0x16:
+        stack.push('');
+        break;
+      case 0x17: {
+        const str = readUnicodeString(rgce, pos, 1);
+        stack.push(formatString(str.text));
+        pos += str.size;
+        break;
+      }
+      case 0x19: {
+        // PtgAttr
+        const flags = rgce[pos];
+        const data = u16(rgce, pos + 1);
+        pos += 3;
+        if (flags & 0x04) {
+          // tAttrChoose：跳过跳转表
+          pos += (data + 1) * 2;
+        } else if (flags & 0x10) {
+          // tAttrSum：单参数 SUM
+          stack.push(`SUM(${pop()})`);
+        }
+        break;
+      }
+      case 0x1c:
+        stack.push(ERROR_CODES[rgce[pos]] || '#N/A');
+        pos += 1;
+        break;
+      case 0x1d:
+        stack.push(rgce[pos] ? 'TRUE' : 'FALSE');
+        pos += 1;
+        break;
+      case 0x1e:
+        stack.push(String(u16(rgce, pos)));
+        pos += 2;
+        break;
+      case 0x1f:
+        stack.push(formatNumber(f64(rgce, pos)));
+        pos += 8;
+        break;
+      case 0x20: {
+        // PtgArray：常量数组数据位于公式末尾的附加数据中
+        pos += 7;
+        const cols = extra[extraPos] + 1;
+        const rows = u16(extra, extraPos + 1) + 1;
+        extraPos += 3;
+        const rowTexts: string[] = [];
+        for (let r = 0; r < rows; r++) {
+          const values: string[] = [];
+          for (let c = 0; c < cols; c++) {
+            const kind = extra[extraPos++];
+            if (kind === 0x01) {
+              values.push(formatNumber(f64(extra, extraPos)));
+              extraPos += 8;
+            } else if (kind === 0x02) {
+              const str = readUnicodeString(extra, extraPos, 2);
+              values.push(formatString(str.text));
+              extraPos += str.size;
+            } else if (kind === 0x04) {
+              values.push(extra[extraPos] ? 'TRUE' : 'FALSE');
+              extraPos += 8;
+            } else if (kind === 0x10) {
+              values.push(ERROR_CODES[extra[extraPos]] || '#N/A');
+              extraPos += 8;
+            } else {
+              values.push('');
+              extraPos += 8;
+            }
+          }
+          rowTexts.push(values.join(','));
+        }
+        stack.push(`{${rowTexts.join(';')}}`);
+        break;
+      }
+      case 0x21:
+      case 0x22: {
+        // PtgFunc / PtgFuncVar
+        let argCount: number;
+        let iftab: number;
+        if (base === 0x21) {
+          iftab = u16(rgce, pos);
+          pos += 2;
+          const fn = FUNCTIONS[iftab];
+          if (!fn || fn[1] < 0) throw new Error(`未知函数: ${iftab}`);
+          argCount = fn[1];
+        } else {
+          argCount = rgce[pos] & 0x7f;
+          iftab = u16(rgce, pos + 1) & 0x7fff;
+          pos += 3;
+        }
+        const args = popArgs(argCount);
+        if (iftab === 0xff) {
+          // 用户自定义/加载项函数：第一个参数为函数名
+          const name = args.shift() || '';
+          stack.push(`${name}(${args.join(',')})`);
+        } else {
+          const fn = FUNCTIONS[iftab];
+          if (!fn) throw new Error(`未知函数: ${iftab}`);
+          stack.push(`${fn[0]}(${args.join(',')})`);
+        }
+        break;
+      }
+      case 0x23: {
+        // PtgName
+        const index = u16(rgce, pos);
+        pos += 4;
+        stack.push(ctx.globals.names[index - 1] || '#NAME?');
+        break;
+      }
+      case 0x24:
+      case 0x2c: {
+        // PtgRef / PtgRefN
+        const ref = decodeRef(u16(rgce, pos), u16(rgce, pos + 2), ctx, base === 0x2c);
+        pos += 4;
+        stack.push(formatCell(ref));
+        break;
+      }
+      case 0x25:
+      case 0x2d: {
+        // PtgArea / PtgAreaN
+        const relative = base === 0x2d;
+        const first = decodeRef(u16(rgce, pos), u16(rgce, pos + 4), ctx, relative);
+        const last = decodeRef(u16(rgce, pos + 2), u16(rgce, pos + 6), ctx, relative);
+        pos += 8;
+        stack.push(formatArea(first, last));
+        break;
+      }
+      case 0x26: {
+        // PtgMemArea：子表达式照常计算，附加数据需跳过
+        pos += 6;
+        const count = u16(extra, extraPos);
+        extraPos += 2 + count * 8;
+        break;
+      }
+      case 0x27:
+      case 0x28:
+        // PtgMemErr / PtgMemNoMem
+        pos += 6;
+        break;
+      case 0x29:
+        // PtgMemFunc
+        pos += 2;
+        break;
+      case 0x2a:
+        pos += 4;
+        stack.push('#REF!');
+        break;
+      case 0x2b:
+        pos += 8;
+        stack.push('#REF!');
+        break;
+      case 0x39: {
+        // PtgNameX：外部名称或加载项函数名
+        const ixti = u16(rgce, pos);
+        const nameIndex = u16(rgce, pos + 2);
+        pos += 6;
+        const xti = ctx.globals.externSheets[ixti];
+        const supBook = xti ? ctx.globals.supBooks[xti.supBook] : undefined;
+        if (!supBook || supBook.kind === 'internal') {
+          stack.push(ctx.globals.names[nameIndex - 1] || '#NAME?');
+        } else {
+          stack.push(supBook.externNames[nameIndex - 1] || '#NAME?');
+        }
+        break;
+      }
+      case 0x3a: {
+        // PtgRef3d
+        const prefix = sheetPrefix(ctx, u16(rgce, pos));
+        const ref = decodeRef(u16(rgce, pos + 2), u16(rgce, pos + 4), ctx, ctx.shared);
+        pos += 6;
+        stack.push(prefix === '#REF!' ? prefix : `${prefix}${formatCell(ref)}`);
+        break;
+      }
+      case 0x3b: {
+        // PtgArea3d
+        const prefix = sheetPrefix(ctx, u16(rgce, pos));
+        const first = decodeRef(u16(rgce, pos + 2), u16(rgce, pos + 6), ctx, ctx.shared);
+        const last = decodeRef(u16(rgce, pos + 4), u16(rgce, pos + 8), ctx, ctx.shared);
+        pos += 10;
+        stack.push(prefix === '#REF!' ? prefix : `${prefix}${formatArea(first, last)}`);
+        break;
+      }
+      case 0x3c:
+        pos += 6;
+        stack.push('#REF!');
+        break;
+      case 0x3d:
+        pos += 10;
+        stack.push('#REF!');
+        break;
+      default:
+        throw new Error(`不支持的公式标记: 0x${ptg.toString(16)}`);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error('公式结构无效');
+  }
+  return stack[0];
+}
+
+// ========== 工作表子流解析 ==========
+
+function readRk(data: Uint8Array, offset: number): number {
+  const rk = u32(data, offset);
+  let value: number;
+  if (rk & 0x02) {
+    // 30 位有符号整数
+    value = (rk | 0) >> 2;
+  } else {
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setUint32(0, 0, true);
+    buffer.setUint32(4, (rk & 0xfffffffc) >>> 0, true);
+    value = buffer.getFloat64(0, true);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+function parseWorksheet(
+  stream: Uint8Array,
+  sheet: XlsBoundSheet,
+  globals: XlsGlobals,
+  worksheet: ExcelJS.Worksheet,
+  styleCache: Map<number, Partial<ExcelJS.Style>>,
+): void {
+  const getStyle = (xfIndex: number): Partial<ExcelJS.Style> | undefined => {
+    if (!styleCache.has(xfIndex)) {
+      const xf = globals.xfs[xfIndex];
+      if (!xf) return undefined;
+      styleCache.set(xfIndex, convertXfStyle(globals, xf));
+    }
+    return styleCache.get(xfIndex);
+  };
+
+  // 设置单元格值和样式（日期格式的数字按 ExcelJS 的方式转换为 Date）
+  const setCell = (row: number, col: number, xfIndex: number, value: ExcelJS.CellValue) => {
+    const cell = worksheet.getCell(row + 1, col + 1);
+    const style = getStyle(xfIndex);
+    if (typeof value === 'number' && isDateNumFmt(style?.numFmt)) {
+      cell.value = excelToDate(value, globals.date1904);
+    } else {
+      cell.value = value;
+    }
+    if (style) cell.style = style;
+  };
+
+  const pendingFormulas: PendingFormula[] = [];
+  const sharedFormulas = new Map<string, SharedFormula>();
+  const arrayFormulas = new Map<string, SharedFormula>();
+  let pendingString: PendingFormula | null = null;
+  const formulaXf = new Map<string, number>();
+  const merges: Array<[number, number, number, number]> = [];
+  let frozen = false;
+
+  let offset = sheet.offset;
+  let depth = 0;
+  while (offset < stream.length) {
+    const record = readRecord(stream, offset);
+    if (!record) break;
+    const { type, data } = record;
+    offset = record.next;
+
+    if (type === RT_BOF) {
+      depth++;
+      continue;
+    }
+    if (type === RT_EOF) {
+      depth--;
+      if (depth <= 0) break;
+      continue;
+    }
+    // 跳过嵌入的图表等子流
+    if (depth > 1) continue;
+
+    switch (type) {
+      case RT_LABELSST:
+        setCell(u16(data, 0), u16(data, 2), u16(data, 4), globals.sst[u32(data, 6)] ?? '');
+        break;
+      case RT_LABEL:
+      case RT_RSTRING:
+        setCell(u16(data, 0), u16(data, 2), u16(data, 4), readUnicodeString(data, 6, 2).text);
+        break;
+      case RT_NUMBER:
+        setCell(u16(data, 0), u16(data, 2), u16(data, 4), f64(data, 6));
+        break;
+      case RT_RK:
+        setCell(u16(data, 0), u16(data, 2), u16(data, 4), readRk(data, 6));
+        break;
+      case RT_MULRK: {
+        const row = u16(data, 0);
+        const firstCol = u16(data, 2);
+        const count = (data.length - 6) / 6;
+        for (let i = 0; i < count; i++) {
+          const base = 4 + i * 6;
+          setCell(row, firstCol + i, u16(data, base), readRk(data, base + 2));
+        }
+        break;
+      }
+      case RT_BOOLERR: {
+        const value = data[6];
+        setCell(
+          u16(data, 0),
+          u16(data, 2),
+          u16(data, 4),
+          data[7] ? { error: ERROR_CODES[value] || '#N/A' } : value !== 0,
+        );
+        break;
+      }
+      case RT_BLANK:
+        setCell(u16(data, 0), u16(data, 2), u16(data, 4), null);
+        break;
+      case RT_MULBLANK: {
+        const row = u16(data, 0);
+        const firstCol = u16(data, 2);
+        const count = (data.length - 6) / 2;
+        for (let i = 0; i < count; i++) {
+          setCell(row, firstCol + i, u16(data, 4 + i * 2), null);
+        }
+        break;
+      }
+      case RT_FORMULA: {
+        const row = u16(data, 0);
+        const col = u16(data, 2);
+        const xfIndex = u16(data, 4);
+        let result: PendingFormula['result'];
+        let expectsString = false;
+        if (u16(data, 12) === 0xffff) {
+          const kind = data[6];
+          if (kind === 0x00) expectsString = true;
+          else if (kind === 0x01) result = data[8] !== 0;
+          else if (kind === 0x02) result = { error: ERROR_CODES[data[8]] || '#N/A' };
+          else result = '';
+        } else {
+          result = f64(data, 6);
+        }
+        const formulaLength = u16(data, 20);
+        const pending: PendingFormula = {
+          row,
+          col,
+          rgce: data.subarray(22, 22 + formulaLength),
+          extra: data.subarray(22 + formulaLength),
+          result,
+        };
+        pendingFormulas.push(pending);
+        formulaXf.set(`${row},${col}`, xfIndex);
+        pendingString = expectsString ? pending : null;
+        break;
+      }
+      case RT_STRING: {
+        const { segments, next } = collectContinues(stream, record);
+        offset = next;
+        if (pendingString) {
+          pendingString.result = createSegmentReader(segments).string();
+          pendingString = null;
+        }
+        break;
+      }
+      case RT_SHRFMLA:
+      case RT_ARRAY: {
+        const firstRow = u16(data, 0);
+        const lastRow = u16(data, 2);
+        const firstCol = data[4];
+        const lastCol = data[5];
+        // SHRFMLA: 保留 1 字节 + cUse 1 字节；ARRAY: grbit 2 字节 + chn 4 字节
+        const lengthOffset = type === RT_SHRFMLA ? 8 : 12;
+        const formulaLength = u16(data, lengthOffset);
+        const formula: SharedFormula = {
+          firstRow,
+          lastRow,
+          firstCol,
+          lastCol,
+          rgce: data.subarray(lengthOffset + 2, lengthOffset + 2 + formulaLength),
+          extra: data.subarray(lengthOffset + 2 + formulaLength),
+        };
+        (type === RT_SHRFMLA ? sharedFormulas : arrayFormulas).set(
+          `${firstRow},${firstCol}`,
+          formula,
+        );
+        break;
+      }
+      case RT_ROW: {
+        const row = u16(data, 0);
+        const height = u16(data, 6);
+        const flags = u32(data, 12);
+        const excelRow = worksheet.getRow(row + 1);
+        // fUnsynced：行高被手动设置过
+        if (flags & 0x40 && !(height & 0x8000)) {
+          excelRow.height = (height & 0x7fff) / 20;
+        }
+        // fDyZero：隐藏行
+        if (flags & 0x20) {
+          excelRow.hidden = true;
+        }
+        break;
+      }
+      case RT_COLINFO: {
+        const firstCol = u16(data, 0);
+        const lastCol = Math.min(u16(data, 2), 255);
+        const width = u16(data, 4) / 256;
+        const hidden = (u16(data, 8) & 0x01) !== 0;
+        for (let col = firstCol; col <= lastCol; col++) {
+          const column = worksheet.getColumn(col + 1);
+          column.width = width;
+          if (hidden) column.hidden = true;
+        }
+        break;
+      }
+      case RT_MERGEDCELLS: {
+        const count = u16(data, 0);
+        for (let i = 0; i < count; i++) {
+          const base = 2 + i * 8;
+          merges.push([
+            u16(data, base),
+            u16(data, base + 4),
+            u16(data, base + 2),
+            u16(data, base + 6),
+          ]);
+        }
+        break;
+      }
+      case RT_WINDOW2:
+        frozen = (u16(data, 0) & 0x08) !== 0;
+        break;
+      case RT_PANE:
+        if (frozen) {
+          const xSplit = u16(data, 0);
+          const ySplit = u16(data, 2);
+          worksheet.views = [{ state: 'frozen', xSplit, ySplit }];
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  // 解析公式（共享公式和数组公式的定义位于首个公式单元格之后）
+  for (const pending of pendingFormulas) {
+    const { row, col, rgce, extra, result } = pending;
+    const xfIndex = formulaXf.get(`${row},${col}`) ?? 0;
+    const resultValue =
+      typeof result === 'number' && isDateNumFmt(getStyle(xfIndex)?.numFmt)
+        ? excelToDate(result, globals.date1904)
+        : result;
+
+    let formula: string | null = null;
+    try {
+      if (rgce[0] === 0x01 && rgce.length === 5) {
+        const key = `${u16(rgce, 1)},${u16(rgce, 3)}`;
+        const arrayFormula = arrayFormulas.get(key);
+        const sharedFormula = sharedFormulas.get(key);
+        if (arrayFormula) {
+          // 数组公式仅在左上角单元格保留公式文本
+          if (arrayFormula.firstRow === row && arrayFormula.firstCol === col) {
+            formula = decompileFormula(arrayFormula.rgce, arrayFormula.extra, {
+              globals,
+              row,
+              col,
+              shared: false,
+            });
+          }
+        } else if (sharedFormula) {
+          formula = decompileFormula(sharedFormula.rgce, sharedFormula.extra, {
+            globals,
+            row,
+            col,
+            shared: true,
+          });
+        }
+      } else {
+        formula = decompileFormula(rgce, extra, { globals, row, col, shared: false });
+      }
+    } catch {
+      // 无法反编译时只保留计算结果
+      formula = null;
+    }
+
+    const cell = worksheet.getCell(row + 1, col + 1);
+    cell.value =
+      formula !== null
+        ? { formula, result: resultValue, date1904: globals.date1904 }
+        : (resultValue ?? null);
+    const style = getStyle(xfIndex);
+    if (style) cell.style = style;
+  }
+
+  for (const [top, left, bottom, right] of merges) {
+    if (top === bottom && left === right) continue;
+    try {
+      worksheet.mergeCellsWithoutStyle(top + 1, left + 1, bottom + 1, right + 1);
+    } catch {
+      // 重叠的合并区域忽略
+    }
+  }
+}
+
+// ========== 对外接口 ==========
+
+/**
+ * 将 .xls (BIFF8) 文件内容加载到 ExcelJS 工作簿中
+ * 仅导入普通工作表，图表工作表、宏表和 VBA 模块会被跳过
+ * @param workbook 目标 ExcelJS 工作簿（通常为新建的空工作簿）
+ * @param buffer .xls 文件内容
+ */
+export function loadXlsWorkbook(workbook: ExcelJS.Workbook, buffer: ArrayBuffer): void {
+  const container = readCfb(buffer);
+  const entry = findCfbStream(container, 'Workbook');
+  if (!entry) {
+    if (findCfbStream(container, 'Book')) {
+      throw new UnsupportedFormatError('暂不支持 Excel 5.0/95 (BIFF5) 格式的 .xls 文件', {
+        format: 'xls',
+      });
+    }
+    if (findCfbStream(container, 'EncryptedPackage')) {
+      throw new EncryptedFileError();
+    }
+    throw new CorruptFileError('未找到 Workbook 数据流');
+  }
+
+  const stream = container.readStream(entry);
+  const globals = parseGlobals(stream);
+
+  if (globals.date1904) {
+    workbook.properties.date1904 = true;
+  }
+
+  const styleCache = new Map<number, Partial<ExcelJS.Style>>();
+  for (const sheet of globals.sheets) {
+    if (sheet.type !== SHEET_TYPE_WORKSHEET) continue;
+    const worksheet = workbook.addWorksheet(sheet.name, { state: sheet.state });
+    parseWorksheet(stream, sheet, globals, worksheet, styleCache);
+  }
+}
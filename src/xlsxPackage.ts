@@ -0,0 +1,266 @@
+/**
+ * xlsx（OOXML）包读取
+ *
+ * ExcelJS 不读取图表、透视表、排序状态等部件，这些需要直接解析 xlsx 包。
+ * 这里只解压一次，并统一解析 workbook.xml、工作簿关系和各工作表关系，
+ * 图表 / 透视表 / 排序解析器共用同一个包模型。新增部件解析器时也应基于此模块。
+ */
+
+import type JSZip from 'jszip';
+
+const WORKBOOK_PATH = 'xl/workbook.xml';
+
+/** 关系命名空间（过渡格式 / Strict 格式） */
+const RELATIONSHIPS_NAMESPACES = [
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  'http://purl.oclc.org/ooxml/officeDocument/relationships',
+];
+
+/**
+ * 包内关系（.rels 中的 Relationship）
+ */
+export interface XlsxRelationship {
+  /** 关系 ID（r:id） */
+  id: string;
+  /** 关系类型 URI */
+  type: string;
+  /** 目标部件在包内的完整路径（已按所在部件解析相对路径，如 xl/drawings/drawing1.xml） */
+  target: string;
+  /** 是否为外部链接（TargetMode="External"，此时 target 为原始值） */
+  external: boolean;
+}
+
+/**
+ * 工作表类型（按工作簿关系类型区分）
+ */
+export type XlsxSheetKind = 'worksheet' | 'chartsheet' | 'dialogsheet' | 'macrosheet' | 'unknown';
+
+/**
+ * workbook.xml 中的工作表
+ */
+export interface XlsxSheetEntry {
+  /** 工作表名称 */
+  name: string;
+  /** 在 workbook.xml 中的顺序（0-based，包含图表工作表等所有类型） */
+  index: number;
+  /** 关系 ID */
+  rId: string;
+  /** 工作表部件路径（如 xl/worksheets/sheet1.xml），关系缺失时为空字符串 */
+  path: string;
+  /** 工作表类型 */
+  kind: XlsxSheetKind;
+  /** 可见性（visible / hidden / veryHidden） */
+  state: string;
+  /** 工作表部件的关系 */
+  rels: XlsxRelationship[];
+}
+
+/**
+ * workbook.xml 中的定义名称
+ */
+export interface XlsxDefinedName {
+  /** 名称（如 MyList、_xlnm._FilterDatabase） */
+  name: string;
+  /** 引用或公式文本（不含前导 =，如 Sheet2!$A$1:$A$5） */
+  formula: string;
+  /** 作用域工作表在 workbook.xml 中的顺序，未设置表示工作簿级名称 */
+  localSheetId?: number;
+  /** 是否隐藏 */
+  hidden: boolean;
+  /** 备注 */
+  comment?: string;
+}
+
+/**
+ * 解析后的 xlsx 包
+ */
+export interface XlsxPackage {
+  /** 解压后的 zip 对象 */
+  zip: JSZip;
+  /** xl/workbook.xml 内容 */
+  workbookXml: string;
+  /** 工作簿关系（xl/_rels/workbook.xml.rels） */
+  workbookRels: XlsxRelationship[];
+  /** 工作表列表（按 workbook.xml 顺序） */
+  sheets: XlsxSheetEntry[];
+  /** 定义名称 */
+  definedNames: XlsxDefinedName[];
+  /** 读取部件文本，部件不存在时返回 null */
+  readText: (path: string) => Promise<string | null>;
+  /** 读取部件的关系（结果会缓存） */
+  getRelationships: (partPath: string) => Promise<XlsxRelationship[]>;
+}
+
+/**
+ * 读取 XML 标签上的属性值（不区分属性顺序）
+ */
+export function getXmlAttr(tag: string, name: string): string | null {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = tag.match(new RegExp(`\\s${escaped}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+/**
+ * 部件中引用关系 ID 的属性名
+ * 按 xmlns 声明查找关系命名空间的前缀，通常为 r:id，但其他程序生成的文件可能使用其他前缀
+ * @param xml 部件内容
+ * @returns 属性名（如 r:id）；未声明关系命名空间时返回 r:id
+ */
+export function getRelIdAttrName(xml: string): string {
+  for (const match of xml.matchAll(/\sxmlns:([\w.-]+)="([^"]*)"/g)) {
+    if (RELATIONSHIPS_NAMESPACES.includes(match[2])) return `${match[1]}:id`;
+  }
+  return 'r:id';
+}
+
+/**
+ * 判断 XML 布尔属性值（xsd:boolean 允许 1/0 和 true/false）
+ */
+export function isXmlTrue(value: string | null | undefined): boolean {
+  return value === '1' || value === 'true';
+}
+
+/**
+ * 解码 XML 实体
+ */
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 部件对应的关系文件路径
+ * xl/worksheets/sheet1.xml -> xl/worksheets/_rels/sheet1.xml.rels
+ */
+export function getRelsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf('/');
+  const dir = slash >= 0 ? partPath.slice(0, slash + 1) : '';
+  return `${dir}_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+/**
+ * 按所在部件解析关系目标路径
+ * 以 / 开头的目标相对于包根目录，否则相对于部件所在目录
+ */
+export function resolveRelTarget(partPath: string, target: string): string {
+  const base = target.startsWith('/') ? [] : partPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      base.pop();
+    } else {
+      base.push(segment);
+    }
+  }
+  return base.join('/');
+}
+
+/**
+ * 解析 .rels 内容
+ */
+export function parseRelationships(partPath: string, relsXml: string): XlsxRelationship[] {
+  const rels: XlsxRelationship[] = [];
+  for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const tag = match[0];
+    const id = getXmlAttr(tag, 'Id');
+    const target = getXmlAttr(tag, 'Target');
+    if (!id || target === null) continue;
+    const external = getXmlAttr(tag, 'TargetMode') === 'External';
+    rels.push({
+      id,
+      type: getXmlAttr(tag, 'Type') || '',
+      target: external ? target : resolveRelTarget(partPath, target),
+      external,
+    });
+  }
+  return rels;
+}
+
+/**
+ * 按关系类型后缀判断（如 /drawing、/pivotTable）
+ */
+export function isRelType(rel: XlsxRelationship, suffix: string): boolean {
+  return rel.type.endsWith(`/${suffix}`);
+}
+
+function getSheetKind(rel: XlsxRelationship | undefined): XlsxSheetKind {
+  if (!rel) return 'unknown';
+  if (isRelType(rel, 'worksheet')) return 'worksheet';
+  if (isRelType(rel, 'chartsheet')) return 'chartsheet';
+  if (isRelType(rel, 'dialogsheet')) return 'dialogsheet';
+  if (/\/(?:xl|intl)?macrosheet$/i.test(rel.type)) return 'macrosheet';
+  return 'unknown';
+}
+
+/**
+ * 加载 xlsx 包并解析工作簿结构
+ * @param arrayBuffer 文件内容
+ * @returns 包模型；不是有效的 xlsx 包（缺少 workbook.xml）时返回 null
+ */
+export async function loadXlsxPackage(arrayBuffer: ArrayBuffer): Promise<XlsxPackage | null> {
+  // ExcelJS 内部依赖 JSZip，这里直接复用
+  const JSZipModule = (await import('jszip')).default;
+  const zip = await JSZipModule.loadAsync(arrayBuffer);
+
+  const readText = async (path: string): Promise<string | null> => {
+    const file = zip.file(path);
+    return file ? file.async('string') : null;
+  };
+
+  const relsCache = new Map<string, XlsxRelationship[]>();
+  const getRelationships = async (partPath: string): Promise<XlsxRelationship[]> => {
+    const cached = relsCache.get(partPath);
+    if (cached) return cached;
+    const relsXml = await readText(getRelsPath(partPath));
+    const rels = relsXml ? parseRelationships(partPath, relsXml) : [];
+    relsCache.set(partPath, rels);
+    return rels;
+  };
+
+  const workbookXml = await readText(WORKBOOK_PATH);
+  if (workbookXml === null) {
+    return null;
+  }
+  const workbookRels = await getRelationships(WORKBOOK_PATH);
+  const relById = new Map(workbookRels.map((rel) => [rel.id, rel]));
+
+  const sheets: XlsxSheetEntry[] = [];
+  const relIdAttr = getRelIdAttrName(workbookXml);
+  const sheetsSection = workbookXml.match(/<sheets\b[^>]*>([\s\S]*?)<\/sheets>/)?.[1] || '';
+  for (const match of sheetsSection.matchAll(/<sheet\b[^>]*>/g)) {
+    const tag = match[0];
+    const rId = getXmlAttr(tag, relIdAttr) || '';
+    const rel = relById.get(rId);
+    const path = rel && !rel.external ? rel.target : '';
+    sheets.push({
+      name: getXmlAttr(tag, 'name') || '',
+      index: sheets.length,
+      rId,
+      path,
+      kind: getSheetKind(rel),
+      state: getXmlAttr(tag, 'state') || 'visible',
+      rels: path ? await getRelationships(path) : [],
+    });
+  }
+
+  const definedNames: XlsxDefinedName[] = [];
+  for (const match of workbookXml.matchAll(/<definedName\b([^>]*)>([\s\S]*?)<\/definedName>/g)) {
+    const tag = `<definedName${match[1]}>`;
+    const localSheetId = getXmlAttr(tag, 'localSheetId');
+    definedNames.push({
+      name: getXmlAttr(tag, 'name') || '',
+      formula: decodeXmlEntities(match[2]).replace(/^=/, ''),
+      localSheetId: localSheetId === null ? undefined : parseInt(localSheetId, 10),
+      hidden: isXmlTrue(getXmlAttr(tag, 'hidden')),
+      comment: getXmlAttr(tag, 'comment') ?? undefined,
+    });
+  }
+
+  return { zip, workbookXml, workbookRels, sheets, definedNames, readText, getRelationships };
+}
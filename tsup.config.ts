@@ -1,21 +1,36 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, type Options } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  dts: true,
+const shared: Options = {
   splitting: false,
   sourcemap: true,
-  clean: true,
   treeshake: true,
   minify: true,
   external: [
     '@univerjs/core',
     '@univerjs/presets',
   ],
-  esbuildOptions(options) {
+  esbuildOptions(options, context) {
     options.define = {
+      ...options.define,
       UNIVER_VERSION: '"0.15.0"',
+      BUILD_FORMAT: JSON.stringify(context.format),
     };
   },
-});
+};
+
+// 两个构建并行执行，不能在其中一个上设置 clean（会删除另一个的输出），dist 由 build 脚本先行清理
+export default defineConfig([
+  {
+    ...shared,
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+  },
+  {
+    // importWorker 作为独立入口输出，供 importFileInWorker 通过 new URL(...) 加载
+    // 内置 Worker 以 ES 模块加载，只输出 ESM；CommonJS 构建需通过 worker 选项自行提供 Worker
+    ...shared,
+    entry: ['src/importWorker.ts'],
+    format: ['esm'],
+  },
+]);